@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import { HyperliquidMarginMode, PoolConfig } from './types';
 
 // Load environment variables
 dotenv.config();
@@ -36,31 +37,144 @@ function getNumericEnvVar(name: string, defaultValue?: number): number {
   return numValue;
 }
 
+// Perp ticker derived from the base of a pair, e.g. PENDLE-USDT -> PENDLE-PERP
+function perpTickerFor(pairTicker: string): string {
+  return pairTicker.split('-')[0] + '-PERP';
+}
+
+/**
+ * Parse the watched pools. HEDGE_POOLS is a JSON array such as
+ * [{"pool":"0x...","pair":"ARB-USDC","coin":"ARB-PERP","rebalanceThreshold":3}];
+ * without it the single pool settings are used.
+ */
+function getPoolsConfig(): PoolConfig[] {
+  const raw = process.env.HEDGE_POOLS;
+  
+  if (raw === undefined || raw.trim() === '') {
+    const pairTicker = getEnvVar('PAIR_TICKER', 'PENDLE-USDT');
+    return [{
+      address: getEnvVar('PENDLE_USDT_UniswapV3Pool') as `0x${string}`,
+      pairTicker,
+      perpTicker: perpTickerFor(pairTicker),
+      rebalanceThreshold: getNumericEnvVar('TRASHOLD_REBALANCE', 5) / 100,
+      hedgeTokenAddress: getEnvVar('HEDGE_TOKEN_ADDRESS', ''),
+    }];
+  }
+  
+  let entries: unknown;
+  try {
+    entries = JSON.parse(raw);
+  } catch (error) {
+    const reason = (error as Error).message;
+    throw new Error(`Environment variable HEDGE_POOLS is not valid JSON: ${reason}`);
+  }
+  
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error('Environment variable HEDGE_POOLS must be a non-empty JSON array');
+  }
+  
+  const defaultThreshold = getNumericEnvVar('TRASHOLD_REBALANCE', 5);
+  
+  return entries.map((entry, i) => {
+    if (typeof entry?.pool !== 'string' || typeof entry?.pair !== 'string') {
+      throw new Error(`HEDGE_POOLS[${i}] must have string "pool" and "pair" fields`);
+    }
+    
+    return {
+      address: entry.pool as `0x${string}`,
+      pairTicker: entry.pair,
+      perpTicker: typeof entry.coin === 'string' ? entry.coin : perpTickerFor(entry.pair),
+      rebalanceThreshold: Number(entry.rebalanceThreshold ?? defaultThreshold) / 100,
+      hedgeTokenAddress: typeof entry.hedgeToken === 'string' ? entry.hedgeToken : '',
+    };
+  });
+}
+
+const pools = getPoolsConfig();
+
 // Export configuration object
 export const config = {
   // Network and addresses
-  uniswapPool: getEnvVar('PENDLE_USDT_UniswapV3Pool'),
+  pools,
   walletAddress: getEnvVar('HOYT_WALLET'),
   privateKey: getEnvVar('HOYT_WALLET_PK'),
   rpc: getEnvVar('ARBITRUM_RPC'),
+  // Primary RPC first, then comma-separated fallbacks in the order they are tried
+  rpcUrls: [
+    getEnvVar('ARBITRUM_RPC'),
+    ...getEnvVar('ARBITRUM_RPC_FALLBACKS', '').split(',').map(url => url.trim()).filter(Boolean),
+  ],
   
   // Trading parameters
-  pairTicker: getEnvVar('PAIR_TICKER', 'PENDLE-USDT'),
-  pendlePerpTicker: getEnvVar('PAIR_TICKER', 'PENDLE-USDT').split('-')[0] + '-PERP',
   rebalanceThreshold: getNumericEnvVar('TRASHOLD_REBALANCE', 5) / 100, // Convert percentage to decimal
-  fundingTolerance: getNumericEnvVar('TRASHOLD_FUNDING', 0.5) / 100,   // Convert percentage to decimal
+  fundingTolerance: getNumericEnvVar('TRASHOLD_FUNDING', 0.5) / 100,   // Daily cost of the short, convert percentage to decimal
+  fundingLookbackHours: getNumericEnvVar('FUNDING_LOOKBACK_HOURS', 24), // Window funding is averaged over
   slippageTolerance: getNumericEnvVar('TRASHOLD_SLIPPAGE', 0.5) / 100, // Convert percentage to decimal
+  orderFillRetries: getNumericEnvVar('ORDER_FILL_RETRIES', 2), // IOC retries of an unfilled remainder
+  priceDivergenceThreshold: getNumericEnvVar('TRASHOLD_PRICE_DIVERGENCE', 3) / 100, // Mark vs pool TWAP
+  twapWindowSeconds: getNumericEnvVar('TWAP_WINDOW_SECONDS', 1800), // Pool oracle window
+  hedgeUncollectedFees: getEnvVar('HEDGE_UNCOLLECTED_FEES', 'false') === 'true', // Count PENDLE fees as exposure
   
   // Hyperliquid
   hyperliquidSigningKey: getEnvVar('HYPERLIQUID_PK'),
   hyperliquidApiEndpoint: getEnvVar('HYPERLIQUID_API', 'https://api.hyperliquid.xyz'),
+  // Master account when HYPERLIQUID_PK is an approved agent (API wallet) key - empty for the key's own account
+  hyperliquidAccountAddress: getEnvVar('HYPERLIQUID_ACCOUNT_ADDRESS', ''),
+  // Sub-account or vault to trade on behalf of - empty to trade the account itself
+  hyperliquidVaultAddress: getEnvVar('HYPERLIQUID_VAULT_ADDRESS', ''),
+  // WebSocket feed of marks, funding, fills and order updates - empty disables it
+  hyperliquidWsEndpoint: getEnvVar(
+    'HYPERLIQUID_WS',
+    `${getEnvVar('HYPERLIQUID_API', 'https://api.hyperliquid.xyz').replace(/^http/, 'ws')}/ws`
+  ),
+  hyperliquidWsStaleMs: getNumericEnvVar('HYPERLIQUID_WS_STALE_MS', 30000), // Silence before reconnecting
+  // Request weight budget, below the exchange's 1200 per minute per IP to leave room for other tools
+  hyperliquidWeightPerMinute: getNumericEnvVar('HYPERLIQUID_WEIGHT_PER_MINUTE', 1000),
   
   // Investment settings
   lpInvestment: getNumericEnvVar('INVESTMENT_IN_POOL', 100),
   hyperliquidMargin: getNumericEnvVar('HYPERLIQUID_INVESTMENT', 20),
   
+  // Hedge leverage - isolated margin is topped up or withdrawn to stay inside the band
+  hedgeLeverage: getNumericEnvVar('HEDGE_LEVERAGE', 3),
+  hedgeMarginMode: getEnvVar('HEDGE_MARGIN_MODE', 'isolated') as HyperliquidMarginMode,
+  hedgeLeverageMin: getNumericEnvVar('HEDGE_LEVERAGE_MIN', 2),
+  hedgeLeverageMax: getNumericEnvVar('HEDGE_LEVERAGE_MAX', 4),
+  
+  // Liquidation guard - distance from mark to liquidation, in percent of mark
+  liquidationWarnDistance: getNumericEnvVar('TRASHOLD_LIQUIDATION_WARN', 25) / 100,
+  liquidationTopUpDistance: getNumericEnvVar('TRASHOLD_LIQUIDATION_TOPUP', 15) / 100,
+  liquidationTrimDistance: getNumericEnvVar('TRASHOLD_LIQUIDATION_TRIM', 8) / 100,
+  liquidationTrimFraction: getNumericEnvVar('LIQUIDATION_TRIM_PERCENT', 25) / 100, // Share of the short bought back
+  liquidationTrimCooldownMs: getNumericEnvVar('LIQUIDATION_TRIM_COOLDOWN_MS', 3600000), // No increases after a trim
+  
+  // Account health - margin used, in percent of account value
+  marginUsageWarn: getNumericEnvVar('TRASHOLD_MARGIN_USAGE_WARN', 60) / 100,
+  marginUsageCritical: getNumericEnvVar('TRASHOLD_MARGIN_USAGE_CRITICAL', 80) / 100,
+  
   // Execution settings
   checkIntervalMs: getNumericEnvVar('CHECK_INTERVAL_MS', 60000), // Default 1 minute
+  // Hedge orders above this notional are split into child orders over time
+  executionSplitNotionalUsd: getNumericEnvVar('EXECUTION_SPLIT_NOTIONAL_USD', 2000),
+  executionChildIntervalMs: getNumericEnvVar('EXECUTION_CHILD_INTERVAL_MS', 5000), // Delay between child orders
+  executionBookShare: getNumericEnvVar('EXECUTION_BOOK_SHARE_PERCENT', 25) / 100, // Of the depth inside the slippage band
+  executionMaxDurationMs: getNumericEnvVar('EXECUTION_MAX_DURATION_MS', 60000), // Rest is left to the next cycle
+  executionMaxSlices: getNumericEnvVar('EXECUTION_MAX_SLICES', 50), // Child orders per split order at most
+  hedgeIntentFile: getEnvVar('HEDGE_INTENT_FILE', 'data/hedge-intents.json'), // Survives restarts
+  
+  // RPC failover
+  rpcTimeoutMs: getNumericEnvVar('RPC_TIMEOUT_MS', 10000),
+  rpcDemotionMs: getNumericEnvVar('RPC_DEMOTION_MS', 60000), // How long a failing endpoint is skipped
+  rpcMaxBlockLag: getNumericEnvVar('RPC_MAX_BLOCK_LAG', 50), // Blocks behind head before stale
+  rpcHealthCheckIntervalMs: getNumericEnvVar('RPC_HEALTH_CHECK_INTERVAL_MS', 30000),
+  
+  // Event-driven LP tracking
+  lpIndexEnabled: getEnvVar('LP_INDEX_ENABLED', 'false') === 'true',
+  lpIndexStartBlock: getNumericEnvVar('LP_INDEX_START_BLOCK', 0), // Required when enabled
+  lpIndexBlockRange: getNumericEnvVar('LP_INDEX_BLOCK_RANGE', 10000), // Max blocks per getLogs call, halved if rejected
+  eventPollIntervalMs: getNumericEnvVar('EVENT_POLL_INTERVAL_MS', 15000),
+  swapTriggerThreshold: getNumericEnvVar('TRASHOLD_SWAP_TRIGGER', 2) / 100, // Price move that triggers an early check
+  lpClosedRecheckCycles: getNumericEnvVar('LP_CLOSED_RECHECK_CYCLES', 10), // Without the index, cycles between closed position re-reads
 };
 
 export default config;
\ No newline at end of file
@@ -1,34 +1,140 @@
 import config from './config';
 import logger from './logger';
-import { LPWatcher } from './modules/lpWatcher';
+import {
+  LPWatcher,
+  createPositionIndex,
+  createRpcPool,
+  readPoolPositions,
+} from './modules/lpWatcher';
+import { RpcEndpointPool } from './modules/rpcPool';
 import { HedgeController } from './modules/hedgeController';
-import { BotStatus, BotState, HedgingAction } from './types';
-import validateConfig from './utils/configValidator';
+import {
+  HyperliquidClient,
+  createHyperliquidFeed,
+  createHyperliquidRateLimiter,
+  toHyperliquidCoin,
+} from './modules/hyperliquidClient';
+import { HyperliquidFeed } from './modules/hyperliquidFeed';
+import { RateLimiter } from './modules/rateLimiter';
+import { IntentStore } from './modules/intentStore';
+import { AccountMonitor } from './modules/accountMonitor';
+import {
+  BotStatus,
+  BotState,
+  CoinHedgeState,
+  HedgingAction,
+  HyperliquidAccountSummary,
+  LPPosition,
+} from './types';
+import validateConfig, { validateHyperliquidAccount } from './utils/configValidator';
+import {
+  calculateDeviation,
+  calculatePriceDivergence,
+  mergeLPPositions,
+} from './utils/calculations';
 import { setupGlobalErrorHandlers } from './utils/errorHandler';
 
+// Pools hedged by one perp coin and the controller trading it
+interface CoinHedge {
+  coin: string;
+  controller: HedgeController;
+  watchers: LPWatcher[];
+}
+
 /**
  * HOYT Bot - Delta Neutral Hedging/Farming Bot
- * Main controller that coordinates LP position monitoring and hedge management
+ * Main controller that coordinates LP position monitoring and hedge management.
+ * Pools hedged with the same perp are netted into one position per coin.
  */
 class HoytBot {
-  private lpWatcher: LPWatcher;
-  private hedgeController: HedgeController;
+  private hedges: CoinHedge[] = [];
+  private rpcPool: RpcEndpointPool;
+  private feed: HyperliquidFeed | null;
+  private rateLimiter: RateLimiter;
+  private intentStore: IntentStore;
+  private accountMonitor: AccountMonitor;
+  // Account-wide reads, each controller trades through its own client
+  private hyperliquid: HyperliquidClient;
   private state: BotState;
   private interval: NodeJS.Timeout | null = null;
+  private checkInProgress = false;
   
   constructor() {
-    this.lpWatcher = new LPWatcher();
-    this.hedgeController = new HedgeController();
+    this.rpcPool = createRpcPool();
+    this.feed = createHyperliquidFeed(config.pools.map(pool => pool.perpTicker));
+    this.rateLimiter = createHyperliquidRateLimiter();
+    this.intentStore = new IntentStore(config.hedgeIntentFile);
+    this.hyperliquid = new HyperliquidClient(this.feed, this.rateLimiter);
+    const coins: Record<string, CoinHedgeState> = {};
+    // All pools' positions belong to the one wallet, so one event index serves every watcher
+    const positionIndex = createPositionIndex(this.rpcPool);
+    
+    // Group pools by the perp that hedges them
+    for (const pool of config.pools) {
+      let hedge = this.hedges.find(h => h.coin === pool.perpTicker);
+      if (!hedge) {
+        // The strictest threshold of a coin's pools applies to the netted position
+        const coinPools = config.pools.filter(p => p.perpTicker === pool.perpTicker);
+        const threshold = Math.min(...coinPools.map(p => p.rebalanceThreshold));
+        hedge = {
+          coin: pool.perpTicker,
+          controller: new HedgeController(
+            pool.perpTicker,
+            threshold,
+            this.feed,
+            this.rateLimiter,
+            this.intentStore,
+          ),
+          watchers: [],
+        };
+        this.hedges.push(hedge);
+        coins[hedge.coin] = {
+          coin: hedge.coin,
+          pools: [],
+          lpPosition: null,
+          poolPositions: {},
+          hedgePosition: null,
+          fundingPnl: 0,
+          funding: null,
+          price: 0,
+          priceSource: 'mark',
+          markPrice: 0,
+          twapPrice: null,
+          priceDivergence: null,
+          tradingHaltReason: null,
+          deviation: 0,
+          rebalanceThreshold: threshold,
+          lastAction: null,
+        };
+      }
+      hedge.watchers.push(new LPWatcher(pool, this.rpcPool, positionIndex));
+      coins[hedge.coin].pools.push(pool.address);
+    }
+    this.accountMonitor = new AccountMonitor(
+      this.hedges.map(hedge => toHyperliquidCoin(hedge.coin)),
+      { marginUsageWarn: config.marginUsageWarn, marginUsageCritical: config.marginUsageCritical },
+    );
     
     // Initialize state
     this.state = {
       status: BotStatus.INITIALIZED,
       lastCheck: 0,
+      snapshot: null,
       lpPosition: null,
       hedgePosition: null,
       pendlePrice: 0,
       deviation: 0,
       lastAction: null,
+      coins,
+      totalLpValueUSD: 0,
+      totalHedgeExposure: 0,
+      totalFundingPnl: 0,
+      rpcEndpoints: this.rpcPool.getHealth(),
+      hyperliquidFeed: this.feed?.getStatus() ?? null,
+      hyperliquidRateLimit: this.rateLimiter.getStatus(),
+      hyperliquidAccount: null,
+      marginUsageLevel: 'ok',
+      unexpectedPositions: [],
       errors: []
     };
   }
@@ -46,18 +152,46 @@ class HoytBot {
         throw new Error('Invalid configuration. Please check your .env file.');
       }
       
-      // Initialize LP Watcher
-      await this.lpWatcher.initialize();
+      // The key must be allowed to trade for the configured account before anything is placed
+      if (!(await validateHyperliquidAccount(this.hyperliquid))) {
+        throw new Error('Hyperliquid key may not trade for the configured account.');
+      }
       
-      // Get initial market data
-      const marketData = await this.hedgeController.getMarketData();
-      this.state.pendlePrice = marketData.price;
+      // Marks, funding and fills stream in from here on, HTTP covers any gaps
+      this.feed?.start();
       
-      logger.info(`Initial PENDLE price: ${marketData.price.toFixed(4)}`);
-      logger.info(`Current funding rate: ${marketData.fundingRate.toFixed(4)}%`);
+      for (const hedge of this.hedges) {
+        // Initialize LP Watchers
+        for (const watcher of hedge.watchers) {
+          await watcher.initialize();
+        }
+        
+        // Get initial market data
+        const marketData = await hedge.controller.getMarketData();
+        this.state.coins[hedge.coin].price = marketData.price;
+        
+        logger.info(`Initial ${hedge.coin} price: ${marketData.price.toFixed(4)}`);
+        const hourlyPct = (marketData.funding.hourly * 100).toFixed(4);
+        const annualizedPct = (marketData.funding.annualized * 100).toFixed(2);
+        logger.info(
+          `Current ${hedge.coin} funding rate: ${hourlyPct}% hourly (${annualizedPct}% annualized)`
+        );
+        
+        // Orders left open by an earlier run count as in flight rather than being placed again
+        await hedge.controller.reconcileOpenOrders();
+        
+        // Hedge at the configured leverage and margin mode rather than whatever the account had
+        await hedge.controller.ensureLeverage(await hedge.controller.getHedgePosition());
+      }
+      this.state.pendlePrice = this.state.coins[this.hedges[0].coin].price;
       
       // Get initial positions
       await this.updatePositions();
+      try {
+        this.checkAccountHealth(await this.hyperliquid.getAccountSummary());
+      } catch (accountError) {
+        logger.error(`Failed to check Hyperliquid account health: ${accountError}`);
+      }
       
       this.state.status = BotStatus.INITIALIZED;
       logger.status('HOYT Bot initialized successfully!');
@@ -114,6 +248,19 @@ class HoytBot {
           }
         }, config.checkIntervalMs * 5);
         
+        // Keep scoring RPC endpoints and catch ones lagging behind the chain head
+        this.rpcPool.startHealthChecks(config.rpcHealthCheckIntervalMs);
+        
+        // Sharp pool moves between intervals trigger an early check
+        for (const watcher of this.getWatchers()) {
+          watcher.startEventWatch(() => {
+            logger.status('Sharp pool price move detected, running early check...');
+            this.executeCheck().catch(earlyError => {
+              logger.error(`Early check cycle error: ${earlyError}`);
+            });
+          });
+        }
+        
         this.state.status = BotStatus.RUNNING;
         logger.status(`HOYT Bot is running. Checking every ${config.checkIntervalMs / 1000} seconds.`);
       } else {
@@ -163,6 +310,12 @@ class HoytBot {
       this.interval = null;
     }
     
+    for (const watcher of this.getWatchers()) {
+      watcher.stopEventWatch();
+    }
+    this.rpcPool.stopHealthChecks();
+    this.feed?.stop();
+    
     this.state.status = BotStatus.STOPPED;
     logger.status('HOYT Bot stopped.');
   }
@@ -171,11 +324,32 @@ class HoytBot {
    * Execute a single check and rebalance cycle
    */
   async executeCheck(): Promise<void> {
+    // Interval and event-triggered checks must not overlap
+    if (this.checkInProgress) {
+      logger.debug('Check cycle already in progress, skipping');
+      return;
+    }
+    this.checkInProgress = true;
+    
     try {
       logger.info('Executing check cycle...');
       this.state.lastCheck = Date.now();
       
+      // One account read per cycle gives the hedges fresh liquidation prices and margin,
+      // and the account health check its margin usage and positions
+      let account: HyperliquidAccountSummary | null = null;
+      try {
+        account = await this.hyperliquid.getAccountSummary();
+      } catch (accountError) {
+        logger.error(`Failed to read Hyperliquid account: ${accountError}`);
+        this.state.errors.push(`Account read failed: ${(accountError as Error).message}`);
+      }
+      for (const hedge of this.hedges) {
+        hedge.controller.startCycle(account);
+      }
+      
       // Update positions and market data - wrap in try/catch to handle failures
+      const previousSnapshot = this.state.snapshot;
       try {
         await this.updatePositions();
       } catch (posError) {
@@ -184,34 +358,86 @@ class HoytBot {
         // Continue execution, but be aware positions may be stale
       }
       
-      // Check if we need to rebalance - only if we have LP position
-      if (this.state.lpPosition && this.state.lpPosition.totalValueUSD > 0) {
+      // Client order IDs of this cycle's orders are derived from the LP snapshot block,
+      // or from the time when no new snapshot could be taken
+      const cycleId = this.state.snapshot && this.state.snapshot !== previousSnapshot
+        ? this.state.snapshot.blockNumber.toString()
+        : this.state.lastCheck.toString();
+      
+      // Rebalance each coin against its netted LP position
+      let rebalanced = false;
+      for (const hedge of this.hedges) {
+        const coinState = this.state.coins[hedge.coin];
+        
+        // Liquidation risk is checked whatever the LP side looks like
+        try {
+          const guardResult = await hedge.controller.checkLiquidationRisk(cycleId);
+          if (guardResult) {
+            guardResult.blockNumber = this.state.snapshot?.blockNumber;
+            coinState.lastAction = guardResult;
+            this.state.lastAction = guardResult;
+            
+            if (!guardResult.success) {
+              logger.error(`Liquidation guard failed for ${hedge.coin}: ${guardResult.error}`);
+              this.state.errors.push(guardResult.error || 'Unknown liquidation guard error');
+            } else if (guardResult.action !== HedgingAction.LIQUIDATION_WARNING) {
+              logger.success(`Liquidation guard acted for ${hedge.coin}: ${guardResult.details}`);
+              rebalanced = true;
+            }
+          }
+        } catch (guardError) {
+          logger.error(`Liquidation check failed for ${hedge.coin}: ${guardError}`);
+          this.state.errors.push(`Liquidation check error: ${(guardError as Error).message}`);
+        }
+        
+        // Only hedge coins that have an LP position
+        if (!coinState.lpPosition || coinState.lpPosition.totalValueUSD <= 0) {
+          logger.warn(`No LP position found for ${hedge.coin}. No hedging needed.`);
+          continue;
+        }
+        
+        // Never trade on a price the pool oracle disagrees with
+        if (coinState.tradingHaltReason) {
+          logger.warn(`Skipping ${hedge.coin} rebalance: ${coinState.tradingHaltReason}`);
+          continue;
+        }
+        
         try {
-          const result = await this.hedgeController.updateHedgePosition(this.state.lpPosition);
+          const result = await hedge.controller.updateHedgePosition(coinState.lpPosition, cycleId);
+          result.blockNumber = this.state.snapshot?.blockNumber;
+          coinState.lastAction = result;
           this.state.lastAction = result;
           
-          if (result.success) {
+          if (result.deferReason) {
+            logger.info(`Rebalance deferred for ${hedge.coin}: ${result.details}`);
+          } else if (result.success) {
             if (result.action !== HedgingAction.NO_ACTION) {
-              logger.success(`Rebalance executed: ${result.details}`);
-              
-              // Update positions after rebalance - wrap in try/catch
-              try {
-                await this.updatePositions();
-              } catch (updateError) {
-                logger.error(`Failed to update positions after rebalance: ${updateError}`);
-                // Continue execution with potentially stale position data
-              }
+              logger.success(`Rebalance executed for ${hedge.coin}: ${result.details}`);
+              rebalanced = true;
             }
           } else {
-            logger.error(`Rebalance failed: ${result.error}`);
+            logger.error(`Rebalance failed for ${hedge.coin}: ${result.error}`);
             this.state.errors.push(result.error || 'Unknown error during rebalance');
           }
         } catch (hedgeError) {
-          logger.error(`Hedge operation failed: ${hedgeError}`);
+          logger.error(`Hedge operation failed for ${hedge.coin}: ${hedgeError}`);
           this.state.errors.push(`Hedge operation error: ${(hedgeError as Error).message}`);
         }
-      } else {
-        logger.warn('No LP position found or position is empty. No hedging needed.');
+      }
+      
+      // Update positions after rebalance - wrap in try/catch
+      if (rebalanced) {
+        try {
+          await this.updatePositions();
+        } catch (updateError) {
+          logger.error(`Failed to update positions after rebalance: ${updateError}`);
+          // Continue execution with potentially stale position data
+        }
+      }
+      
+      // Margin and stray positions of the whole account, not just the hedges
+      if (account) {
+        this.checkAccountHealth(account);
       }
       
       // Log current state
@@ -226,6 +452,8 @@ class HoytBot {
       this.state.errors.push(errorMessage);
       
       // Don't change bot status to ERROR, just log the error and continue
+    } finally {
+      this.checkInProgress = false;
     }
   }
   
@@ -233,71 +461,165 @@ class HoytBot {
    * Update position information from both LP and hedge
    */
   private async updatePositions(): Promise<void> {
+    // Pin every LP read of this cycle to one block so pools are netted consistently
+    let blockNumber: bigint | undefined;
     try {
-      // Get market data first to get price
-      let marketData;
-      try {
-        marketData = await this.hedgeController.getMarketData();
-        // Guard against invalid market data
-        if (!marketData || marketData.price <= 0) {
-          logger.error('Received invalid market data with price <= 0');
-          throw new Error('Invalid market data');
-        }
-        this.state.pendlePrice = marketData.price;
-      } catch (marketError) {
-        logger.error(`Failed to get market data: ${marketError}`);
-        // If we can't get market data, we can't proceed with accurate position updates
-        throw new Error(`Market data retrieval failed: ${(marketError as Error).message}`);
-      }
-      
-      // Get positions with individual error handling for each source
-      let lpPosition = null;
-      let hedgePosition = null;
-      
-      try {
-        lpPosition = await this.lpWatcher.getCombinedLPPosition(marketData.price);
-      } catch (lpError) {
-        logger.error(`Failed to get LP position: ${lpError}`);
-        // Keep existing LP position if there's an error
-        lpPosition = this.state.lpPosition;
-      }
-      
+      const snapshot = await this.hedges[0].watchers[0].getSnapshotBlock();
+      this.state.snapshot = snapshot;
+      blockNumber = snapshot.blockNumber;
+      logger.debug(`LP snapshot at block ${snapshot.blockNumber}`);
+    } catch (snapshotError) {
+      logger.error(`Failed to get snapshot block: ${snapshotError}`);
+      // Without a snapshot the LP positions below keep their previous values
+    }
+    
+    for (const hedge of this.hedges) {
       try {
-        hedgePosition = await this.hedgeController.getHedgePosition();
-      } catch (hedgeError) {
-        logger.error(`Failed to get hedge position: ${hedgeError}`);
-        // Keep existing hedge position if there's an error
-        hedgePosition = this.state.hedgePosition;
+        await this.updateCoinPositions(hedge, blockNumber);
+      } catch (error) {
+        logger.error(`Failed to update ${hedge.coin} positions: ${error}`);
+        // Don't rethrow here to make position updates more resilient
       }
+    }
+    
+    // The primary coin keeps the single-pool fields of the state current
+    const primary = this.state.coins[this.hedges[0].coin];
+    this.state.lpPosition = primary.lpPosition;
+    this.state.hedgePosition = primary.hedgePosition;
+    this.state.pendlePrice = primary.price;
+    this.state.deviation = primary.deviation;
+    
+    this.state.rpcEndpoints = this.rpcPool.getHealth();
+    this.state.hyperliquidFeed = this.feed?.getStatus() ?? null;
+    this.state.hyperliquidRateLimit = this.rateLimiter.getStatus();
+    
+    const coinStates = Object.values(this.state.coins);
+    this.state.totalLpValueUSD = coinStates
+      .reduce((sum, coin) => sum + (coin.lpPosition?.totalValueUSD ?? 0), 0);
+    this.state.totalHedgeExposure = coinStates
+      .reduce((sum, coin) => sum + (coin.lpPosition?.volatileExposure ?? 0), 0);
+    this.state.totalFundingPnl = coinStates
+      .reduce((sum, coin) => sum + coin.fundingPnl, 0);
+  }
+  
+  /**
+   * Update the netted LP position, hedge and deviation of one coin
+   * @param blockNumber Snapshot block - LP positions are kept as-is when missing
+   */
+  private async updateCoinPositions(hedge: CoinHedge, blockNumber?: bigint): Promise<void> {
+    const coinState = this.state.coins[hedge.coin];
+    
+    await this.updateCoinPrice(hedge, blockNumber);
+    
+    if (blockNumber !== undefined) {
+      coinState.poolPositions = await readPoolPositions(
+        hedge.watchers,
+        coinState.price,
+        blockNumber,
+        coinState.poolPositions
+      );
+    }
+    
+    // Netting without a pool would understate exposure and shrink the hedge
+    const missingPools = hedge.watchers
+      .map(watcher => watcher.getPool().address)
+      .filter(poolAddress => !coinState.poolPositions[poolAddress]);
+    if (missingPools.length > 0 && !coinState.tradingHaltReason) {
+      coinState.tradingHaltReason = `No LP position read yet for pool ${missingPools.join(', ')}`;
+    }
+    
+    const poolPositions: LPPosition[] = Object.values(coinState.poolPositions);
+    coinState.lpPosition = mergeLPPositions(poolPositions);
+    
+    try {
+      coinState.hedgePosition = await hedge.controller.getHedgePosition();
+    } catch (hedgeError) {
+      // Keep existing hedge position if there's an error
+      logger.error(`Failed to get ${hedge.coin} hedge position: ${hedgeError}`);
+    }
+    
+    try {
+      coinState.fundingPnl = await hedge.controller.getFundingPnl(coinState.hedgePosition);
+      coinState.funding = await hedge.controller.getFundingOutlook();
+    } catch (fundingError) {
+      logger.error(`Failed to get ${hedge.coin} funding history: ${fundingError}`);
+    }
+    
+    const lpExposure = Math.max(0, coinState.lpPosition?.volatileExposure ?? 0);
+    const hedgeSize = coinState.hedgePosition?.notionalUsd ?? 0;
+    coinState.deviation = calculateDeviation(lpExposure, hedgeSize);
+  }
+  
+  /**
+   * Price a coin from the Hyperliquid mark, cross-checked against the TWAP of its first pool.
+   * Trading is halted when the two diverge past the threshold or when only the TWAP is
+   * available, in which case the TWAP still values the LP exposure.
+   */
+  private async updateCoinPrice(hedge: CoinHedge, blockNumber?: bigint): Promise<void> {
+    const coinState = this.state.coins[hedge.coin];
+    
+    // getMarketData falls back to price 0 when Hyperliquid is unreachable
+    const marketData = await hedge.controller.getMarketData();
+    coinState.markPrice = marketData && marketData.price > 0 ? marketData.price : 0;
+    
+    try {
+      coinState.twapPrice = await hedge.watchers[0].getTwapPrice(
+        config.twapWindowSeconds,
+        blockNumber
+      );
+    } catch (twapError) {
+      logger.warn(`Pool TWAP unavailable for ${hedge.coin}: ${twapError}`);
+      coinState.twapPrice = null;
+    }
+    
+    coinState.priceDivergence = null;
+    coinState.tradingHaltReason = null;
+    
+    if (coinState.markPrice > 0) {
+      coinState.price = coinState.markPrice;
+      coinState.priceSource = 'mark';
       
-      // Update state with what data we have
-      this.state.lpPosition = lpPosition;
-      this.state.hedgePosition = hedgePosition;
-      
-      // Calculate deviation with safer checks
-      if (lpPosition && hedgePosition && hedgePosition.size !== 0) {
-        const lpExposure = Math.max(0, lpPosition.token0Exposure);
-        const hedgeSize = Math.abs(hedgePosition.size);
+      if (coinState.twapPrice !== null) {
+        coinState.priceDivergence =
+          calculatePriceDivergence(coinState.markPrice, coinState.twapPrice);
         
-        if (hedgeSize > 0.000001) { // Avoid division by near-zero
-          const deviation = Math.abs(lpExposure - hedgeSize) / hedgeSize * 100;
-          this.state.deviation = parseFloat(deviation.toFixed(2));
-        } else {
-          this.state.deviation = lpExposure > 0 ? 100 : 0;
+        if (coinState.priceDivergence > config.priceDivergenceThreshold) {
+          const divergencePct = (coinState.priceDivergence * 100).toFixed(2);
+          coinState.tradingHaltReason =
+            `mark ${coinState.markPrice.toFixed(4)} diverges ${divergencePct}% ` +
+            `from pool TWAP ${coinState.twapPrice.toFixed(4)}`;
+          logger.warn(`${hedge.coin} price check failed: ${coinState.tradingHaltReason}`);
         }
-      } else if (lpPosition && lpPosition.token0Exposure > 0) {
-        // If we have LP exposure but no hedge
-        this.state.deviation = 100;
-      } else {
-        this.state.deviation = 0;
       }
-    } catch (error) {
-      logger.error(`Failed to update positions: ${error}`);
-      // Don't rethrow here to make position updates more resilient
-      // But do indicate the error in the logs
+    } else if (coinState.twapPrice !== null) {
+      coinState.price = coinState.twapPrice;
+      coinState.priceSource = 'twap';
+      coinState.tradingHaltReason = 'Hyperliquid mark price unavailable';
+      logger.warn(`Hyperliquid mark unavailable, valuing ${hedge.coin} exposure at pool TWAP`);
+    } else {
+      // If we can't get any price, we can't proceed with accurate position updates
+      coinState.tradingHaltReason = 'No mark or pool TWAP price available';
+      throw new Error(`Market data retrieval failed: no ${hedge.coin} mark or TWAP price`);
     }
   }
   
+  /**
+   * Record the account's margin usage and stray positions, alerting on either
+   */
+  private checkAccountHealth(account: HyperliquidAccountSummary): void {
+    const health = this.accountMonitor.check(account);
+    this.state.hyperliquidAccount = account;
+    this.state.marginUsageLevel = health.marginUsageLevel;
+    this.state.unexpectedPositions = health.unexpectedPositions.map(position => position.coin);
+  }
+  
+  /**
+   * Every LP watcher across all coins
+   */
+  private getWatchers(): LPWatcher[] {
+    return this.hedges.flatMap(hedge => hedge.watchers);
+  }
+  
   /**
    * Log the current state of the bot with safe handling of undefined values
    */
@@ -307,34 +629,128 @@ class HoytBot {
       
       logger.info('Current Bot State:');
       logger.info(`- Status: ${state.status}`);
-      logger.info(`- PENDLE Price: ${(state.pendlePrice || 0).toFixed(4)}`);
       
-      if (state.lpPosition) {
-        logger.info(`- LP Position: ${state.lpPosition.totalValueUSD.toFixed(2)} total`);
-        logger.info(`  - ${state.lpPosition.token0Symbol || 'Token0'}: ${state.lpPosition.token0Exposure.toFixed(2)}`);
-        logger.info(`  - ${state.lpPosition.token1Symbol || 'Token1'}: ${state.lpPosition.token1Exposure.toFixed(2)}`);
-      } else {
-        logger.info('- LP Position: None');
+      for (const coinState of Object.values(state.coins)) {
+        const price = (coinState.price || 0).toFixed(4);
+        logger.info(`- ${coinState.coin} Price: ${price} (${coinState.priceSource})`);
+        if (coinState.twapPrice !== null) {
+          const twap = coinState.twapPrice.toFixed(4);
+          const divergencePct = ((coinState.priceDivergence ?? 0) * 100).toFixed(2);
+          logger.info(`  - Pool TWAP: ${twap} (${divergencePct}% from mark)`);
+        }
+        if (coinState.tradingHaltReason) {
+          logger.info(`  - Trading Halted: ${coinState.tradingHaltReason}`);
+        }
+        
+        if (coinState.lpPosition) {
+          const lp = coinState.lpPosition;
+          logger.info(`  - LP Position: ${lp.totalValueUSD.toFixed(2)} total`);
+          for (const [poolAddress, position] of Object.entries(coinState.poolPositions)) {
+            const pair = `${position.token0Symbol || 'Token0'}/${position.token1Symbol || 'Token1'}`;
+            const feesUsd = position.token0FeesExposure + position.token1FeesExposure;
+            logger.info(`    - ${pair} (${poolAddress}): ${position.totalValueUSD.toFixed(2)}`);
+            logger.info(`      - ${position.token0Symbol || 'Token0'}: ${position.token0Exposure.toFixed(2)}`);
+            logger.info(`      - ${position.token1Symbol || 'Token1'}: ${position.token1Exposure.toFixed(2)}`);
+            logger.info(`      - Uncollected Fees: ${feesUsd.toFixed(2)}`);
+          }
+          logger.info(`  - Hedged Exposure: ${lp.volatileExposure.toFixed(2)}`);
+        } else {
+          logger.info('  - LP Position: None');
+        }
+        
+        if (coinState.hedgePosition) {
+          const hedge = coinState.hedgePosition;
+          const size = `${Math.abs(hedge.sizeCoin || 0)} ${hedge.coin}`;
+          const notional = (hedge.notionalUsd || 0).toFixed(2);
+          logger.info(`  - Hedge Position: ${hedge.side || 'UNKNOWN'} ${size} (${notional} USD)`);
+          logger.info(`    - Entry Price: ${(hedge.entryPrice || 0).toFixed(4)}`);
+          const margin = (hedge.marginUsd || 0).toFixed(2);
+          logger.info(`    - Margin: ${margin} (${hedge.leverage}x ${hedge.marginMode})`);
+          logger.info(`    - PnL: ${(hedge.unrealizedPnl || 0).toFixed(2)}`);
+          logger.info(`    - Funding: ${coinState.fundingPnl.toFixed(2)}`);
+        } else {
+          logger.info('  - Hedge Position: None');
+        }
+        
+        if (coinState.funding) {
+          const { current, predicted, average, lookbackHours } = coinState.funding;
+          const pct = (rate: number) => `${(rate * 100).toFixed(4)}%`;
+          logger.info(
+            `  - Funding: ${pct(current.hourly)} hourly, ${pct(current.eightHour)} 8h, ` +
+            `${pct(current.daily)} daily, ${(current.annualized * 100).toFixed(2)}% annualized`
+          );
+          const next = predicted ? pct(predicted.hourly) : 'n/a';
+          logger.info(
+            `    - Predicted Next: ${next}, ${lookbackHours}h Average: ${pct(average.daily)} daily`
+          );
+        }
+        
+        logger.info(`  - Deviation: ${(coinState.deviation || 0).toFixed(2)}%`);
       }
       
-      if (state.hedgePosition) {
-        const size = Math.abs(state.hedgePosition.size || 0);
-        logger.info(`- Hedge Position: ${state.hedgePosition.side || 'UNKNOWN'} ${size.toFixed(2)}`);
-        logger.info(`  - Entry Price: ${(state.hedgePosition.entryPrice || 0).toFixed(4)}`);
-        logger.info(`  - Margin: ${(state.hedgePosition.marginUsd || 0).toFixed(2)}`);
-        logger.info(`  - PnL: ${(state.hedgePosition.unrealizedPnl || 0).toFixed(2)}`);
-      } else {
-        logger.info('- Hedge Position: None');
+      logger.info(`- Total LP Value: ${state.totalLpValueUSD.toFixed(2)}`);
+      logger.info(`- Total Hedged Exposure: ${state.totalHedgeExposure.toFixed(2)}`);
+      logger.info(`- Total Funding PnL: ${state.totalFundingPnl.toFixed(2)}`);
+      logger.info(`- Last Check: ${new Date(state.lastCheck || Date.now()).toISOString()}`);
+      
+      for (const endpoint of state.rpcEndpoints) {
+        const lag = endpoint.lastBlock !== null ? `, lag ${endpoint.blockLag}` : '';
+        logger.info(
+          `- RPC ${endpoint.url}: ${endpoint.status}, score ${endpoint.score}, ` +
+          `${endpoint.latencyMs.toFixed(0)}ms, ${endpoint.totalFailures} failures${lag}`
+        );
       }
       
-      logger.info(`- Deviation: ${(state.deviation || 0).toFixed(2)}%`);
-      logger.info(`- Last Check: ${new Date(state.lastCheck || Date.now()).toISOString()}`);
+      if (state.hyperliquidFeed) {
+        const feed = state.hyperliquidFeed;
+        const status = feed.live ? 'live' : feed.connected ? 'stale' : 'disconnected';
+        logger.info(`- Hyperliquid Feed: ${status}, ${feed.reconnects} reconnects`);
+      }
+      
+      if (state.hyperliquidAccount) {
+        const account = state.hyperliquidAccount;
+        logger.info(
+          `- Hyperliquid Account: ${account.accountValue.toFixed(2)} equity, ` +
+          `${account.withdrawable.toFixed(2)} withdrawable, ` +
+          `${account.totalNotionalUsd.toFixed(2)} notional in ${account.positions.length} positions`
+        );
+        logger.info(
+          `  - Margin Used: ${account.totalMarginUsed.toFixed(2)} ` +
+          `(${(account.marginUsage * 100).toFixed(2)}%, ${state.marginUsageLevel})`
+        );
+        logger.info(
+          `  - Cross: ${account.crossAccountValue.toFixed(2)} value, ` +
+          `${account.crossMaintenanceMarginUsed.toFixed(2)} maintenance ` +
+          `(${(account.crossMaintenanceUsage * 100).toFixed(2)}%)`
+        );
+        if (state.unexpectedPositions.length > 0) {
+          logger.info(`  - Unexpected Positions: ${state.unexpectedPositions.join(', ')}`);
+        }
+      }
+      
+      const budget = state.hyperliquidRateLimit;
+      logger.info(
+        `- Hyperliquid Budget: ${budget.available}/${budget.capacity} weight, ` +
+        `${budget.queuedTrading + budget.queuedInfo} queued, ` +
+        `${budget.throttledRequests} throttled (${(budget.totalWaitMs / 1000).toFixed(1)}s waited)`
+      );
+      
+      if (state.snapshot) {
+        const blockTime = new Date(state.snapshot.timestamp).toISOString();
+        logger.info(`- Snapshot Block: ${state.snapshot.blockNumber} (${blockTime})`);
+      }
       
       if (state.lastAction) {
         logger.info(`- Last Action: ${state.lastAction.action} (${state.lastAction.success ? 'Success' : 'Failed'})`);
+        if (state.lastAction.blockNumber !== undefined) {
+          logger.info(`  - Block: ${state.lastAction.blockNumber}`);
+        }
         if (state.lastAction.details) {
           logger.info(`  - Details: ${state.lastAction.details}`);
         }
+        if (state.lastAction.slippage !== null && state.lastAction.slippage !== undefined) {
+          logger.info(`  - Slippage: ${(state.lastAction.slippage * 100).toFixed(3)}%`);
+        }
         if (state.lastAction.error) {
           logger.info(`  - Error: ${state.lastAction.error}`);
         }
@@ -385,11 +801,15 @@ async function main() {
     await bot.start();
     
     logger.status('HOYT Bot running with configuration:');
-    logger.status(`- Pool: ${config.uniswapPool}`);
-    logger.status(`- Pair: ${config.pairTicker}`);
-    logger.status(`- Hedge: ${config.pendlePerpTicker}`);
-    logger.status(`- Rebalance Threshold: ${(config.rebalanceThreshold * 100).toFixed(2)}%`);
-    logger.status(`- Funding Tolerance: ${(config.fundingTolerance * 100).toFixed(2)}%`);
+    for (const pool of config.pools) {
+      const threshold = (pool.rebalanceThreshold * 100).toFixed(2);
+      logger.status(`- Pool: ${pool.address} (${pool.pairTicker})`);
+      logger.status(`  - Hedge: ${pool.perpTicker}, Rebalance Threshold: ${threshold}%`);
+    }
+    const fundingTolerance = (config.fundingTolerance * 100).toFixed(2);
+    logger.status(
+      `- Funding Tolerance: ${fundingTolerance}% daily, ${config.fundingLookbackHours}h average`
+    );
     logger.status(`- Check Interval: ${config.checkIntervalMs / 1000}s`);
     
   } catch (error) {
@@ -0,0 +1,67 @@
+import logger from '../logger';
+import { HyperliquidAccountSummary, HyperliquidPosition, MarginUsageLevel } from '../types';
+import { findUnexpectedPositions, getMarginUsageLevel } from '../utils/calculations';
+
+export interface AccountMonitorOptions {
+  marginUsageWarn: number;      // Margin used as a fraction of equity that logs a warning
+  marginUsageCritical: number;  // Margin usage that logs a critical alert
+}
+
+export interface AccountHealth {
+  marginUsageLevel: MarginUsageLevel;
+  unexpectedPositions: HyperliquidPosition[];
+}
+
+/**
+ * Watches the whole hedging account rather than the hedges alone.
+ *
+ * Margin used across every position is compared against a warning and a critical
+ * level, and positions in coins the bot does not hedge are flagged, as they draw on
+ * the same collateral the hedges rely on.
+ */
+export class AccountMonitor {
+  private hedgedCoins: string[];
+  private options: AccountMonitorOptions;
+
+  /**
+   * @param hedgedCoins Hyperliquid coin names the bot hedges with
+   */
+  constructor(hedgedCoins: string[], options: AccountMonitorOptions) {
+    this.hedgedCoins = hedgedCoins;
+    this.options = options;
+  }
+
+  /**
+   * Assess an account summary and alert on high margin usage and stray positions
+   */
+  check(account: HyperliquidAccountSummary): AccountHealth {
+    const { marginUsageWarn, marginUsageCritical } = this.options;
+    const marginUsageLevel = getMarginUsageLevel(
+      account.marginUsage,
+      marginUsageWarn,
+      marginUsageCritical
+    );
+
+    const usage = `Hyperliquid margin usage at ${(account.marginUsage * 100).toFixed(2)}% of ` +
+      `${account.accountValue.toFixed(2)} USD equity`;
+    if (marginUsageLevel === 'critical') {
+      logger.critical(
+        `${usage}, past the ${(marginUsageCritical * 100).toFixed(0)}% critical level`
+      );
+    } else if (marginUsageLevel === 'warn') {
+      logger.warn(`${usage}, past the ${(marginUsageWarn * 100).toFixed(0)}% warning level`);
+    }
+
+    const unexpectedPositions = findUnexpectedPositions(account.positions, this.hedgedCoins);
+    for (const position of unexpectedPositions) {
+      logger.warn(
+        `Unexpected ${position.side} ${Math.abs(position.sizeCoin)} ${position.coin} position ` +
+        `(${position.notionalUsd.toFixed(2)} USD) on the hedging account`
+      );
+    }
+
+    return { marginUsageLevel, unexpectedPositions };
+  }
+}
+
+export default AccountMonitor;
@@ -0,0 +1,288 @@
+import logger from '../logger';
+import {
+  ExecutionProgress,
+  HyperliquidFillEstimate,
+  HyperliquidL2Book,
+  HyperliquidOrder,
+  HyperliquidOrderResponse,
+} from '../types';
+import {
+  MIN_ORDER_NOTIONAL_USD,
+  calculateBookDepth,
+  calculateSlippage,
+  estimateFill,
+  roundSize,
+} from '../utils/hyperliquidMath';
+
+// What the scheduler needs from the exchange - implemented by HyperliquidClient
+export interface ExecutionVenue {
+  getMid(coin: string): Promise<number>;
+  getL2Book(coin: string): Promise<HyperliquidL2Book>;
+  placeOrder(order: HyperliquidOrder): Promise<HyperliquidOrderResponse>;
+}
+
+export interface ExecutionSchedulerOptions {
+  splitNotionalUsd: number;   // Orders above this are split, and no child is larger
+  childIntervalMs: number;    // Delay between child orders
+  maxBookShare: number;       // Share of the visible depth inside the band a child may take
+  slippageTolerance: number;  // Band around the arrival price; execution aborts once mid leaves it
+  maxSlices?: number;         // Child orders placed before giving up, also caps thin-book waits
+  maxDurationMs?: number;     // Time an order may take before the rest is left to the next cycle
+}
+
+export interface ScheduledOrder {
+  coin: string;
+  side: 'BUY' | 'SELL';
+  sizeCoin: number;
+  reduceOnly: boolean;
+  clientOrderKey: string;     // Child cloids are derived from it and the child's number
+  szDecimals: number;         // Size decimals of the coin, children are rounded down to them
+  // Checked before every child after the first, returns why to stop or null to go on
+  checkBeforeChild?: () => Promise<string | null>;
+}
+
+// What to do with an order whose estimated cost exceeds the slippage tolerance
+export type PreTradeDecision = 'send' | 'shrink' | 'split' | 'defer';
+
+export interface PreTradePlan {
+  decision: PreTradeDecision;
+  sizeCoin: number;           // Size to trade now, 0 when deferred
+  estimate: HyperliquidFillEstimate;
+  reason?: string;            // Why the order was not sent as is
+}
+
+/**
+ * Decide from a book snapshot how an order should go out.
+ *
+ * Orders the book absorbs within the slippage tolerance are sent as they are. Otherwise
+ * reduce-only orders are split and worked over time, as they cannot overshoot, while
+ * orders adding to the position are shrunk to the depth inside the band and the rest is
+ * left to the next cycle. An order is deferred when not even a minimum order fits.
+ */
+export function planOrder(
+  book: HyperliquidL2Book,
+  order: Pick<ScheduledOrder, 'coin' | 'side' | 'sizeCoin' | 'reduceOnly'>,
+  slippageTolerance: number
+): PreTradePlan {
+  const sizeCoin = Math.abs(order.sizeCoin);
+  const estimate = estimateFill(book, order.side, sizeCoin);
+  if (
+    estimate.fillableSizeCoin >= sizeCoin &&
+    estimate.impact !== null &&
+    estimate.impact <= slippageTolerance
+  ) {
+    return { decision: 'send', sizeCoin, estimate };
+  }
+
+  const reason = estimate.fillableSizeCoin < sizeCoin
+    ? `book holds ${estimate.fillableSizeCoin} of ${sizeCoin} ${book.coin}`
+    : `estimated impact ${((estimate.impact ?? 0) * 100).toFixed(2)}% exceeds ` +
+      `${(slippageTolerance * 100).toFixed(2)}%`;
+  const bandPrice = order.side === 'BUY'
+    ? estimate.midPrice * (1 + slippageTolerance)
+    : estimate.midPrice * (1 - slippageTolerance);
+  const withinBand = Math.min(calculateBookDepth(book, order.side, bandPrice), sizeCoin);
+
+  if (withinBand * estimate.midPrice < MIN_ORDER_NOTIONAL_USD) {
+    return { decision: 'defer', sizeCoin: 0, estimate, reason };
+  }
+  if (order.reduceOnly) {
+    return { decision: 'split', sizeCoin, estimate, reason };
+  }
+  return { decision: 'shrink', sizeCoin: withinBand, estimate, reason };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Works large hedge orders into the book as a series of smaller market orders.
+ *
+ * Orders above the split notional are sliced over time. Each child is capped by the
+ * split notional and by a share of the depth resting inside the slippage band around
+ * the arrival price, so a thin book gets smaller children. Execution stops when mid
+ * drifts out of the band against the order, when the time budget runs out or when the
+ * caller's check between children says so, and the partial result is returned.
+ */
+export class ExecutionScheduler {
+  private venue: ExecutionVenue;
+  private splitNotionalUsd: number;
+  private childIntervalMs: number;
+  private maxBookShare: number;
+  private slippageTolerance: number;
+  private maxSlices: number;
+  private maxDurationMs: number;
+
+  constructor(venue: ExecutionVenue, options: ExecutionSchedulerOptions) {
+    this.venue = venue;
+    this.splitNotionalUsd = options.splitNotionalUsd;
+    this.childIntervalMs = options.childIntervalMs;
+    this.maxBookShare = options.maxBookShare;
+    this.slippageTolerance = options.slippageTolerance;
+    this.maxSlices = options.maxSlices ?? 50;
+    this.maxDurationMs = options.maxDurationMs ?? Infinity;
+  }
+
+  /**
+   * Whether an order is large enough to be split
+   */
+  shouldSplit(sizeCoin: number, price: number): boolean {
+    return Math.abs(sizeCoin) * price > this.splitNotionalUsd;
+  }
+
+  /**
+   * Plan an order against the current book before it is sent
+   */
+  async preTradeCheck(
+    order: Pick<ScheduledOrder, 'coin' | 'side' | 'sizeCoin' | 'reduceOnly'>
+  ): Promise<PreTradePlan> {
+    const book = await this.venue.getL2Book(order.coin);
+    return planOrder(book, order, this.slippageTolerance);
+  }
+
+  /**
+   * Execute an order as child orders until it is filled, the price drifts out of the band,
+   * the check between children stops it or the slices or time run out
+   * @returns The combined fill, with slippage against the arrival price
+   */
+  async execute(order: ScheduledOrder): Promise<HyperliquidOrderResponse> {
+    const startedAt = Date.now();
+    const arrivalPrice = await this.venue.getMid(order.coin);
+    const bandPrice = order.side === 'BUY'
+      ? arrivalPrice * (1 + this.slippageTolerance)
+      : arrivalPrice * (1 - this.slippageTolerance);
+
+    const progress: ExecutionProgress = {
+      status: 'running',
+      targetSizeCoin: roundSize(Math.abs(order.sizeCoin), order.szDecimals, 'down'),
+      filledSizeCoin: 0,
+      childOrders: 0,
+      arrivalPrice,
+      avgFillPrice: null,
+      feeUsd: 0,
+    };
+    let filledNotional = 0;
+    let lastError: string | undefined;
+    let thinBookWaits = 0;
+
+    for (let round = 0; progress.childOrders < this.maxSlices; round++) {
+      const remaining = roundSize(
+        progress.targetSizeCoin - progress.filledSizeCoin,
+        order.szDecimals,
+        'down'
+      );
+      if (round > 0) {
+        await sleep(this.childIntervalMs);
+
+        if (Date.now() - startedAt >= this.maxDurationMs) {
+          progress.status = 'aborted';
+          progress.abortReason = `ran out of time after ${this.maxDurationMs}ms`;
+          break;
+        }
+        const stopReason = await order.checkBeforeChild?.();
+        if (stopReason) {
+          progress.status = 'aborted';
+          progress.abortReason = stopReason;
+          break;
+        }
+      }
+
+      const mid = await this.venue.getMid(order.coin);
+      if (remaining * mid < MIN_ORDER_NOTIONAL_USD) {
+        break;
+      }
+
+      const drift = calculateSlippage(order.side, arrivalPrice, mid);
+      if (drift > this.slippageTolerance) {
+        progress.status = 'aborted';
+        progress.abortReason =
+          `${order.coin} moved ${(drift * 100).toFixed(2)}% against the order since arrival`;
+        break;
+      }
+
+      const book = await this.venue.getL2Book(order.coin);
+      const depth = calculateBookDepth(book, order.side, bandPrice);
+      const childSize = roundSize(
+        Math.min(remaining, this.splitNotionalUsd / mid, depth * this.maxBookShare),
+        order.szDecimals,
+        'down'
+      );
+      if (childSize * mid < MIN_ORDER_NOTIONAL_USD) {
+        if (++thinBookWaits >= this.maxSlices) {
+          progress.status = 'aborted';
+          progress.abortReason = `book stayed too thin for ${thinBookWaits} rounds`;
+          break;
+        }
+        logger.info(`Book too thin for a ${order.coin} child (${depth} within band), waiting`);
+        continue;
+      }
+
+      const response = await this.venue.placeOrder({
+        coin: order.coin,
+        side: order.side,
+        sizeCoin: childSize,
+        price: null, // Market order
+        orderType: 'MARKET',
+        reduceOnly: order.reduceOnly,
+        // Numbered by placed children only, so a restart finds them without gaps
+        clientOrderKey: `${order.clientOrderKey}:slice${progress.childOrders}`,
+      });
+      progress.childOrders++;
+
+      if (response.status === 'error') {
+        lastError = response.error;
+        progress.status = 'aborted';
+        progress.abortReason = `child order failed: ${response.error}`;
+        break;
+      }
+
+      const filled = response.filledSizeCoin ?? 0;
+      progress.filledSizeCoin = roundSize(progress.filledSizeCoin + filled, order.szDecimals);
+      progress.feeUsd += response.feeUsd ?? 0;
+      filledNotional += filled * (response.avgFillPrice ?? mid);
+      progress.avgFillPrice = progress.filledSizeCoin > 0
+        ? filledNotional / progress.filledSizeCoin
+        : null;
+
+      logger.info(
+        `Child ${progress.childOrders} filled ${filled} ${order.coin}, ` +
+        `${progress.filledSizeCoin}/${progress.targetSizeCoin} done`
+      );
+    }
+
+    const remainingSizeCoin = Math.max(progress.targetSizeCoin - progress.filledSizeCoin, 0);
+    if (progress.status === 'running') {
+      progress.status = remainingSizeCoin * arrivalPrice < MIN_ORDER_NOTIONAL_USD
+        ? 'completed'
+        : 'aborted';
+      if (progress.status === 'aborted') {
+        progress.abortReason = `ran out of slices after ${this.maxSlices}`;
+      }
+    }
+
+    if (progress.filledSizeCoin === 0 || progress.avgFillPrice === null) {
+      return {
+        status: 'error',
+        error: lastError ?? `Scheduled ${order.coin} order was not filled: ${progress.abortReason}`,
+        referencePrice: arrivalPrice,
+        filledSizeCoin: 0,
+        remainingSizeCoin,
+        execution: progress,
+      };
+    }
+
+    return {
+      status: 'success',
+      filledSizeCoin: progress.filledSizeCoin,
+      remainingSizeCoin: progress.status === 'completed' ? 0 : remainingSizeCoin,
+      avgFillPrice: progress.avgFillPrice,
+      referencePrice: arrivalPrice,
+      slippage: calculateSlippage(order.side, arrivalPrice, progress.avgFillPrice),
+      feeUsd: progress.feeUsd,
+      execution: progress,
+    };
+  }
+}
+
+export default ExecutionScheduler;
@@ -2,66 +2,290 @@
 /* eslint-disable no-case-declarations */
 import config from '../config';
 import logger from '../logger';
-import { LPPosition, HyperliquidPosition, HedgingAction, ExecutionResult, HyperliquidMarketData } from '../types';
-import { determineHedgeAction, calculateDeviation, isFundingRateAcceptable } from '../utils/calculations';
-import { HyperliquidClient } from './hyperliquidClient';
+import { LPPosition, HyperliquidPosition, HedgingAction, ExecutionResult, HyperliquidMarketData, HyperliquidOrderResponse, HyperliquidFundingPayment, HyperliquidFundingOutlook, HedgeIntent, HyperliquidAccountSummary } from '../types';
+import { determineHedgeAction, calculateDeviation, calculateRequiredHedgeSize, isFundingRateAcceptable, applyPendingOrders, calculatePositionFundingPnl, calculateAverageFundingRate } from '../utils/calculations';
+import {
+  MIN_MARGIN_ADJUSTMENT_USD,
+  MIN_ORDER_NOTIONAL_USD,
+  calculateMarginAdjustment,
+  roundSize,
+  toFundingRate,
+  usdToCoinSize,
+} from '../utils/hyperliquidMath';
+import { ExecutionScheduler, PreTradePlan } from './executionScheduler';
+import { HyperliquidClient, createHyperliquidRateLimiter, toHyperliquidCoin } from './hyperliquidClient';
+import { HyperliquidFeed } from './hyperliquidFeed';
+import { IntentStore, toIntentKey } from './intentStore';
+import { LiquidationGuard } from './liquidationGuard';
+import { RateLimiter } from './rateLimiter';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How far back funding payments are fetched and kept
+const FUNDING_HISTORY_WINDOW_MS = 30 * 24 * HOUR_MS;
 
 /**
  * Controller for managing hedge positions
  */
 export class HedgeController {
   private hyperliquidClient: HyperliquidClient;
-  private pendlePerpTicker: string;
+  private perpTicker: string;
+  private rebalanceThreshold: number;
+  private feed: HyperliquidFeed | null;
+  private liquidationGuard: LiquidationGuard;
+  private executionScheduler: ExecutionScheduler;
+  // Whether leverage and margin mode were set this session, for when there is no position to check
+  private leverageConfigured = false;
+  // Last position read over HTTP and the feed's fill count for the coin at that time
+  private cachedPosition: { position: HyperliquidPosition | null; fillSequence: number } | null = null;
+  // Funding payments for the coin within the history window, oldest first
+  private fundingPayments: HyperliquidFundingPayment[] = [];
+  // Hedge target orders are placed for, kept on disk across restarts
+  private intentStore: IntentStore;
+  // Withdrawable balance of the cycle's account read, margin top-ups draw on it
+  private cycleWithdrawable: number | null = null;
   
-  constructor() {
-    this.hyperliquidClient = new HyperliquidClient();
-    this.pendlePerpTicker = config.pendlePerpTicker;
+  /**
+   * @param perpTicker Perp coin this controller hedges
+   * @param rebalanceThreshold Deviation (as a fraction) that triggers a rebalance
+   * @param feed WebSocket feed to read market data and fills from - share one across controllers
+   * @param rateLimiter Hyperliquid request weight budget - share one across controllers
+   * @param intentStore Where hedge intents are kept - share one across controllers
+   */
+  constructor(
+    perpTicker: string = config.pools[0].perpTicker,
+    rebalanceThreshold: number = config.pools[0].rebalanceThreshold,
+    feed: HyperliquidFeed | null = null,
+    rateLimiter: RateLimiter = createHyperliquidRateLimiter(),
+    intentStore: IntentStore = new IntentStore(config.hedgeIntentFile),
+  ) {
+    this.feed = feed;
+    this.intentStore = intentStore;
+    this.hyperliquidClient = new HyperliquidClient(feed, rateLimiter);
+    const coin = toHyperliquidCoin(perpTicker);
+    this.liquidationGuard = new LiquidationGuard(this.hyperliquidClient, {
+      warnDistance: config.liquidationWarnDistance,
+      topUpDistance: config.liquidationTopUpDistance,
+      trimDistance: config.liquidationTrimDistance,
+      trimFraction: config.liquidationTrimFraction,
+      trimCooldownMs: config.liquidationTrimCooldownMs,
+    }, {
+      load: () => intentStore.getLastTrimAt(coin),
+      save: trimmedAt => intentStore.saveLastTrimAt(coin, trimmedAt),
+    });
+    this.executionScheduler = new ExecutionScheduler(this.hyperliquidClient, {
+      splitNotionalUsd: config.executionSplitNotionalUsd,
+      childIntervalMs: config.executionChildIntervalMs,
+      maxBookShare: config.executionBookShare,
+      slippageTolerance: config.slippageTolerance,
+      maxDurationMs: config.executionMaxDurationMs,
+      maxSlices: config.executionMaxSlices,
+    });
+    this.perpTicker = perpTicker;
+    this.rebalanceThreshold = rebalanceThreshold;
+  }
+  
+  /**
+   * The perp coin this controller hedges
+   */
+  getCoin(): string {
+    return this.perpTicker;
   }
   
   /**
    * Get current market data including price and funding
    */
   async getMarketData(): Promise<HyperliquidMarketData> {
+    const streamed = this.feed?.getMarketData(toHyperliquidCoin(this.perpTicker));
+    if (streamed) {
+      return { ...streamed, coin: this.perpTicker };
+    }
+    
     try {
-      return await this.hyperliquidClient.getMarketData(this.pendlePerpTicker);
+      return await this.hyperliquidClient.getMarketData(this.perpTicker);
     } catch (error) {
       logger.error(`Failed to get market data: ${error}`);
       // Return default data for fallback
       return {
-        coin: this.pendlePerpTicker,
+        coin: this.perpTicker,
         price: 0,
-        fundingRate: 0,
+        funding: toFundingRate(0),
       };
     }
   }
   
+  /**
+   * Start the cycle's position reads from the account read at its start, or from the
+   * exchange when that read failed. The cache only follows fills and the mark: liquidation
+   * price and margin also move with funding and other cross positions, and the guard and
+   * margin rebalance need them current.
+   */
+  startCycle(account: HyperliquidAccountSummary | null): void {
+    this.cycleWithdrawable = account?.withdrawable ?? null;
+    if (!account) {
+      this.cachedPosition = null;
+      return;
+    }
+    
+    const coin = toHyperliquidCoin(this.perpTicker);
+    this.cachedPosition = {
+      position: account.positions.find(position => position.coin === coin) ?? null,
+      fillSequence: this.feed?.getFillSequence(coin) ?? 0,
+    };
+  }
+  
   /**
    * Get current hedge position
+   * The last position read is reused until a fill or a trade of this controller changes it,
+   * re-marked at the streamed mark price while the feed is live. The cache is replaced at the
+   * start of every cycle.
    */
   async getHedgePosition(): Promise<HyperliquidPosition | null> {
+    const coin = toHyperliquidCoin(this.perpTicker);
+    const fillSequence = this.feed?.getFillSequence(coin) ?? 0;
+    
+    if (this.cachedPosition?.fillSequence === fillSequence) {
+      const position = this.cachedPosition.position;
+      const market = this.feed?.isLive() ? this.feed.getMarketData(coin) : null;
+      if (!position || !market) {
+        return position;
+      }
+      return {
+        ...position,
+        markPrice: market.price,
+        notionalUsd: Math.abs(position.sizeCoin) * market.price,
+        unrealizedPnl: position.sizeCoin * (market.price - position.entryPrice),
+      };
+    }
+    
     try {
-      return await this.hyperliquidClient.getPosition(this.pendlePerpTicker);
+      const position = await this.hyperliquidClient.getPosition(this.perpTicker);
+      this.cachedPosition = { position, fillSequence };
+      return position;
     } catch (error) {
       logger.error(`Failed to get hedge position: ${error}`);
       return null;
     }
   }
   
+  /**
+   * Make sure the coin trades at the configured leverage and margin mode
+   * @param position Current position, compared against the configuration to skip needless updates
+   * @returns false when the exchange refused the update
+   */
+  async ensureLeverage(position: HyperliquidPosition | null = null): Promise<boolean> {
+    const matches = position
+      ? position.leverage === config.hedgeLeverage && position.marginMode === config.hedgeMarginMode
+      : this.leverageConfigured;
+    if (matches) {
+      return true;
+    }
+    
+    try {
+      await this.hyperliquidClient.updateLeverage(
+        this.perpTicker,
+        config.hedgeLeverage,
+        config.hedgeMarginMode,
+      );
+      this.leverageConfigured = true;
+      this.cachedPosition = null;
+      return true;
+    } catch (error) {
+      logger.error(`Failed to set ${config.hedgeLeverage}x ${config.hedgeMarginMode} leverage for ${this.perpTicker}: ${error}`);
+      return false;
+    }
+  }
+  
+  /**
+   * Add or remove isolated margin so the position's effective leverage stays inside the band
+   */
+  async rebalanceMargin(position: HyperliquidPosition | null): Promise<void> {
+    if (!position || position.marginMode !== 'isolated' || position.sizeCoin === 0) {
+      return;
+    }
+    
+    const adjustment = calculateMarginAdjustment(
+      position.notionalUsd,
+      position.marginUsd,
+      config.hedgeLeverage,
+      config.hedgeLeverageMin,
+      config.hedgeLeverageMax,
+    );
+    if (Math.abs(adjustment) < MIN_MARGIN_ADJUSTMENT_USD) {
+      return;
+    }
+    
+    const leverage = position.notionalUsd / position.marginUsd;
+    logger.info(`${this.perpTicker} effective leverage ${leverage.toFixed(2)}x is outside ${config.hedgeLeverageMin}x-${config.hedgeLeverageMax}x, moving margin back to ${config.hedgeLeverage}x`);
+    
+    try {
+      await this.hyperliquidClient.updateIsolatedMargin(this.perpTicker, adjustment);
+      this.cachedPosition = null;
+    } catch (error) {
+      logger.error(`Failed to adjust isolated margin for ${this.perpTicker}: ${error}`);
+    }
+  }
+  
+  /**
+   * Check how close the hedge is to liquidation and warn, top up margin or trim it
+   * @param cycleId Check cycle, orders placed for it get client order IDs derived from it
+   * @returns The guard's action, null while the hedge is safe
+   */
+  async checkLiquidationRisk(cycleId: string = Date.now().toString()): Promise<ExecutionResult | null> {
+    const position = await this.getHedgePosition();
+    const result = await this.liquidationGuard.check(position, cycleId, this.cycleWithdrawable);
+    
+    if (result && result.action !== HedgingAction.LIQUIDATION_WARNING) {
+      this.cachedPosition = null;
+      // A top-up spent part of it, the next cycle reads it again
+      this.cycleWithdrawable = null;
+    }
+    return result;
+  }
+  
+  /**
+   * Current, predicted and lookback average funding of the hedged coin.
+   * The average covers the realized hourly rates of the lookback window and the predicted next rate.
+   */
+  async getFundingOutlook(): Promise<HyperliquidFundingOutlook> {
+    const lookbackHours = config.fundingLookbackHours;
+    const marketData = await this.getMarketData();
+    const history = await this.hyperliquidClient.getFundingRateHistory(
+      this.perpTicker,
+      Date.now() - lookbackHours * HOUR_MS,
+    );
+    const predicted = await this.hyperliquidClient.getPredictedFundingRate(this.perpTicker);
+    
+    const rates = history.map(entry => entry.fundingRate);
+    if (predicted !== null) {
+      rates.push(predicted);
+    }
+    
+    return {
+      current: marketData.funding,
+      predicted: predicted !== null ? toFundingRate(predicted) : null,
+      average: toFundingRate(calculateAverageFundingRate(rates)),
+      lookbackHours,
+    };
+  }
+  
   /**
    * Check if it's economical to maintain the hedge position
-   * based on funding rates
+   * based on the short's average funding over the lookback window
    */
   async checkFundingRate(): Promise<boolean> {
     try {
-      const marketData = await this.getMarketData();
+      const outlook = await this.getFundingOutlook();
+      const dailyRate = outlook.average.daily;
       const isFundingAcceptable = isFundingRateAcceptable(
-        marketData.fundingRate, 
+        dailyRate, 
         config.fundingTolerance,
+        'SHORT',
       );
       
       if (!isFundingAcceptable) {
         logger.warn(
-          `Funding rate (${marketData.fundingRate.toFixed(4)}%) exceeds tolerance (${(config.fundingTolerance * 100).toFixed(2)}%)`,
+          `Short pays ${(-dailyRate * 100).toFixed(4)}% daily funding over ${outlook.lookbackHours}h, above tolerance (${(config.fundingTolerance * 100).toFixed(2)}%)`,
         );
       }
       
@@ -72,42 +296,358 @@ export class HedgeController {
     }
   }
   
+  /**
+   * Funding accrued by the current hedge position since it was opened, in USD.
+   * Positive when the short has been paid funding.
+   */
+  async getFundingPnl(position: HyperliquidPosition | null): Promise<number> {
+    const coin = toHyperliquidCoin(this.perpTicker);
+    const now = Date.now();
+    const last = this.fundingPayments[this.fundingPayments.length - 1];
+    const startTime = last ? last.time + 1 : now - FUNDING_HISTORY_WINDOW_MS;
+    
+    const payments = await this.hyperliquidClient.getFundingHistory(startTime, now);
+    this.fundingPayments.push(...payments.filter(payment => payment.coin === coin));
+    this.fundingPayments = this.fundingPayments.filter(
+      payment => payment.time >= now - FUNDING_HISTORY_WINDOW_MS,
+    );
+    
+    return calculatePositionFundingPnl(this.fundingPayments, position?.sizeCoin ?? 0);
+  }
+  
+  /**
+   * Pick up orders placed before a restart so they are not placed again: open orders, and
+   * those of an order whose outcome the last run never saw
+   * @returns Number of orders reconciled
+   */
+  async reconcileOpenOrders(): Promise<number> {
+    const intent = this.intentStore.get(toHyperliquidCoin(this.perpTicker));
+    const pendingKeys = intent?.pendingOrderKey ? [intent.pendingOrderKey] : [];
+    const orders = await this.hyperliquidClient.reconcileOpenOrders(this.perpTicker, pendingKeys);
+    
+    if (orders.length > 0) {
+      const cloids = orders.map(order => order.cloid).join(', ');
+      logger.info(`Reconciled ${orders.length} ${this.perpTicker} order(s) from before the restart: ${cloids}`);
+    }
+    if (intent?.pendingOrderKey) {
+      // An order that reached the exchange used up its key, one that never did can reuse it
+      this.intentStore.save({
+        ...intent,
+        settledOrders: intent.settledOrders + (orders.length > 0 ? 1 : 0),
+        pendingOrderKey: null,
+      });
+    }
+    return orders.length;
+  }
+  
+  /**
+   * Intent the orders for a hedge target are placed under. A target keeps the intent it was
+   * first seen with, so orders for it get the same client order keys after a restart.
+   * @param snapshotId LP snapshot block the target was computed at
+   */
+  private resolveIntent(targetSizeCoin: number, snapshotId: string): HedgeIntent {
+    const coin = toHyperliquidCoin(this.perpTicker);
+    const intent = this.intentStore.get(coin);
+    if (intent?.targetSizeCoin === targetSizeCoin) {
+      return intent;
+    }
+    
+    const created = { coin, targetSizeCoin, snapshotId, settledOrders: 0, pendingOrderKey: null };
+    this.intentStore.save(created);
+    return created;
+  }
+  
+  /**
+   * Place an order under an intent. Its key is saved as pending until the outcome is known,
+   * so a restart in between looks the order up by cloid instead of placing it again.
+   */
+  private async placeForIntent(
+    intent: HedgeIntent,
+    suffix: string,
+    place: (clientOrderKey: string) => Promise<HyperliquidOrderResponse>,
+  ): Promise<HyperliquidOrderResponse> {
+    const clientOrderKey = `${toIntentKey(intent)}:${intent.settledOrders}:${suffix}`;
+    this.intentStore.save({ ...intent, pendingOrderKey: clientOrderKey });
+    
+    const response = await place(clientOrderKey);
+    this.cachedPosition = null;
+    this.intentStore.save({ ...intent, settledOrders: intent.settledOrders + 1, pendingOrderKey: null });
+    return response;
+  }
+  
+  /**
+   * Unfilled size of orders still in flight from earlier cycles, signed like a position
+   */
+  private async getPendingSizeCoin(): Promise<number> {
+    const tracker = this.hyperliquidClient.getOrderTracker();
+    const coin = toHyperliquidCoin(this.perpTicker);
+    
+    try {
+      await tracker.refresh();
+    } catch (error) {
+      logger.warn(`Failed to refresh in-flight orders: ${error}`);
+    }
+    
+    const pending = tracker.getPendingSizeCoin(coin);
+    if (pending !== 0) {
+      logger.info(`${tracker.getInFlight(coin).length} order(s) in flight for ${coin}, ${pending} ${coin} unfilled`);
+    }
+    return pending;
+  }
+  
+  /**
+   * Fill fields of an order response to record on the execution result
+   */
+  private getFillResult(
+    response: HyperliquidOrderResponse,
+  ): Pick<ExecutionResult, 'slippage' | 'filledSizeCoin' | 'feeUsd' | 'referencePrice' | 'avgFillPrice' | 'remainingSizeCoin' | 'execution'> {
+    return {
+      slippage: response.slippage ?? null,
+      filledSizeCoin: response.filledSizeCoin,
+      feeUsd: response.feeUsd,
+      referencePrice: response.referencePrice,
+      avgFillPrice: response.avgFillPrice,
+      remainingSizeCoin: response.remainingSizeCoin,
+      execution: response.execution,
+    };
+  }
+  
+  /**
+   * Describe slippage and any unfilled remainder of an order response
+   */
+  private describeFill(response: HyperliquidOrderResponse): string {
+    let description = '';
+    if (response.slippage !== undefined) {
+      description += `, slippage ${(response.slippage * 100).toFixed(3)}%`;
+    }
+    if (response.remainingSizeCoin) {
+      description += `, ${response.remainingSizeCoin} left unfilled`;
+    }
+    if (response.execution) {
+      description += ` over ${response.execution.childOrders} child orders`;
+      if (response.execution.abortReason) {
+        description += ` (stopped: ${response.execution.abortReason})`;
+      }
+    }
+    return description;
+  }
+  
+  /**
+   * Estimate a hedge order's cost against the book and plan it, with a shrunk size on the
+   * asset's size grid. Null when the book could not be read, the order then goes out as is.
+   */
+  private async checkBook(
+    side: 'BUY' | 'SELL',
+    sizeCoin: number,
+    szDecimals: number,
+  ): Promise<PreTradePlan | null> {
+    try {
+      const plan = await this.executionScheduler.preTradeCheck({
+        coin: this.perpTicker,
+        side,
+        sizeCoin,
+        reduceOnly: side === 'BUY',
+      });
+      if (plan.decision !== 'shrink') {
+        return plan;
+      }
+      
+      const shrunk = roundSize(plan.sizeCoin, szDecimals, 'down');
+      return shrunk * plan.estimate.midPrice < MIN_ORDER_NOTIONAL_USD
+        ? { ...plan, decision: 'defer', sizeCoin: 0 }
+        : { ...plan, sizeCoin: shrunk };
+    } catch (error) {
+      logger.warn(`Could not check the ${this.perpTicker} book before trading: ${(error as Error).message}`);
+      return null;
+    }
+  }
+  
+  /**
+   * Re-read the hedge between child orders of a split increase
+   * @returns Why the increase has to stop, null while the guard still allows it
+   */
+  private async checkIncreaseAllowed(): Promise<string | null> {
+    this.cachedPosition = null;
+    const position = await this.getHedgePosition();
+    if (this.liquidationGuard.getTrimCooldownRemaining() > 0) {
+      return 'hedge was trimmed';
+    }
+    return this.liquidationGuard.allowsIncrease(position) ? null : 'hedge is too close to liquidation';
+  }
+  
+  /**
+   * Send a hedge order, split into child orders over time when it is large for the book
+   * @param split Split even below the split notional, when the book cannot take the order at once
+   */
+  private async executeOrder(
+    side: 'BUY' | 'SELL',
+    sizeCoin: number,
+    price: number,
+    szDecimals: number,
+    clientOrderKey: string,
+    split = false,
+  ): Promise<HyperliquidOrderResponse> {
+    if (split || this.executionScheduler.shouldSplit(sizeCoin, price)) {
+      logger.info(`Splitting ${sizeCoin} ${this.perpTicker} into child orders of at most ${config.executionSplitNotionalUsd} USD`);
+      return this.executionScheduler.execute({
+        coin: this.perpTicker,
+        side,
+        sizeCoin,
+        reduceOnly: side === 'BUY',
+        clientOrderKey,
+        szDecimals,
+        // Children keep selling only while the guard would still allow the increase
+        checkBeforeChild: side === 'SELL' ? () => this.checkIncreaseAllowed() : undefined,
+      });
+    }
+    
+    return side === 'SELL'
+      ? this.hyperliquidClient.openShortPosition(this.perpTicker, sizeCoin, clientOrderKey)
+      : this.hyperliquidClient.reduceShortPosition(this.perpTicker, sizeCoin, clientOrderKey);
+  }
+  
+  /**
+   * Check an increase or decrease against the book, then place it.
+   * Orders the book cannot take are shrunk or split, or deferred to a later cycle.
+   */
+  private async sendHedgeOrder(
+    action: HedgingAction.INCREASE_SHORT | HedgingAction.DECREASE_SHORT,
+    sizeCoin: number,
+    szDecimals: number,
+    currentPrice: number,
+    intent: HedgeIntent,
+  ): Promise<ExecutionResult> {
+    const increase = action === HedgingAction.INCREASE_SHORT;
+    const side = increase ? 'SELL' : 'BUY';
+    const describeSize = (size: number) => `${size} ${toHyperliquidCoin(this.perpTicker)} (${(size * currentPrice).toFixed(2)} USD)`;
+    let sizeDescription = describeSize(sizeCoin);
+    
+    const plan = await this.checkBook(side, sizeCoin, szDecimals);
+    if (plan?.decision === 'defer') {
+      logger.warn(`Deferring hedge change of ${sizeDescription}: ${plan.reason}`);
+      return {
+        success: true,
+        action,
+        deferReason: plan.reason,
+        details: `Deferred hedge change of ${sizeDescription}: ${plan.reason}. Retrying next cycle.`,
+        timestamp: Date.now(),
+        slippage: null,
+      };
+    }
+    if (plan?.decision === 'shrink') {
+      logger.warn(`Shrinking hedge change of ${sizeDescription} to ${plan.sizeCoin}: ${plan.reason}`);
+      sizeCoin = plan.sizeCoin;
+      sizeDescription = describeSize(sizeCoin);
+    }
+    const split = plan?.decision === 'split';
+    if (split) {
+      logger.warn(`Splitting hedge change of ${sizeDescription} over time: ${plan?.reason}`);
+    }
+    
+    logger.trade(`${increase ? 'Increasing' : 'Decreasing'} short position by ${sizeDescription}`);
+    const response = await this.placeForIntent(
+      intent,
+      increase ? 'increase' : 'decrease',
+      clientOrderKey => this.executeOrder(side, sizeCoin, currentPrice, szDecimals, clientOrderKey, split),
+    );
+    
+    if (response.status !== 'success') {
+      return {
+        success: false,
+        action,
+        error: response.error || `Unknown error ${increase ? 'increasing' : 'decreasing'} short position`,
+        timestamp: Date.now(),
+        ...this.getFillResult(response),
+      };
+    }
+    return {
+      // A partial fill is not a full rebalance - the next cycle picks up the rest
+      success: !response.remainingSizeCoin,
+      action,
+      details: `${increase ? 'Increased' : 'Decreased'} short position by ${sizeDescription}${this.describeFill(response)}`,
+      timestamp: Date.now(),
+      ...this.getFillResult(response),
+    };
+  }
+  
   /**
    * Update hedge position based on current LP position
+   * @param snapshotId LP snapshot block of the cycle, client order IDs derive from the
+   *   hedge target and the snapshot it was first computed at
    */
   async updateHedgePosition(
     lpPosition: LPPosition,
+    snapshotId: string = Date.now().toString(),
   ): Promise<ExecutionResult> {
     try {
+      // An order whose outcome was never seen is looked up before trading again
+      if (this.intentStore.get(toHyperliquidCoin(this.perpTicker))?.pendingOrderKey) {
+        await this.reconcileOpenOrders();
+      }
+      
       // Get current hedge position and market data
-      const [hedgePosition, marketData] = await Promise.all([
+      const [openPosition, marketData] = await Promise.all([
         this.getHedgePosition(),
         this.getMarketData(),
       ]);
       
       const currentPrice = marketData.price;
+      await this.rebalanceMargin(openPosition);
+      
+      const hedgePosition = applyPendingOrders(
+        openPosition,
+        await this.getPendingSizeCoin(),
+        currentPrice,
+        toHyperliquidCoin(this.perpTicker),
+      );
       
       // Determine what action to take
       const { action, sizeChange } = determineHedgeAction(
         lpPosition,
         hedgePosition,
-        config.rebalanceThreshold,
+        this.rebalanceThreshold,
         currentPrice,
       );
       
       // Calculate current deviation
-      const lpExposure = lpPosition.token0Exposure;
-      const hedgeSize = hedgePosition ? Math.abs(hedgePosition.size) : 0;
+      const lpExposure = lpPosition.volatileExposure;
+      const hedgeSize = hedgePosition?.notionalUsd ?? 0;
       const deviation = calculateDeviation(lpExposure, hedgeSize);
       
       logger.info('Current position status:', {
         lpExposure: lpExposure.toFixed(2),
         hedgeSize: hedgeSize.toFixed(2),
         deviation: `${deviation.toFixed(2)}%`,
-        rebalanceThreshold: `${(config.rebalanceThreshold * 100).toFixed(2)}%`,
+        rebalanceThreshold: `${(this.rebalanceThreshold * 100).toFixed(2)}%`,
         action,
       });
       
+      // Hedge sizing is done in USD, orders are placed in coins on the asset's size grid
+      let sizeCoin = 0;
+      let szDecimals = 0;
+      let targetSizeCoin = 0;
+      if (action !== HedgingAction.NO_ACTION) {
+        const asset = await this.hyperliquidClient.getAssetMeta(this.perpTicker);
+        szDecimals = asset.szDecimals;
+        if (action !== HedgingAction.CLOSE_POSITIONS) {
+          targetSizeCoin = usdToCoinSize(calculateRequiredHedgeSize(lpPosition), currentPrice, szDecimals);
+        }
+      }
+      if (action === HedgingAction.INCREASE_SHORT || action === HedgingAction.DECREASE_SHORT) {
+        sizeCoin = usdToCoinSize(sizeChange, currentPrice, szDecimals);
+        
+        if (sizeCoin * currentPrice < MIN_ORDER_NOTIONAL_USD) {
+          logger.info(`Hedge change of ${sizeChange.toFixed(2)} USD is below the ${MIN_ORDER_NOTIONAL_USD} USD minimum order size, skipping`);
+          return {
+            success: true,
+            action: HedgingAction.NO_ACTION,
+            details: `Hedge change of ${sizeChange.toFixed(2)} USD is below the minimum order size.`,
+            timestamp: Date.now(),
+            slippage: null,
+          };
+        }
+      }
+      
       // Execute the appropriate action
       switch (action) {
         case HedgingAction.NO_ACTION:
@@ -116,6 +656,7 @@ export class HedgeController {
             action,
             details: 'No rebalance needed.',
             timestamp: Date.now(),
+            slippage: null,
           };
           
         case HedgingAction.INCREASE_SHORT:
@@ -128,69 +669,66 @@ export class HedgeController {
               action,
               details: 'Funding rate exceeds tolerance. Skipping hedge increase.',
               timestamp: Date.now(),
+              slippage: null,
             };
           }
           
-          logger.trade(`Increasing short position by ${sizeChange.toFixed(2)} USD`);
-          
-          const increaseResult = await this.hyperliquidClient.openShortPosition(
-            this.pendlePerpTicker,
-            sizeChange,
-          );
-          
-          if (increaseResult.status === 'success') {
+          // Selling the trimmed size straight back would walk the hedge into liquidation again
+          const cooldownMs = this.liquidationGuard.getTrimCooldownRemaining();
+          if (cooldownMs > 0) {
+            const reason = `hedge was trimmed, increases resume in ${Math.ceil(cooldownMs / 60000)} min`;
+            logger.info(`Holding back hedge increase: ${reason}`);
             return {
               success: true,
               action,
-              details: `Increased short position by ${sizeChange.toFixed(2)} USD`,
+              deferReason: reason,
+              details: `Hedge increase held back: ${reason}.`,
               timestamp: Date.now(),
+              slippage: null,
             };
-          } else {
+          }
+          
+          if (!this.liquidationGuard.allowsIncrease(openPosition)) {
             return {
               success: false,
               action,
-              error: increaseResult.error || 'Unknown error increasing short position',
+              error: 'Hedge is too close to liquidation. Skipping hedge increase.',
               timestamp: Date.now(),
+              slippage: null,
             };
           }
           
-        case HedgingAction.DECREASE_SHORT:
-          logger.trade(`Decreasing short position by ${sizeChange.toFixed(2)} USD`);
-          
-          const decreaseResult = await this.hyperliquidClient.reduceShortPosition(
-            this.pendlePerpTicker,
-            sizeChange,
-          );
-          
-          if (decreaseResult.status === 'success') {
-            return {
-              success: true,
-              action,
-              details: `Decreased short position by ${sizeChange.toFixed(2)} USD`,
-              timestamp: Date.now(),
-            };
-          } else {
+          if (!await this.ensureLeverage(openPosition)) {
             return {
               success: false,
               action,
-              error: decreaseResult.error || 'Unknown error decreasing short position',
+              error: `Could not set ${config.hedgeLeverage}x ${config.hedgeMarginMode} leverage. Skipping hedge increase.`,
               timestamp: Date.now(),
+              slippage: null,
             };
           }
           
+          return this.sendHedgeOrder(action, sizeCoin, szDecimals, currentPrice, this.resolveIntent(targetSizeCoin, snapshotId));
+          
+        case HedgingAction.DECREASE_SHORT:
+          return this.sendHedgeOrder(action, sizeCoin, szDecimals, currentPrice, this.resolveIntent(targetSizeCoin, snapshotId));
+          
         case HedgingAction.CLOSE_POSITIONS:
-          logger.trade(`Closing all positions for ${this.pendlePerpTicker}`);
+          logger.trade(`Closing all positions for ${this.perpTicker}`);
           
-          const closeResult = await this.hyperliquidClient.closePosition(
-            this.pendlePerpTicker,
+          const closeResult = await this.placeForIntent(
+            this.resolveIntent(targetSizeCoin, snapshotId),
+            'close',
+            clientOrderKey => this.hyperliquidClient.closePosition(this.perpTicker, clientOrderKey),
           );
           
           if (closeResult.status === 'success') {
             return {
-              success: true,
+              success: !closeResult.remainingSizeCoin,
               action,
-              details: `Closed all positions for ${this.pendlePerpTicker}`,
+              details: `Closed all positions for ${this.perpTicker}${this.describeFill(closeResult)}`,
               timestamp: Date.now(),
+              ...this.getFillResult(closeResult),
             };
           } else {
             return {
@@ -198,8 +736,19 @@ export class HedgeController {
               action,
               error: closeResult.error || 'Unknown error closing positions',
               timestamp: Date.now(),
+              ...this.getFillResult(closeResult),
             };
           }
+          
+        default:
+          // Guard actions come from the liquidation guard, never from the rebalance decision
+          return {
+            success: false,
+            action,
+            error: `Unexpected hedge action: ${action}`,
+            timestamp: Date.now(),
+            slippage: null,
+          };
       }
     } catch (error) {
       logger.error(`Failed to update hedge position: ${error}`);
@@ -209,6 +758,7 @@ export class HedgeController {
         action: HedgingAction.NO_ACTION,
         error: (error as Error).message,
         timestamp: Date.now(),
+        slippage: null,
       };
     }
   }
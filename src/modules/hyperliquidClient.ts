@@ -1,88 +1,424 @@
 /* eslint-disable max-len */
-/* eslint-disable @typescript-eslint/no-explicit-any */
-import { createHmac } from 'crypto';
+import { privateKeyToAccount } from 'viem/accounts';
 import config from '../config';
 import logger from '../logger';
-import { HyperliquidPosition, HyperliquidOrder, HyperliquidOrderResponse, HyperliquidMarketData } from '../types';
+import {
+  HyperliquidPosition,
+  HyperliquidOrder,
+  HyperliquidOrderResponse,
+  HyperliquidMarketData,
+  HyperliquidAssetMeta,
+  HyperliquidFill,
+  HyperliquidOrderState,
+  HyperliquidMarginMode,
+  HyperliquidFundingPayment,
+  HyperliquidUserRole,
+  TrackedOrder,
+  HyperliquidL2Book,
+  HyperliquidAccountSummary,
+} from '../types';
+import {
+  MIN_ORDER_NOTIONAL_USD,
+  calculateSlippage,
+  roundPrice,
+  roundSize,
+  toFundingRate,
+} from '../utils/hyperliquidMath';
+import {
+  HyperliquidOrderWire,
+  floatToUsdInt,
+  floatToWire,
+  orderWiresToOrderAction,
+  signL1Action,
+  toCloid,
+} from '../utils/hyperliquidSigning';
+import { HyperliquidAccountSource } from '../utils/configValidator';
+import { ExecutionVenue } from './executionScheduler';
+import {
+  HyperliquidFeed,
+  RawL2Book,
+  RawUserFill,
+  parseL2Book,
+  parseUserFill,
+} from './hyperliquidFeed';
+import { LiquidationGuardExchange } from './liquidationGuard';
+import { OrderStatusSource, OrderTracker, isFinalOrderState, parseOrderState } from './orderTracker';
+import { RateLimiter } from './rateLimiter';
+
+// Status of an IOC order that found nothing to match inside its limit
+const IOC_NO_MATCH_ERROR = 'Order could not immediately match';
+
+// Times an order is sent before giving up on network failures
+const ORDER_SEND_ATTEMPTS = 3;
+
+// Request weights from Hyperliquid's rate limit rules; other /info types weigh 20
+const INFO_WEIGHTS: Record<string, number> = {
+  l2Book: 2,
+  allMids: 2,
+  clearinghouseState: 2,
+  orderStatus: 2,
+  spotClearinghouseState: 2,
+  exchangeStatus: 2,
+  userRole: 60,
+};
+const DEFAULT_INFO_WEIGHT = 20;
+// List responses of these types cost one more per 20 items returned
+const PER_ITEM_WEIGHTED_INFO_TYPES = ['userFills', 'userFillsByTime', 'userFunding', 'fundingHistory', 'historicalOrders'];
+const ITEMS_PER_WEIGHT = 20;
+// Exchange actions weigh 1 plus 1 per 40 orders in the batch
+const ORDERS_PER_EXCHANGE_WEIGHT = 40;
+
+// Raw /info response shapes
+interface AssetInfo {
+  name: string;
+  szDecimals: number;
+  maxLeverage: number;
+  onlyIsolated?: boolean;
+}
+
+interface PerpMeta {
+  universe: AssetInfo[];
+}
+
+interface AssetCtx {
+  funding: string;
+  markPx: string;
+  midPx: string | null;
+  oraclePx: string;
+  openInterest: string;
+}
+
+interface RawAssetPosition {
+  coin: string;
+  szi: string;
+  entryPx: string | null;
+  positionValue: string;
+  unrealizedPnl: string;
+  liquidationPx: string | null;
+  marginUsed: string;
+  leverage: { type: 'cross' | 'isolated'; value: number };
+}
+
+interface MarginSummary {
+  accountValue: string;
+  totalNtlPos: string;
+  totalRawUsd: string;
+  totalMarginUsed: string;
+}
+
+interface ClearinghouseState {
+  marginSummary?: MarginSummary;        // Whole account, isolated positions included
+  crossMarginSummary?: MarginSummary;
+  crossMaintenanceMarginUsed?: string;
+  withdrawable?: string;
+  assetPositions: {
+    type: string;
+    position: RawAssetPosition;
+  }[];
+  time?: number;
+}
+
+interface UserFundingEntry {
+  time: number;
+  delta: { type: 'funding'; coin: string; usdc: string; szi: string; fundingRate: string };
+}
+
+interface FundingHistoryEntry {
+  coin: string;
+  fundingRate: string;
+  time: number;
+}
+
+// Per coin, the predicted next funding on each venue - null for venues not listing the coin
+type PredictedFundings = [string, [string, { fundingRate: string; nextFundingTime: number } | null][]][];
+
+// Venue name of Hyperliquid's own perps in predictedFundings
+const HYPERLIQUID_VENUE = 'HlPerp';
+
+// Most entries the exchange returns per time-range query
+const MAX_ENTRIES_PER_QUERY = 500;
+
+type UserRoleResponse =
+  | { role: 'user' | 'vault' | 'missing' }
+  | { role: 'agent'; data: { user: `0x${string}` } }
+  | { role: 'subAccount'; data: { master: `0x${string}` } };
+
+type OrderStatusResponse =
+  | { status: 'order'; order: { order: { oid: number; coin: string; side: 'B' | 'A'; origSz: string }; status: string } }
+  | { status: 'unknownOid' };
+
+// Order looked up by cloid
+interface FoundOrder {
+  oid: number;
+  cloid: `0x${string}`;
+  state: HyperliquidOrderState;
+  coin: string;
+  side: 'BUY' | 'SELL';
+  sizeCoin: number;
+}
+
+interface FrontendOpenOrder {
+  coin: string;
+  side: 'B' | 'A';
+  oid: number;
+  origSz: string;
+  cloid: `0x${string}` | null;
+}
+
+type OrderStatus =
+  | { resting: { oid: number } }
+  | { filled: { totalSz: string; avgPx: string; oid: number } }
+  | { error: string };
+
+// An order found by cloid after a failed request, in whatever state it is now
+type SentOrderStatus = OrderStatus | { existing: FoundOrder };
+
+interface ExchangeResponse {
+  status: 'ok' | 'err';
+  response: string | { type: string; data?: { statuses: OrderStatus[] } };
+}
+
+/**
+ * Convert a raw clearinghouse position to our position type
+ */
+function parseAssetPosition(pos: RawAssetPosition): HyperliquidPosition {
+  const sizeCoin = parseFloat(pos.szi || '0');
+  const positionValue = parseFloat(pos.positionValue || '0');
+  
+  return {
+    coin: pos.coin,
+    entryPrice: parseFloat(pos.entryPx || '0'),
+    sizeCoin,
+    notionalUsd: Math.abs(positionValue),
+    side: sizeCoin > 0 ? 'LONG' : 'SHORT',
+    leverage: pos.leverage?.value ?? 1,
+    marginMode: pos.leverage?.type ?? 'cross',
+    marginUsd: parseFloat(pos.marginUsed || '0'),
+    markPrice: sizeCoin !== 0 ? positionValue / Math.abs(sizeCoin) : 0,
+    unrealizedPnl: parseFloat(pos.unrealizedPnl || '0'),
+    liquidationPrice: parseFloat(pos.liquidationPx || '0')
+  };
+}
+
+/**
+ * Hyperliquid coin name for a configured perp ticker, e.g. PENDLE-PERP -> PENDLE
+ */
+export function toHyperliquidCoin(ticker: string): string {
+  return ticker.replace(/-PERP$/, '');
+}
+
+/**
+ * Whether a request failed on the way to or from the exchange, so it may or may not have arrived
+ */
+function isNetworkError(error: unknown): boolean {
+  const message = (error as Error).message;
+  return error instanceof TypeError ||
+    message.includes('network') ||
+    message.includes('abort') ||
+    message.includes('timeout');
+}
+
+/**
+ * Whether the exchange turned a request away for exceeding the rate limit
+ */
+function isRateLimitError(error: unknown): boolean {
+  return (error as Error).message.includes('API error: 429');
+}
+
+function toSigningKey(key: string): `0x${string}` {
+  return (key.startsWith('0x') ? key : `0x${key}`) as `0x${string}`;
+}
+
+/**
+ * Account that owns the hedge: the configured master account when the key is an agent wallet,
+ * otherwise the key's own account
+ */
+function resolveMasterAddress(): `0x${string}` {
+  if (config.hyperliquidAccountAddress) {
+    return config.hyperliquidAccountAddress as `0x${string}`;
+  }
+  return privateKeyToAccount(toSigningKey(config.hyperliquidSigningKey)).address;
+}
+
+/**
+ * Account positions are held and read on: the sub-account or vault when one is set
+ */
+function resolveAccountAddress(): `0x${string}` {
+  return (config.hyperliquidVaultAddress || resolveMasterAddress()) as `0x${string}`;
+}
+
+/**
+ * WebSocket feed for the configured coins and the trading account, null when disabled
+ */
+export function createHyperliquidFeed(coins: string[]): HyperliquidFeed | null {
+  if (!config.hyperliquidWsEndpoint) {
+    return null;
+  }
+  
+  return new HyperliquidFeed(config.hyperliquidWsEndpoint, {
+    user: resolveAccountAddress(),
+    coins: [...new Set(coins.map(toHyperliquidCoin))],
+    staleAfterMs: config.hyperliquidWsStaleMs,
+  });
+}
+
+/**
+ * Request weight budget for the configured per-minute limit, with a tenth kept for trading.
+ * Hyperliquid limits weight per IP, so share one limiter across every client.
+ */
+export function createHyperliquidRateLimiter(): RateLimiter {
+  const weightPerMinute = config.hyperliquidWeightPerMinute;
+  return new RateLimiter({
+    capacity: weightPerMinute,
+    refillPerMinute: weightPerMinute,
+    tradingReserve: Math.floor(weightPerMinute / 10),
+    name: 'Hyperliquid',
+  });
+}
 
 /**
  * Client for interacting with Hyperliquid API
+ * Reads go through /info, trading actions through /exchange signed as L1 actions.
+ * The signing key can be the account's own or an agent wallet the account approved,
+ * and actions can be placed on behalf of a sub-account or vault.
  */
-export class HyperliquidClient {
+export class HyperliquidClient implements OrderStatusSource, LiquidationGuardExchange, HyperliquidAccountSource, ExecutionVenue {
   private apiEndpoint: string;
-  private signingKey: string;
+  private signingKey: `0x${string}`;
+  private isMainnet: boolean;
+  private signerAddress: `0x${string}` | null = null;
+  private vaultAddress: `0x${string}` | null;
+  private slippageTolerance: number;
+  private fillRetries: number;
+  private maxSlices: number;
+  private orderTracker: OrderTracker;
+  private feed: HyperliquidFeed | null;
+  private rateLimiter: RateLimiter;
+  
+  // Perp universe by coin name, loaded from meta
+  private assets = new Map<string, HyperliquidAssetMeta>();
   
-  constructor() {
+  /**
+   * @param feed WebSocket feed to read mids and order updates from before falling back to HTTP
+   * @param rateLimiter Request weight budget - share one across clients
+   */
+  constructor(
+    feed: HyperliquidFeed | null = null,
+    rateLimiter: RateLimiter = createHyperliquidRateLimiter(),
+  ) {
+    this.feed = feed;
+    this.rateLimiter = rateLimiter;
     this.apiEndpoint = config.hyperliquidApiEndpoint;
-    this.signingKey = config.hyperliquidSigningKey;
+    this.signingKey = toSigningKey(config.hyperliquidSigningKey);
+    this.vaultAddress = (config.hyperliquidVaultAddress || null) as `0x${string}` | null;
+    this.isMainnet = !this.apiEndpoint.includes('testnet');
+    this.slippageTolerance = config.slippageTolerance;
+    this.fillRetries = config.orderFillRetries;
+    this.maxSlices = config.executionMaxSlices;
+    this.orderTracker = new OrderTracker(this);
+  }
+  
+  /**
+   * Tracker following this client's orders until they are filled or cancelled
+   */
+  getOrderTracker(): OrderTracker {
+    return this.orderTracker;
+  }
+  
+  /**
+   * Request weight budget this client spends from
+   */
+  getRateLimiter(): RateLimiter {
+    return this.rateLimiter;
+  }
+  
+  /**
+   * Address of the signing key - the account itself or an agent wallet acting for it
+   */
+  getSignerAddress(): `0x${string}` {
+    if (!this.signerAddress) {
+      this.signerAddress = privateKeyToAccount(this.signingKey).address;
+    }
+    return this.signerAddress;
   }
   
   /**
-   * Sign a request using HMAC SHA-256
-   * @param data - The data to sign
-   * @returns Signature in hex
+   * Address of the account that owns the hedge and approved the signing key
    */
-  private signRequest(data: string): string {
-    const hmac = createHmac('sha256', this.signingKey);
-    hmac.update(data);
-    return hmac.digest('hex');
+  getMasterAddress(): `0x${string}` {
+    return resolveMasterAddress();
   }
   
   /**
-   * Generate a nonce for API requests
+   * Address of the account the signing key trades for - the sub-account or vault when set
    */
-  private generateNonce(): string {
-    return Date.now().toString();
+  getAccountAddress(): `0x${string}` {
+    return this.vaultAddress ?? this.getMasterAddress();
   }
   
   /**
-   * Make an API request to Hyperliquid with retries and robust error handling
+   * Role of an address on the exchange and the account it belongs to
+   */
+  async getUserRole(address: `0x${string}`): Promise<HyperliquidUserRole> {
+    const response = await this.info<UserRoleResponse>({ type: 'userRole', user: address });
+    
+    switch (response.role) {
+      case 'agent':
+        return { role: response.role, owner: response.data.user };
+      case 'subAccount':
+        return { role: response.role, owner: response.data.master };
+      default:
+        return { role: response.role, owner: null };
+    }
+  }
+  
+  /**
+   * Leader of a vault, who may trade for it directly or through an agent
+   */
+  async getVaultLeader(vaultAddress: `0x${string}`): Promise<`0x${string}`> {
+    const details = await this.info<{ leader: `0x${string}` }>({ type: 'vaultDetails', vaultAddress });
+    return details.leader;
+  }
+  
+  /**
+   * Generate a nonce for exchange actions - millisecond timestamps, unique per signer
+   */
+  private generateNonce(): number {
+    return Date.now();
+  }
+  
+  /**
+   * Make an API request to Hyperliquid with retries and robust error handling.
+   * Every attempt waits for its weight in the rate limit budget, exchange actions first.
    */
   private async makeRequest<T>(
-    endpoint: string, 
-    method: 'GET' | 'POST', 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    data?: any,
+    endpoint: '/info' | '/exchange',
+    data: object,
+    weight: number,
     retries = 3
   ): Promise<T> {
     const url = `${this.apiEndpoint}${endpoint}`;
-    
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
-    
-    if (method === 'POST' && data) {
-      // Add signature for POST requests
-      const nonce = this.generateNonce();
-      const payload = JSON.stringify(data);
-      
-      // Create payload to sign: nonce + payload
-      const signatureData = `${nonce}${payload}`;
-      
-      try {
-        const signature = this.signRequest(signatureData);
-        headers['X-HL-Signature'] = signature;
-        headers['X-HL-Nonce'] = nonce;
-      } catch (signError) {
-        logger.error(`Failed to sign request: ${signError}`);
-        throw new Error(`Request signing failed: ${(signError as Error).message}`);
-      }
-    }
+    const priority = endpoint === '/exchange' ? 'trading' : 'info';
     
     // Implement retry logic
     let lastError: Error | null = null;
     
     for (let attempt = 1; attempt <= retries; attempt++) {
       try {
+        await this.rateLimiter.acquire(weight, priority);
         const response = await fetch(url, {
-          method,
-          headers,
-          body: method === 'POST' ? JSON.stringify(data) : undefined,
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(data),
           // Add timeout for network requests
           signal: AbortSignal.timeout(30000), // 30 second timeout
         });
         
         if (!response.ok) {
+          if (response.status === 429) {
+            // Our budget was off, e.g. other tools share the IP - back off fully
+            this.rateLimiter.exhaust();
+          }
           const errorText = await response.text();
           throw new Error(`API error: ${response.status} - ${errorText}`);
         }
@@ -99,16 +435,13 @@ export class HyperliquidClient {
         lastError = error as Error;
         
         // Different backoff strategy depending on error type
-        const isNetworkError = 
-          error instanceof TypeError || 
-          (error as Error).message.includes('network') ||
-          (error as Error).message.includes('abort') ||
-          (error as Error).message.includes('timeout');
+        const isRateLimited = isRateLimitError(error);
         
-        if (isNetworkError && attempt < retries) {
-          // Exponential backoff for network errors
+        if ((isNetworkError(error) || isRateLimited) && attempt < retries) {
+          // Exponential backoff for network errors and rate limits
           const backoffMs = Math.min(1000 * Math.pow(2, attempt - 1), 10000);
-          logger.warn(`Network error, retrying in ${backoffMs}ms... (${attempt}/${retries})`);
+          const reason = isRateLimited ? 'Rate limited' : 'Network error';
+          logger.warn(`${reason}, retrying in ${backoffMs}ms... (${attempt}/${retries})`);
           await new Promise(resolve => setTimeout(resolve, backoffMs));
           continue;
         }
@@ -123,24 +456,115 @@ export class HyperliquidClient {
     throw lastError || new Error('Request failed for unknown reason');
   }
   
+  /**
+   * Query the /info endpoint
+   */
+  private async info<T>(request: { type: string; [key: string]: unknown }): Promise<T> {
+    const weight = INFO_WEIGHTS[request.type] ?? DEFAULT_INFO_WEIGHT;
+    const response = await this.makeRequest<T>('/info', request, weight);
+    
+    if (PER_ITEM_WEIGHTED_INFO_TYPES.includes(request.type) && Array.isArray(response)) {
+      this.rateLimiter.charge(Math.floor(response.length / ITEMS_PER_WEIGHT));
+    }
+    return response;
+  }
+  
+  /**
+   * Sign and send an action to the /exchange endpoint
+   * @param retries Attempts on network errors - 1 for actions that must not be sent twice blindly
+   */
+  private async exchange(action: object, retries = 3): Promise<ExchangeResponse> {
+    const nonce = this.generateNonce();
+    const orders = (action as { orders?: unknown[] }).orders ?? [];
+    const weight = 1 + Math.floor(orders.length / ORDERS_PER_EXCHANGE_WEIGHT);
+    
+    let signature;
+    try {
+      signature = await signL1Action(this.signingKey, action, this.vaultAddress, nonce, this.isMainnet);
+    } catch (signError) {
+      logger.error(`Failed to sign request: ${signError}`);
+      throw new Error(`Request signing failed: ${(signError as Error).message}`);
+    }
+    
+    const response = await this.makeRequest<ExchangeResponse>('/exchange', {
+      action,
+      nonce,
+      signature,
+      vaultAddress: this.vaultAddress,
+    }, weight, retries);
+    
+    if (response.status !== 'ok') {
+      throw new Error(`Exchange rejected action: ${JSON.stringify(response.response)}`);
+    }
+    
+    return response;
+  }
+  
+  /**
+   * Remember the perp universe so coins can be mapped to asset indexes
+   */
+  private storeMeta(meta: PerpMeta): void {
+    this.assets.clear();
+    meta.universe.forEach((asset, index) => {
+      this.assets.set(asset.name, {
+        coin: asset.name,
+        index,
+        szDecimals: asset.szDecimals,
+        maxLeverage: asset.maxLeverage,
+        onlyIsolated: asset.onlyIsolated ?? false,
+      });
+    });
+  }
+  
+  /**
+   * Asset index, size decimals and max leverage of a coin, loading meta when it is not known yet
+   */
+  async getAssetMeta(coin: string): Promise<HyperliquidAssetMeta> {
+    const name = toHyperliquidCoin(coin);
+    
+    if (!this.assets.has(name)) {
+      this.storeMeta(await this.info<PerpMeta>({ type: 'meta' }));
+    }
+    
+    const asset = this.assets.get(name);
+    if (!asset) {
+      throw new Error(`Unknown Hyperliquid coin: ${name}`);
+    }
+    return asset;
+  }
+  
+  /**
+   * Get mid prices for every coin
+   */
+  async getAllMids(): Promise<Record<string, number>> {
+    const mids = await this.info<Record<string, string>>({ type: 'allMids' });
+    
+    return Object.fromEntries(
+      Object.entries(mids).map(([coin, mid]) => [coin, parseFloat(mid)])
+    );
+  }
+  
   /**
    * Get current market data for a coin
    */
-  async getMarketData(coin: string = config.pendlePerpTicker): Promise<HyperliquidMarketData> {
+  async getMarketData(coin: string = config.pools[0].perpTicker): Promise<HyperliquidMarketData> {
     try {
-      const response = await this.makeRequest<any>('/market/data', 'GET');
+      const name = toHyperliquidCoin(coin);
+      const [meta, assetCtxs] = await this.info<[PerpMeta, AssetCtx[]]>({ type: 'metaAndAssetCtxs' });
+      this.storeMeta(meta);
       
       // Find the specific coin data
-      const coinData = response.markets.find((market: any) => market.coin === coin);
+      const index = meta.universe.findIndex(asset => asset.name === name);
       
-      if (!coinData) {
-        throw new Error(`Market data not found for coin: ${coin}`);
+      if (index === -1 || !assetCtxs[index]) {
+        throw new Error(`Market data not found for coin: ${name}`);
       }
       
+      const assetCtx = assetCtxs[index];
       return {
         coin,
-        price: parseFloat(coinData.mark),
-        fundingRate: parseFloat(coinData.funding) // Assuming daily funding rate
+        price: parseFloat(assetCtx.markPx),
+        funding: toFundingRate(parseFloat(assetCtx.funding)),
       };
     } catch (error) {
       logger.error(`Failed to get market data for ${coin}: ${error}`);
@@ -153,42 +577,297 @@ export class HyperliquidClient {
    */
   async getPositions(): Promise<HyperliquidPosition[]> {
     try {
-      const response = await this.makeRequest<any>('/user/positions', 'GET');
+      const state = await this.info<ClearinghouseState>({
+        type: 'clearinghouseState',
+        user: this.getAccountAddress(),
+      });
       
       // Handle empty response or no positions
-      if (!response.positions || !Array.isArray(response.positions) || response.positions.length === 0) {
+      if (!state.assetPositions || !Array.isArray(state.assetPositions)) {
         return [];
       }
       
       // Parse and convert to our interface
-      return response.positions.map((pos: any) => {
-        const size = parseFloat(pos.size || '0'); // Handle potential null/undefined
-        
-        return {
-          coin: pos.coin,
-          entryPrice: parseFloat(pos.entryPrice || '0'),
-          size: size, // Size in USD
-          side: size > 0 ? 'LONG' : 'SHORT',
-          leverage: parseFloat(pos.leverage || '1'),
-          marginUsd: parseFloat(pos.margin || '0'),
-          markPrice: parseFloat(pos.markPrice || '0'),
-          unrealizedPnl: parseFloat(pos.unrealizedPnl || '0'),
-          liquidationPrice: parseFloat(pos.liquidationPrice || '0')
-        };
-      });
+      return state.assetPositions.map(({ position }) => parseAssetPosition(position));
     } catch (error) {
       logger.error(`Failed to get positions: ${error}`);
       throw error;
     }
   }
   
+  /**
+   * Status of an order by oid
+   */
+  async getOrderStatus(oid: number): Promise<HyperliquidOrderState> {
+    // Only final states are taken from the feed, an open one may already be out of date
+    const streamed = this.feed?.isLive() ? this.feed.getOrderState(oid) : null;
+    if (streamed && isFinalOrderState(streamed)) {
+      return streamed;
+    }
+    
+    const response = await this.info<OrderStatusResponse>({
+      type: 'orderStatus',
+      user: this.getAccountAddress(),
+      oid,
+    });
+    
+    if (response.status !== 'order') {
+      return 'unknown';
+    }
+    
+    return parseOrderState(response.order.status);
+  }
+  
+  /**
+   * Order placed with a client order ID, null when the exchange has never seen it
+   */
+  async findOrderByCloid(cloid: `0x${string}`): Promise<FoundOrder | null> {
+    const response = await this.info<OrderStatusResponse>({
+      type: 'orderStatus',
+      user: this.getAccountAddress(),
+      oid: cloid,
+    });
+    
+    if (response.status !== 'order') {
+      return null;
+    }
+    const { order, status } = response.order;
+    return {
+      oid: order.oid,
+      cloid,
+      state: parseOrderState(status),
+      coin: order.coin,
+      side: order.side === 'B' ? 'BUY' : 'SELL',
+      sizeCoin: parseFloat(order.origSz),
+    };
+  }
+  
+  /**
+   * Orders placed under a client order key: the order itself, each of its IOC attempts and,
+   * for a split order, the attempts of each child. Attempts are numbered in the order they
+   * are placed, so their lookup stops at the first one the exchange has never seen. Children
+   * are looked up to the slice limit without stopping at a missing number.
+   */
+  async findOrdersByKey(clientOrderKey: string, includeChildren = true): Promise<FoundOrder[]> {
+    const found: FoundOrder[] = [];
+    const order = await this.findOrderByCloid(toCloid(clientOrderKey));
+    if (order) {
+      found.push(order);
+    }
+    
+    for (let attempt = 0; attempt <= this.fillRetries; attempt++) {
+      const attemptOrder = await this.findOrderByCloid(toCloid(`${clientOrderKey}:${attempt}`));
+      if (!attemptOrder) {
+        break;
+      }
+      found.push(attemptOrder);
+    }
+    
+    // A key is either sent as one order or split into children, never both
+    if (includeChildren && found.length === 0) {
+      for (let slice = 0; slice < this.maxSlices; slice++) {
+        found.push(...await this.findOrdersByKey(`${clientOrderKey}:slice${slice}`, false));
+      }
+    }
+    return found;
+  }
+  
+  /**
+   * Track the account's orders placed with a cloid, e.g. after a restart, so the size they
+   * still have to fill is accounted for instead of being ordered again. Open orders are
+   * found through the open order list. IOC orders never rest there, so orders placed
+   * under the given client order keys are looked up by cloid, and those already
+   * settled have their fills read before they are dropped.
+   * @param coin Only reconcile orders of this coin
+   * @param clientOrderKeys Keys of orders whose outcome was never seen
+   * @returns The orders reconciled
+   */
+  async reconcileOpenOrders(coin?: string, clientOrderKeys: string[] = []): Promise<TrackedOrder[]> {
+    const name = coin ? toHyperliquidCoin(coin) : undefined;
+    const openOrders = await this.info<FrontendOpenOrder[]>({
+      type: 'frontendOpenOrders',
+      user: this.getAccountAddress(),
+    });
+    
+    const reconciled: TrackedOrder[] = [];
+    for (const order of openOrders) {
+      if (name && order.coin !== name) {
+        continue;
+      }
+      if (!order.cloid) {
+        logger.warn(`Open ${order.coin} order ${order.oid} has no cloid, it was not placed by the bot`);
+        continue;
+      }
+      
+      reconciled.push(this.orderTracker.track({
+        oid: order.oid,
+        cloid: order.cloid,
+        coin: order.coin,
+        side: order.side === 'B' ? 'BUY' : 'SELL',
+        sizeCoin: parseFloat(order.origSz),
+      }));
+    }
+    
+    for (const key of clientOrderKeys) {
+      for (const order of await this.findOrdersByKey(key)) {
+        if (reconciled.some(tracked => tracked.oid === order.oid)) {
+          continue;
+        }
+        logger.info(`Order ${order.cloid} for ${key} reached the exchange as ${order.oid} (${order.state})`);
+        reconciled.push(this.orderTracker.track({
+          oid: order.oid,
+          cloid: order.cloid,
+          coin: order.coin,
+          side: order.side,
+          sizeCoin: order.sizeCoin,
+        }));
+      }
+    }
+    
+    if (reconciled.length > 0) {
+      // Fill in what the orders have filled so far
+      await this.orderTracker.refresh();
+    }
+    return reconciled;
+  }
+  
+  /**
+   * Most recent fills of the account
+   */
+  async getUserFills(): Promise<HyperliquidFill[]> {
+    const fills = await this.info<RawUserFill[]>({
+      type: 'userFills',
+      user: this.getAccountAddress(),
+    });
+    
+    return fills.map(parseUserFill);
+  }
+  
+  /**
+   * Equity, margin and every open position of the account
+   */
+  async getAccountSummary(): Promise<HyperliquidAccountSummary> {
+    const state = await this.info<ClearinghouseState>({
+      type: 'clearinghouseState',
+      user: this.getAccountAddress(),
+    });
+    
+    const accountValue = parseFloat(state.marginSummary?.accountValue || '0');
+    const totalMarginUsed = parseFloat(state.marginSummary?.totalMarginUsed || '0');
+    const crossAccountValue = parseFloat(state.crossMarginSummary?.accountValue || '0');
+    const crossMaintenanceMarginUsed = parseFloat(state.crossMaintenanceMarginUsed || '0');
+    
+    return {
+      accountValue,
+      totalNotionalUsd: parseFloat(state.marginSummary?.totalNtlPos || '0'),
+      totalMarginUsed,
+      marginUsage: accountValue > 0 ? totalMarginUsed / accountValue : 0,
+      withdrawable: parseFloat(state.withdrawable || '0'),
+      crossAccountValue,
+      crossMarginUsed: parseFloat(state.crossMarginSummary?.totalMarginUsed || '0'),
+      crossMaintenanceMarginUsed,
+      crossMaintenanceUsage: crossAccountValue > 0 ? crossMaintenanceMarginUsed / crossAccountValue : 0,
+      positions: (state.assetPositions ?? [])
+        .map(({ position }) => parseAssetPosition(position))
+        .filter(position => position.sizeCoin !== 0),
+      time: state.time ?? Date.now(),
+    };
+  }
+  
+  /**
+   * USD the account could withdraw - free collateral not backing any position
+   */
+  async getWithdrawable(): Promise<number> {
+    const state = await this.info<ClearinghouseState>({
+      type: 'clearinghouseState',
+      user: this.getAccountAddress(),
+    });
+    return parseFloat(state.withdrawable || '0');
+  }
+  
+  /**
+   * Funding payments of the account between two times, oldest first
+   * @param startTime Milliseconds since epoch, inclusive
+   * @param endTime Milliseconds since epoch, defaults to now
+   */
+  async getFundingHistory(startTime: number, endTime?: number): Promise<HyperliquidFundingPayment[]> {
+    const entries = await this.infoRange<UserFundingEntry>(
+      { type: 'userFunding', user: this.getAccountAddress() },
+      startTime,
+      endTime,
+    );
+    
+    return entries.map(entry => ({
+      coin: entry.delta.coin,
+      time: entry.time,
+      usdc: parseFloat(entry.delta.usdc),
+      sizeCoin: parseFloat(entry.delta.szi),
+      fundingRate: parseFloat(entry.delta.fundingRate),
+    }));
+  }
+  
+  /**
+   * Hourly funding rates a coin was charged between two times, oldest first
+   * @param startTime Milliseconds since epoch, inclusive
+   * @param endTime Milliseconds since epoch, defaults to now
+   */
+  async getFundingRateHistory(
+    coin: string,
+    startTime: number,
+    endTime?: number,
+  ): Promise<{ time: number; fundingRate: number }[]> {
+    const entries = await this.infoRange<FundingHistoryEntry>(
+      { type: 'fundingHistory', coin: toHyperliquidCoin(coin) },
+      startTime,
+      endTime,
+    );
+    
+    return entries.map(entry => ({ time: entry.time, fundingRate: parseFloat(entry.fundingRate) }));
+  }
+  
+  /**
+   * Predicted hourly rate of a coin's next funding, null when none is published
+   */
+  async getPredictedFundingRate(coin: string): Promise<number | null> {
+    const name = toHyperliquidCoin(coin);
+    const predictions = await this.info<PredictedFundings>({ type: 'predictedFundings' });
+    
+    const venues = predictions.find(([predictedCoin]) => predictedCoin === name)?.[1] ?? [];
+    const prediction = venues.find(([venue]) => venue === HYPERLIQUID_VENUE)?.[1];
+    return prediction ? parseFloat(prediction.fundingRate) : null;
+  }
+  
+  /**
+   * Every entry of a time-range /info query. Results are capped per query,
+   * so pages are fetched forward from the last entry's time.
+   */
+  private async infoRange<T extends { time: number }>(
+    request: { type: string; [key: string]: unknown },
+    startTime: number,
+    endTime?: number,
+  ): Promise<T[]> {
+    const entries: T[] = [];
+    let from = startTime;
+    
+    for (;;) {
+      const page = await this.info<T[]>({ ...request, startTime: from, endTime });
+      entries.push(...page);
+      
+      if (page.length < MAX_ENTRIES_PER_QUERY) {
+        return entries;
+      }
+      from = page[page.length - 1].time + 1;
+    }
+  }
+  
   /**
    * Get a specific position by coin
    */
-  async getPosition(coin: string = config.pendlePerpTicker): Promise<HyperliquidPosition | null> {
+  async getPosition(coin: string = config.pools[0].perpTicker): Promise<HyperliquidPosition | null> {
     try {
+      const name = toHyperliquidCoin(coin);
       const positions = await this.getPositions();
-      return positions.find(pos => pos.coin === coin) || null;
+      return positions.find(pos => pos.coin === name) || null;
     } catch (error) {
       logger.error(`Failed to get position for ${coin}: ${error}`);
       throw error;
@@ -197,90 +876,306 @@ export class HyperliquidClient {
   
   /**
    * Place an order
+   * Market orders are sent as IOC limits at mid ± the slippage tolerance, as the exchange has
+   * no true market orders. An unfilled remainder is retried at a fresh mid up to the configured
+   * number of times. Size and price are rounded to what the asset accepts.
+   * Every order is sent with a cloid derived from its clientOrderKey, or from the time and
+   * order when none is given, so a retried request can tell whether the order already exists.
    */
   async placeOrder(order: HyperliquidOrder): Promise<HyperliquidOrderResponse> {
+    const keyed = {
+      ...order,
+      clientOrderKey: order.clientOrderKey ?? `${Date.now()}:${order.coin}:${order.side}:${order.sizeCoin}`,
+    };
+    
     try {
-      const requestData = {
-        action: {
-          type: order.orderType.toLowerCase(),
-          coin: order.coin,
-          side: order.side,
-          size: order.size.toString(),
-          price: order.price ? order.price.toString() : null, // For limit orders
-          reduceOnly: order.reduceOnly
-        }
+      if (keyed.orderType === 'MARKET' || keyed.price === null) {
+        return await this.placeMarketOrder(keyed);
+      }
+      
+      const asset = await this.getAssetMeta(keyed.coin);
+      return await this.submitOrder(keyed, asset, keyed.price, 'Gtc', toCloid(keyed.clientOrderKey));
+    } catch (error) {
+      logger.error(`Failed to place order: ${error}`);
+      return {
+        status: 'error',
+        error: (error as Error).message
       };
+    }
+  }
+  
+  /**
+   * Mid price of a coin
+   */
+  async getMid(coin: string): Promise<number> {
+    const name = toHyperliquidCoin(coin);
+    const mid = this.feed?.getMid(name) ?? (await this.getAllMids())[name];
+    if (!mid || mid <= 0) {
+      throw new Error(`No mid price for ${name}`);
+    }
+    return mid;
+  }
+  
+  /**
+   * L2 order book of a coin
+   */
+  async getL2Book(coin: string): Promise<HyperliquidL2Book> {
+    return parseL2Book(
+      await this.info<RawL2Book>({ type: 'l2Book', coin: toHyperliquidCoin(coin) })
+    );
+  }
+  
+  /**
+   * Fill an order with slippage-bounded IOC limits, retrying the unfilled remainder.
+   * Slippage is measured against the mid of the first attempt.
+   */
+  private async placeMarketOrder(order: HyperliquidOrder): Promise<HyperliquidOrderResponse> {
+    const asset = await this.getAssetMeta(order.coin);
+    const isBuy = order.side === 'BUY';
+    
+    let remainingSizeCoin = roundSize(Math.abs(order.sizeCoin), asset.szDecimals);
+    let filledSizeCoin = 0;
+    let filledNotional = 0;
+    let feeUsd = 0;
+    let referencePrice: number | undefined;
+    let id: string | undefined;
+    let lastError: string | undefined;
+    
+    for (let attempt = 0; attempt <= this.fillRetries && remainingSizeCoin > 0; attempt++) {
+      const mid = await this.getMid(asset.coin);
+      referencePrice ??= mid;
       
-      const response = await this.makeRequest<any>('/trade', 'POST', requestData);
+      if (attempt > 0 && remainingSizeCoin * mid < MIN_ORDER_NOTIONAL_USD) {
+        logger.warn(`Remainder of ${remainingSizeCoin} ${asset.coin} is below the minimum order size, not retrying`);
+        break;
+      }
       
-      if (response.status === 'success') {
-        logger.trade(`Order placed successfully for ${order.coin}`, {
-          side: order.side,
-          size: order.size,
-          type: order.orderType
-        });
-        
-        return {
-          status: 'success',
-          order,
-          id: response.id
-        };
+      const limitPrice = mid * (isBuy ? 1 + this.slippageTolerance : 1 - this.slippageTolerance);
+      // Each attempt is an order of its own
+      const result = await this.submitOrder(
+        { ...order, sizeCoin: remainingSizeCoin },
+        asset,
+        limitPrice,
+        'Ioc',
+        toCloid(`${order.clientOrderKey}:${attempt}`)
+      );
+      
+      if (result.status === 'error') {
+        lastError = result.error;
+        // Nothing to match inside the band - worth another try at a fresh mid, anything else is not
+        if (!result.error?.startsWith(IOC_NO_MATCH_ERROR)) {
+          break;
+        }
       } else {
-        return {
-          status: 'error',
-          error: response.error || 'Unknown error'
-        };
+        id = result.id;
+        const fill = result.filledSizeCoin ?? 0;
+        filledSizeCoin = roundSize(filledSizeCoin + fill, asset.szDecimals);
+        filledNotional += fill * (result.avgFillPrice ?? 0);
+        feeUsd += result.feeUsd ?? 0;
+        remainingSizeCoin = roundSize(remainingSizeCoin - fill, asset.szDecimals);
       }
-    } catch (error) {
-      logger.error(`Failed to place order: ${error}`);
+      
+      if (remainingSizeCoin > 0) {
+        logger.warn(`IOC attempt ${attempt + 1} for ${asset.coin} left ${remainingSizeCoin} unfilled`);
+      }
+    }
+    
+    if (filledSizeCoin === 0) {
       return {
         status: 'error',
-        error: (error as Error).message
+        error: lastError ?? `Order for ${asset.coin} was not filled`,
+        referencePrice,
+        filledSizeCoin: 0,
+        remainingSizeCoin,
       };
     }
+    
+    const avgFillPrice = filledNotional / filledSizeCoin;
+    const slippage = calculateSlippage(order.side, referencePrice as number, avgFillPrice);
+    
+    if (remainingSizeCoin > 0) {
+      logger.warn(`Order for ${asset.coin} partially filled: ${filledSizeCoin} filled, ${remainingSizeCoin} left`);
+    }
+    
+    return {
+      status: 'success',
+      order: { ...order, sizeCoin: filledSizeCoin, price: avgFillPrice },
+      id,
+      filledSizeCoin,
+      remainingSizeCoin,
+      avgFillPrice,
+      referencePrice,
+      slippage,
+      feeUsd,
+    };
   }
   
   /**
-   * Place a market order to open/increase a short position
+   * Sign and send a single limit order
+   */
+  private async submitOrder(
+    order: HyperliquidOrder,
+    asset: HyperliquidAssetMeta,
+    limitPrice: number,
+    tif: 'Ioc' | 'Gtc',
+    cloid: `0x${string}`
+  ): Promise<HyperliquidOrderResponse> {
+    const isBuy = order.side === 'BUY';
+    
+    // Round towards mid so the limit never goes past the intended bound
+    const price = roundPrice(limitPrice, asset.szDecimals, isBuy ? 'down' : 'up');
+    const sizeCoin = roundSize(Math.abs(order.sizeCoin), asset.szDecimals);
+    
+    if (sizeCoin === 0) {
+      throw new Error(`Order size ${order.sizeCoin} rounds to zero ${asset.coin}`);
+    }
+    
+    const wire: HyperliquidOrderWire = {
+      a: asset.index,
+      b: isBuy,
+      p: floatToWire(price),
+      s: floatToWire(sizeCoin),
+      r: order.reduceOnly,
+      t: { limit: { tif } },
+      c: cloid,
+    };
+    
+    const status = await this.sendOrder(wire, cloid);
+    
+    if ('error' in status) {
+      return {
+        status: 'error',
+        error: status.error
+      };
+    }
+    
+    const oid = 'filled' in status ? status.filled.oid
+      : 'resting' in status ? status.resting.oid
+      : status.existing.oid;
+    let tracked = this.orderTracker.track({ oid, cloid, coin: asset.coin, side: order.side, sizeCoin });
+    
+    // IOC orders settle right away so their fills are confirmed now, resting orders stay in flight.
+    // An order found after a failed request that has already settled is confirmed as well.
+    if (tif === 'Ioc' || ('existing' in status && isFinalOrderState(status.existing.state))) {
+      try {
+        tracked = await this.orderTracker.confirm(oid);
+      } catch (error) {
+        logger.warn(`Could not confirm fills of order ${oid}: ${error}`);
+      }
+    }
+    
+    let filledSizeCoin = tracked.filledSizeCoin;
+    let avgFillPrice = tracked.avgFillPrice ?? undefined;
+    if (filledSizeCoin === 0 && 'filled' in status) {
+      // The fill history can lag behind the order status
+      filledSizeCoin = parseFloat(status.filled.totalSz);
+      avgFillPrice = parseFloat(status.filled.avgPx);
+    }
+    
+    logger.trade(`Order placed successfully for ${order.coin}`, {
+      side: order.side,
+      sizeCoin,
+      price,
+      tif,
+      status: tracked.status,
+      filledSizeCoin,
+      oid,
+      cloid,
+    });
+    
+    return {
+      status: 'success',
+      order: { ...order, sizeCoin, price },
+      id: oid.toString(),
+      filledSizeCoin,
+      avgFillPrice,
+      feeUsd: tracked.feeUsd,
+    };
+  }
+  
+  /**
+   * Send an order wire and return its status. A request that failed on the network may still
+   * have reached the exchange, so before sending again the cloid is looked up and an order
+   * already placed with it is returned instead, in the state it is in now.
+   */
+  private async sendOrder(wire: HyperliquidOrderWire, cloid: `0x${string}`): Promise<SentOrderStatus> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await this.exchange(orderWiresToOrderAction([wire]), 1);
+        const status = typeof response.response === 'object'
+          ? response.response.data?.statuses[0]
+          : undefined;
+        
+        if (!status) {
+          throw new Error(`Unexpected order response: ${JSON.stringify(response)}`);
+        }
+        return status;
+      } catch (error) {
+        if (attempt >= ORDER_SEND_ATTEMPTS || !(isNetworkError(error) || isRateLimitError(error))) {
+          throw error;
+        }
+        
+        const existing = await this.findOrderByCloid(cloid);
+        if (existing) {
+          logger.warn(`Order ${cloid} reached the exchange as ${existing.oid} (${existing.state}) before the request failed, not sending it again`);
+          if (existing.state === 'rejected') {
+            return { error: `Order ${existing.oid} was rejected` };
+          }
+          return { existing };
+        }
+        logger.warn(`Order ${cloid} failed to send, retrying (${attempt}/${ORDER_SEND_ATTEMPTS}): ${error}`);
+      }
+    }
+  }
+  
+  /**
+   * Place a slippage-bounded IOC order to open/increase a short position
+   * @param clientOrderKey Intent of the order, the same key always yields the same cloid
    */
   async openShortPosition(
-    coin: string, 
-    sizeUsd: number
+    coin: string,
+    sizeCoin: number,
+    clientOrderKey?: string
   ): Promise<HyperliquidOrderResponse> {
     return this.placeOrder({
       coin,
       side: 'SELL',
-      size: sizeUsd,
+      sizeCoin,
       price: null, // Market order
       orderType: 'MARKET',
-      reduceOnly: false
+      reduceOnly: false,
+      clientOrderKey,
     });
   }
   
   /**
-   * Place a market order to reduce a short position
+   * Place a slippage-bounded IOC order to reduce a short position
+   * @param clientOrderKey Intent of the order, the same key always yields the same cloid
    */
   async reduceShortPosition(
-    coin: string, 
-    sizeUsd: number
+    coin: string,
+    sizeCoin: number,
+    clientOrderKey?: string
   ): Promise<HyperliquidOrderResponse> {
     return this.placeOrder({
       coin,
       side: 'BUY',
-      size: sizeUsd,
+      sizeCoin,
       price: null, // Market order
       orderType: 'MARKET',
-      reduceOnly: true
+      reduceOnly: true,
+      clientOrderKey,
     });
   }
   
   /**
    * Close all positions for a coin
+   * @param clientOrderKey Intent of the order, the same key always yields the same cloid
    */
-  async closePosition(coin: string): Promise<HyperliquidOrderResponse> {
+  async closePosition(coin: string, clientOrderKey?: string): Promise<HyperliquidOrderResponse> {
     const position = await this.getPosition(coin);
     
-    if (!position || position.size === 0) {
+    if (!position || position.sizeCoin === 0) {
       return {
         status: 'success',
         order: undefined,
@@ -289,17 +1184,58 @@ export class HyperliquidClient {
     }
     
     const side = position.side === 'LONG' ? 'SELL' : 'BUY';
-    const sizeAbs = Math.abs(position.size);
     
     return this.placeOrder({
       coin,
       side,
-      size: sizeAbs,
+      sizeCoin: Math.abs(position.sizeCoin),
       price: null, // Market order
       orderType: 'MARKET',
-      reduceOnly: true
+      reduceOnly: true,
+      clientOrderKey,
     });
   }
+  
+  /**
+   * Set the leverage and margin mode of a coin. Applies to the open position and new orders.
+   */
+  async updateLeverage(coin: string, leverage: number, marginMode: HyperliquidMarginMode): Promise<void> {
+    const asset = await this.getAssetMeta(coin);
+    
+    if (leverage > asset.maxLeverage) {
+      throw new Error(`Leverage ${leverage}x exceeds the ${asset.maxLeverage}x maximum for ${asset.coin}`);
+    }
+    if (marginMode === 'cross' && asset.onlyIsolated) {
+      throw new Error(`${asset.coin} only supports isolated margin`);
+    }
+    
+    await this.exchange({
+      type: 'updateLeverage',
+      asset: asset.index,
+      isCross: marginMode === 'cross',
+      leverage,
+    });
+    
+    logger.trade(`Set ${asset.coin} leverage to ${leverage}x ${marginMode}`);
+  }
+  
+  /**
+   * Add (positive) or remove (negative) isolated margin of a coin's position in USD
+   */
+  async updateIsolatedMargin(coin: string, amountUsd: number): Promise<void> {
+    const asset = await this.getAssetMeta(coin);
+    
+    await this.exchange({
+      type: 'updateIsolatedMargin',
+      asset: asset.index,
+      // The exchange ignores the side for margin updates, the SDK always sends true
+      isBuy: true,
+      ntli: floatToUsdInt(Number(amountUsd.toFixed(6))),
+    });
+    
+    const verb = amountUsd > 0 ? 'Added' : 'Removed';
+    logger.trade(`${verb} ${Math.abs(amountUsd).toFixed(2)} USD isolated margin on ${asset.coin}`);
+  }
 }
 
-export default HyperliquidClient;
\ No newline at end of file
+export default HyperliquidClient;
@@ -0,0 +1,403 @@
+import WebSocket from 'ws';
+import logger from '../logger';
+import {
+  HyperliquidFeedStatus,
+  HyperliquidBookLevel,
+  HyperliquidFill,
+  HyperliquidL2Book,
+  HyperliquidMarketData,
+  HyperliquidOrderState,
+} from '../types';
+import { toFundingRate } from '../utils/hyperliquidMath';
+import { parseOrderState } from './orderTracker';
+
+export interface HyperliquidFeedOptions {
+  user?: `0x${string}`;         // Account for userFills and orderUpdates, market data only without
+  coins?: string[];             // Coins to subscribe activeAssetCtx for
+  heartbeatIntervalMs?: number; // How often a ping is sent
+  staleAfterMs?: number;        // Silence after which the connection is considered dead
+  minReconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  maxFills?: number;            // Fills kept in the account cache
+}
+
+// Fill as sent by /info userFills and the userFills channel
+export interface RawUserFill {
+  coin: string;
+  px: string;
+  sz: string;
+  side: 'B' | 'A';
+  time: number;
+  fee: string;
+  oid: number;
+  tid?: number;             // Trade ID, unique per fill
+  startPosition?: string;   // Signed position size before the fill
+}
+
+interface RawBookLevel {
+  px: string;
+  sz: string;
+  n: number;                // Orders resting at the level
+}
+
+// Book as sent by /info l2Book and the l2Book channel
+export interface RawL2Book {
+  coin: string;
+  time: number;
+  levels: [RawBookLevel[], RawBookLevel[]];  // Bids, then asks
+}
+
+interface RawAssetCtx {
+  funding: string;
+  markPx: string;
+  midPx: string | null;
+  oraclePx: string;
+}
+
+interface RawOrderUpdate {
+  order: { coin: string; oid: number };
+  status: string;
+}
+
+type FeedMessage =
+  | { channel: 'allMids'; data: { mids: Record<string, string> } }
+  | { channel: 'activeAssetCtx'; data: { coin: string; ctx: RawAssetCtx } }
+  | { channel: 'userFills'; data: { isSnapshot?: boolean; fills: RawUserFill[] } }
+  | { channel: 'orderUpdates'; data: RawOrderUpdate[] }
+  | { channel: 'pong' | 'subscriptionResponse' | 'error'; data?: unknown };
+
+interface CachedMarket {
+  markPrice: number;
+  fundingRate: number;   // Hourly
+  updatedAt: number;
+}
+
+/**
+ * Convert a raw fill to our fill type
+ */
+export function parseUserFill(fill: RawUserFill): HyperliquidFill {
+  return {
+    oid: fill.oid,
+    coin: fill.coin,
+    side: fill.side === 'B' ? 'BUY' : 'SELL',
+    price: parseFloat(fill.px),
+    sizeCoin: parseFloat(fill.sz),
+    feeUsd: parseFloat(fill.fee),
+    time: fill.time,
+  };
+}
+
+/**
+ * Convert a raw book to our book type
+ */
+export function parseL2Book(book: RawL2Book): HyperliquidL2Book {
+  const toLevels = (levels: RawBookLevel[]): HyperliquidBookLevel[] => levels.map(level => ({
+    price: parseFloat(level.px),
+    sizeCoin: parseFloat(level.sz),
+  }));
+  return {
+    coin: book.coin,
+    time: book.time,
+    bids: toLevels(book.levels[0]),
+    asks: toLevels(book.levels[1]),
+  };
+}
+
+/**
+ * WebSocket feed of Hyperliquid marks, funding, fills and order updates.
+ *
+ * Keeps an in-memory market and account cache that readers use instead of
+ * polling HTTP. The connection is pinged on an interval and dropped when it
+ * goes silent for too long. Dropped connections are reopened with exponential
+ * backoff and every subscription is sent again.
+ */
+export class HyperliquidFeed {
+  private url: string;
+  private user?: `0x${string}`;
+  private coins: string[];
+  private heartbeatIntervalMs: number;
+  private staleAfterMs: number;
+  private minReconnectDelayMs: number;
+  private maxReconnectDelayMs: number;
+  private maxFills: number;
+
+  private socket: WebSocket | null = null;
+  private running = false;
+  private connected = false;
+  private lastMessageAt: number | null = null;
+  private reconnectAttempts = 0;
+  private reconnects = 0;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+
+  private mids = new Map<string, number>();
+  private markets = new Map<string, CachedMarket>();
+  private fills: HyperliquidFill[] = [];
+  private orderStates = new Map<number, HyperliquidOrderState>();
+  private seenTradeIds = new Set<number>();
+  // Position size per coin as of the latest fill, and how many fills moved it
+  private positions = new Map<string, { sizeCoin: number; time: number }>();
+  private fillSequences = new Map<string, number>();
+
+  constructor(url: string, options: HyperliquidFeedOptions = {}) {
+    this.url = url;
+    this.user = options.user;
+    this.coins = options.coins ?? [];
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 15000;
+    this.staleAfterMs = options.staleAfterMs ?? 30000;
+    this.minReconnectDelayMs = options.minReconnectDelayMs ?? 1000;
+    this.maxReconnectDelayMs = options.maxReconnectDelayMs ?? 30000;
+    this.maxFills = options.maxFills ?? 2000;
+  }
+
+  /**
+   * Open the connection and keep it open until stopped
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.connect();
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), this.heartbeatIntervalMs);
+  }
+
+  /**
+   * Close the connection and stop reconnecting
+   */
+  stop(): void {
+    this.running = false;
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.removeAllListeners();
+    this.socket?.on('error', () => undefined);
+    this.socket?.terminate();
+    this.socket = null;
+    this.connected = false;
+  }
+
+  /**
+   * Whether the connection is open and has been heard from recently
+   */
+  isLive(): boolean {
+    return this.connected &&
+      this.lastMessageAt !== null &&
+      Date.now() - this.lastMessageAt <= this.staleAfterMs;
+  }
+
+  getStatus(): HyperliquidFeedStatus {
+    return {
+      connected: this.connected,
+      live: this.isLive(),
+      lastMessageAt: this.lastMessageAt,
+      reconnects: this.reconnects,
+    };
+  }
+
+  /**
+   * Cached mark and funding of a coin, null when the feed is not live or has none yet
+   */
+  getMarketData(coin: string): HyperliquidMarketData | null {
+    const market = this.markets.get(coin);
+    if (!market || !this.isLive()) {
+      return null;
+    }
+    return { coin, price: market.markPrice, funding: toFundingRate(market.fundingRate) };
+  }
+
+  /**
+   * Cached mid of a coin, null when the feed is not live or has none yet
+   */
+  getMid(coin: string): number | null {
+    const mid = this.mids.get(coin);
+    return mid !== undefined && this.isLive() ? mid : null;
+  }
+
+  /**
+   * Cached fills of the account, oldest first
+   */
+  getFills(): HyperliquidFill[] {
+    return [...this.fills];
+  }
+
+  /**
+   * Latest state of an order seen on orderUpdates, null when not seen
+   */
+  getOrderState(oid: number): HyperliquidOrderState | null {
+    return this.orderStates.get(oid) ?? null;
+  }
+
+  /**
+   * Signed position size of a coin after the latest fill, null before any fill was seen
+   */
+  getPositionSize(coin: string): number | null {
+    return this.positions.get(coin)?.sizeCoin ?? null;
+  }
+
+  /**
+   * Number of fills seen for a coin - changes whenever the position does
+   */
+  getFillSequence(coin: string): number {
+    return this.fillSequences.get(coin) ?? 0;
+  }
+
+  private subscriptions(): object[] {
+    const subscriptions: object[] = [{ type: 'allMids' }];
+    for (const coin of this.coins) {
+      subscriptions.push({ type: 'activeAssetCtx', coin });
+    }
+    if (this.user) {
+      subscriptions.push({ type: 'userFills', user: this.user });
+      subscriptions.push({ type: 'orderUpdates', user: this.user });
+    }
+    return subscriptions;
+  }
+
+  private connect(): void {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.on('open', () => {
+      this.connected = true;
+      this.lastMessageAt = Date.now();
+      this.reconnectAttempts = 0;
+      logger.info(`Hyperliquid feed connected to ${this.url}`);
+
+      for (const subscription of this.subscriptions()) {
+        socket.send(JSON.stringify({ method: 'subscribe', subscription }));
+      }
+    });
+
+    socket.on('message', raw => {
+      this.lastMessageAt = Date.now();
+      try {
+        this.handleMessage(JSON.parse(raw.toString()) as FeedMessage);
+      } catch (error) {
+        logger.warn(`Bad Hyperliquid feed message: ${error}`);
+      }
+    });
+
+    socket.on('error', error => {
+      logger.warn(`Hyperliquid feed error: ${error.message}`);
+    });
+
+    socket.on('close', () => {
+      if (this.socket !== socket) {
+        return;
+      }
+      this.connected = false;
+      this.socket = null;
+      this.scheduleReconnect();
+    });
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.running || this.reconnectTimer) {
+      return;
+    }
+
+    const delay = Math.min(
+      this.minReconnectDelayMs * 2 ** this.reconnectAttempts,
+      this.maxReconnectDelayMs
+    );
+    this.reconnectAttempts++;
+    logger.warn(`Hyperliquid feed disconnected, reconnecting in ${delay}ms`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnects++;
+      this.connect();
+    }, delay);
+  }
+
+  /**
+   * Ping the server and drop the connection when it has gone quiet
+   */
+  private heartbeat(): void {
+    const socket = this.socket;
+    if (!socket || !this.connected) {
+      return;
+    }
+
+    if (this.lastMessageAt !== null && Date.now() - this.lastMessageAt > this.staleAfterMs) {
+      logger.warn(`Hyperliquid feed silent for ${Date.now() - this.lastMessageAt}ms, reconnecting`);
+      socket.terminate();
+      return;
+    }
+
+    socket.send(JSON.stringify({ method: 'ping' }));
+  }
+
+  private handleMessage(message: FeedMessage): void {
+    switch (message.channel) {
+      case 'allMids':
+        for (const [coin, mid] of Object.entries(message.data.mids)) {
+          this.mids.set(coin, parseFloat(mid));
+        }
+        break;
+
+      case 'activeAssetCtx':
+        this.markets.set(message.data.coin, {
+          markPrice: parseFloat(message.data.ctx.markPx),
+          fundingRate: parseFloat(message.data.ctx.funding),
+          updatedAt: Date.now(),
+        });
+        break;
+
+      case 'userFills':
+        for (const raw of message.data.fills) {
+          this.applyFill(raw);
+        }
+        break;
+
+      case 'orderUpdates':
+        for (const update of message.data) {
+          this.orderStates.set(update.order.oid, parseOrderState(update.status));
+        }
+        break;
+
+      case 'error':
+        logger.warn(`Hyperliquid feed reported an error: ${JSON.stringify(message.data)}`);
+        break;
+    }
+  }
+
+  private applyFill(raw: RawUserFill): void {
+    // The snapshot sent after every (re)subscribe repeats fills already seen
+    if (raw.tid !== undefined) {
+      if (this.seenTradeIds.has(raw.tid)) {
+        return;
+      }
+      this.seenTradeIds.add(raw.tid);
+      if (this.seenTradeIds.size > this.maxFills) {
+        this.seenTradeIds.delete(this.seenTradeIds.values().next().value as number);
+      }
+    }
+
+    const fill = parseUserFill(raw);
+
+    this.fills.push(fill);
+    if (this.fills.length > this.maxFills) {
+      this.fills.splice(0, this.fills.length - this.maxFills);
+    }
+
+    // Snapshots and live fills can interleave - the newest fill decides the position
+    const position = this.positions.get(fill.coin);
+    if (raw.startPosition !== undefined && (!position || fill.time >= position.time)) {
+      const change = fill.side === 'BUY' ? fill.sizeCoin : -fill.sizeCoin;
+      this.positions.set(fill.coin, {
+        sizeCoin: parseFloat(raw.startPosition) + change,
+        time: fill.time,
+      });
+    }
+    this.fillSequences.set(fill.coin, this.getFillSequence(fill.coin) + 1);
+  }
+}
+
+export default HyperliquidFeed;
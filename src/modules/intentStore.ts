@@ -0,0 +1,80 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '../logger';
+import { HedgeIntent } from '../types';
+
+/**
+ * Client order key prefix of an intent's orders: the same target at the same snapshot
+ * always yields the same keys, whichever process places them
+ */
+export function toIntentKey(intent: HedgeIntent): string {
+  return `${intent.snapshotId}:${intent.coin}:${intent.targetSizeCoin}`;
+}
+
+interface IntentFile {
+  intents: Record<string, HedgeIntent>;
+  lastTrimAt: Record<string, number>;   // Time of each coin's last liquidation trim
+}
+
+/**
+ * Keeps each coin's hedge intent in a JSON file so a restarted bot places its orders
+ * under the same client order keys, and can look up an order whose outcome it never saw.
+ * The time of the last liquidation trim is kept alongside, so a restart does not end
+ * the trim cooldown.
+ *
+ * Writes are synchronous and small, they happen at most a few times per check cycle.
+ */
+export class IntentStore {
+  private filePath: string;
+  private file: IntentFile;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.file = this.load();
+  }
+
+  get(coin: string): HedgeIntent | null {
+    return this.file.intents[coin] ?? null;
+  }
+
+  save(intent: HedgeIntent): void {
+    this.file.intents[intent.coin] = intent;
+    this.write();
+  }
+
+  getLastTrimAt(coin: string): number | null {
+    return this.file.lastTrimAt[coin] ?? null;
+  }
+
+  saveLastTrimAt(coin: string, trimmedAt: number): void {
+    this.file.lastTrimAt[coin] = trimmedAt;
+    this.write();
+  }
+
+  private write(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(this.file, null, 2));
+    } catch (error) {
+      // Losing the file only weakens de-duplication and the trim cooldown across restarts
+      logger.warn(`Failed to save hedge intents to ${this.filePath}: ${error}`);
+    }
+  }
+
+  private load(): IntentFile {
+    const empty: IntentFile = { intents: {}, lastTrimAt: {} };
+    if (!fs.existsSync(this.filePath)) {
+      return empty;
+    }
+
+    try {
+      const file: Partial<IntentFile> = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      return { intents: file.intents ?? {}, lastTrimAt: file.lastTrimAt ?? {} };
+    } catch (error) {
+      logger.warn(`Ignoring unreadable hedge intent file ${this.filePath}: ${error}`);
+      return empty;
+    }
+  }
+}
+
+export default IntentStore;
@@ -0,0 +1,262 @@
+import logger from '../logger';
+import {
+  ExecutionResult,
+  HedgingAction,
+  HyperliquidOrderResponse,
+  HyperliquidPosition,
+} from '../types';
+import { MIN_MARGIN_ADJUSTMENT_USD, MIN_ORDER_NOTIONAL_USD } from '../utils/hyperliquidMath';
+
+export type LiquidationRiskLevel = 'ok' | 'warn' | 'topUp' | 'trim';
+
+// Distances from mark to liquidation as fractions of mark, widest first
+export interface LiquidationThresholds {
+  warnDistance: number;
+  topUpDistance: number;
+  trimDistance: number;
+  trimFraction: number;   // Share of the position bought back at the trim level
+  trimCooldownMs: number; // How long the short may not grow again after a trim
+}
+
+// What the guard needs from the exchange - implemented by HyperliquidClient
+export interface LiquidationGuardExchange {
+  updateIsolatedMargin(coin: string, amountUsd: number): Promise<void>;
+  reduceShortPosition(
+    coin: string,
+    sizeCoin: number,
+    clientOrderKey?: string
+  ): Promise<HyperliquidOrderResponse>;
+}
+
+// Keeps the time of the last trim across restarts - backed by IntentStore
+export interface TrimCooldownStore {
+  load(): number | null;
+  save(trimmedAt: number): void;
+}
+
+/**
+ * Distance from mark to liquidation as a fraction of mark, null when the position
+ * has no liquidation price
+ */
+export function calculateLiquidationDistance(position: HyperliquidPosition): number | null {
+  if (!(position.liquidationPrice > 0) || !(position.markPrice > 0)) {
+    return null;
+  }
+
+  const distance = position.side === 'SHORT'
+    ? position.liquidationPrice - position.markPrice
+    : position.markPrice - position.liquidationPrice;
+  return distance / position.markPrice;
+}
+
+/**
+ * Which level of the guard a liquidation distance has reached
+ */
+export function getLiquidationRiskLevel(
+  distance: number,
+  thresholds: LiquidationThresholds
+): LiquidationRiskLevel {
+  if (distance <= thresholds.trimDistance) return 'trim';
+  if (distance <= thresholds.topUpDistance) return 'topUp';
+  if (distance <= thresholds.warnDistance) return 'warn';
+  return 'ok';
+}
+
+/**
+ * Isolated margin that moves the liquidation price out to a target distance from mark.
+ * Each dollar of margin moves the liquidation price by 1 / size.
+ */
+export function calculateTopUpMargin(
+  position: HyperliquidPosition,
+  targetDistance: number
+): number {
+  const targetPrice = position.side === 'SHORT'
+    ? position.markPrice * (1 + targetDistance)
+    : position.markPrice * (1 - targetDistance);
+  const move = position.side === 'SHORT'
+    ? targetPrice - position.liquidationPrice
+    : position.liquidationPrice - targetPrice;
+
+  return Math.max(move, 0) * Math.abs(position.sizeCoin);
+}
+
+/**
+ * Guards the hedge against liquidation.
+ *
+ * Every cycle the distance from mark to liquidation is compared against three
+ * levels: past the first it warns, past the second it tops up isolated margin
+ * from the account's withdrawable balance, and past the last it buys back part
+ * of the short. Increasing the short is refused from the top-up level on, and
+ * for a cooldown after a trim so the next cycle does not sell the trimmed size
+ * straight back while the hedge target is unchanged. With a cooldown store the
+ * cooldown outlasts restarts.
+ */
+export class LiquidationGuard {
+  private exchange: LiquidationGuardExchange;
+  private thresholds: LiquidationThresholds;
+  private cooldownStore: TrimCooldownStore | null;
+  private lastTrimAt: number | null;
+
+  constructor(
+    exchange: LiquidationGuardExchange,
+    thresholds: LiquidationThresholds,
+    cooldownStore: TrimCooldownStore | null = null
+  ) {
+    this.exchange = exchange;
+    this.thresholds = thresholds;
+    this.cooldownStore = cooldownStore;
+    this.lastTrimAt = cooldownStore?.load() ?? null;
+  }
+
+  /**
+   * Risk level of a position, 'ok' without a position or liquidation price
+   */
+  getRiskLevel(position: HyperliquidPosition | null): LiquidationRiskLevel {
+    const distance = position ? calculateLiquidationDistance(position) : null;
+    return distance === null ? 'ok' : getLiquidationRiskLevel(distance, this.thresholds);
+  }
+
+  /**
+   * Time left before the short may grow again after a trim, 0 when not cooling down
+   */
+  getTrimCooldownRemaining(): number {
+    if (this.lastTrimAt === null) {
+      return 0;
+    }
+    return Math.max(this.lastTrimAt + this.thresholds.trimCooldownMs - Date.now(), 0);
+  }
+
+  /**
+   * Whether the short may grow - not once margin is being topped up or the hedge
+   * trimmed, nor while a trim is cooling down
+   */
+  allowsIncrease(position: HyperliquidPosition | null): boolean {
+    const level = this.getRiskLevel(position);
+    return (level === 'ok' || level === 'warn') && this.getTrimCooldownRemaining() === 0;
+  }
+
+  /**
+   * Check a position and act on its risk level
+   * @param cycleId Check cycle the trim order's client order ID is derived from
+   * @param withdrawable Withdrawable balance of the cycle's account read, null when unknown
+   * @returns The action taken, null while the position is safe
+   */
+  async check(
+    position: HyperliquidPosition | null,
+    cycleId: string = Date.now().toString(),
+    withdrawable: number | null = null
+  ): Promise<ExecutionResult | null> {
+    const distance = position ? calculateLiquidationDistance(position) : null;
+    if (!position || distance === null) {
+      return null;
+    }
+
+    const level = getLiquidationRiskLevel(distance, this.thresholds);
+    const summary = `${position.coin} mark ${position.markPrice} is ` +
+      `${(distance * 100).toFixed(2)}% from liquidation at ${position.liquidationPrice}`;
+
+    switch (level) {
+      case 'ok':
+        return null;
+
+      case 'warn':
+        logger.warn(summary);
+        return this.result(HedgingAction.LIQUIDATION_WARNING, true, summary);
+
+      case 'topUp':
+        logger.warn(`${summary}, topping up margin`);
+        return this.topUp(position, summary, withdrawable);
+
+      case 'trim':
+        logger.critical(`${summary}, trimming the hedge`);
+        return this.trim(position, summary, `${cycleId}:${position.coin}:trim`);
+    }
+  }
+
+  private async topUp(
+    position: HyperliquidPosition,
+    summary: string,
+    withdrawable: number | null
+  ): Promise<ExecutionResult> {
+    if (position.marginMode !== 'isolated') {
+      // Cross positions already draw on the whole account
+      return this.result(HedgingAction.LIQUIDATION_WARNING, true, `${summary} (cross margin)`);
+    }
+    if (withdrawable === null) {
+      const error = `${summary}, but the withdrawable balance is unknown`;
+      return this.result(HedgingAction.MARGIN_TOP_UP, false, undefined, error);
+    }
+
+    try {
+      const needed = calculateTopUpMargin(position, this.thresholds.warnDistance);
+      const amount = Math.min(needed, withdrawable);
+
+      if (amount < MIN_MARGIN_ADJUSTMENT_USD) {
+        const error = `${summary}, but only ${withdrawable.toFixed(2)} USD is withdrawable`;
+        return this.result(HedgingAction.MARGIN_TOP_UP, false, undefined, error);
+      }
+
+      await this.exchange.updateIsolatedMargin(position.coin, amount);
+      const partial = amount < needed ? ` of ${needed.toFixed(2)} USD needed` : '';
+      return this.result(
+        HedgingAction.MARGIN_TOP_UP,
+        true,
+        `${summary}. Added ${amount.toFixed(2)} USD margin${partial}`
+      );
+    } catch (error) {
+      return this.result(HedgingAction.MARGIN_TOP_UP, false, undefined, (error as Error).message);
+    }
+  }
+
+  private async trim(
+    position: HyperliquidPosition,
+    summary: string,
+    clientOrderKey: string
+  ): Promise<ExecutionResult> {
+    if (position.side !== 'SHORT') {
+      const error = `${summary}, not a short hedge`;
+      return this.result(HedgingAction.TRIM_HEDGE, false, undefined, error);
+    }
+
+    const positionSize = Math.abs(position.sizeCoin);
+    let sizeCoin = positionSize * this.thresholds.trimFraction;
+    // A trim too small to place takes the whole position instead
+    if (sizeCoin * position.markPrice < MIN_ORDER_NOTIONAL_USD) {
+      sizeCoin = positionSize;
+    }
+
+    const response = await this.exchange.reduceShortPosition(
+      position.coin,
+      sizeCoin,
+      clientOrderKey
+    );
+    if (response.status !== 'success') {
+      return this.result(HedgingAction.TRIM_HEDGE, false, undefined, response.error);
+    }
+
+    this.lastTrimAt = Date.now();
+    this.cooldownStore?.save(this.lastTrimAt);
+    const filled = response.filledSizeCoin ?? sizeCoin;
+    return {
+      ...this.result(
+        HedgingAction.TRIM_HEDGE,
+        true,
+        `${summary}. Bought back ${filled} of ${positionSize} ${position.coin}`
+      ),
+      slippage: response.slippage ?? null,
+      filledSizeCoin: response.filledSizeCoin,
+      feeUsd: response.feeUsd,
+    };
+  }
+
+  private result(
+    action: HedgingAction,
+    success: boolean,
+    details?: string,
+    error?: string
+  ): ExecutionResult {
+    return { success, action, details, error, timestamp: Date.now(), slippage: null };
+  }
+}
+
+export default LiquidationGuard;
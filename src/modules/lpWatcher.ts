@@ -1,16 +1,46 @@
-import { createPublicClient, http, getContract, parseAbi } from 'viem';
+import {
+  createPublicClient,
+  getContract,
+  parseAbi,
+  numberToHex,
+  hexToBigInt,
+  hexToNumber,
+  ContractFunctionConfig,
+} from 'viem';
 import { arbitrum } from 'viem/chains';
 import config from '../config';
 import logger from '../logger';
-import { LPPosition, UniswapV3Position } from '../types';
-import { formatTokenAmount, calculateUsdValue } from '../utils/calculations';
+import {
+  LPPosition,
+  UniswapV3Position,
+  UniswapV3PoolState,
+  BlockSnapshot,
+  LogSource,
+  PoolConfig,
+} from '../types';
+import { formatTokenAmount, calculateUsdValue, identifyVolatileToken } from '../utils/calculations';
 import { createContractError } from '../utils/errorHandler';
+import {
+  getAmountsForLiquidity,
+  getFeeGrowthInside,
+  getUncollectedFees,
+  getArithmeticMeanTick,
+  tickToPrice,
+} from '../utils/uniswapMath';
+import { computePoolAddress } from '../utils/poolAddress';
+import { PositionIndex } from './positionIndex';
+import { RpcEndpointPool } from './rpcPool';
 
 // ABIs - Simplified for demonstration
 const IUniswapV3PoolABI = parseAbi([
   'function token0() external view returns (address)',
   'function token1() external view returns (address)',
+  'function fee() external view returns (uint24)',
   'function slot0() external view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+  'function feeGrowthGlobal0X128() external view returns (uint256)',
+  'function feeGrowthGlobal1X128() external view returns (uint256)',
+  'function observe(uint32[] secondsAgos) external view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)',
+  'function ticks(int24 tick) external view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)',
 ]);
 
 const ERC20ABI = parseAbi([
@@ -25,14 +55,94 @@ const NonfungiblePositionManagerABI = parseAbi([
   'function tokenOfOwnerByIndex(address owner, uint256 index) external view returns (uint256)',
 ]);
 
+// Raw slot0() and ticks() return tuples
+type SlotZero = readonly [bigint, number, number, number, number, number, boolean];
+type TickInfo = readonly [bigint, bigint, bigint, bigint, bigint, bigint, number, boolean];
+
 // Address of the Uniswap V3 Position Manager NFT contract on Arbitrum
 const POSITION_MANAGER_ADDRESS = '0xC36442b4a4522E871399CD717aBDD847Ab11FE88';
 
+/**
+ * RPC endpoint pool built from the configured Arbitrum RPC URLs
+ */
+export function createRpcPool(): RpcEndpointPool {
+  return new RpcEndpointPool(config.rpcUrls, {
+    timeoutMs: config.rpcTimeoutMs,
+    demotionMs: config.rpcDemotionMs,
+    maxBlockLag: config.rpcMaxBlockLag,
+  });
+}
+
+/**
+ * Adapt an RPC client on the pool to the log source used by the position index
+ */
+function createLogSource(rpcPool: RpcEndpointPool): LogSource {
+  const client = createPublicClient({
+    chain: arbitrum,
+    transport: rpcPool.transport()
+  });
+  
+  return {
+    getBlockNumber: () => client.getBlockNumber(),
+    getLogs: async (filter) => {
+      const logs = await client.request({
+        method: 'eth_getLogs',
+        params: [{
+          address: filter.address,
+          topics: filter.topics,
+          fromBlock: numberToHex(filter.fromBlock),
+          toBlock: numberToHex(filter.toBlock),
+        }],
+      });
+      
+      return logs
+        .filter(log => log.blockNumber !== null && log.logIndex !== null)
+        .map(log => ({
+          address: log.address,
+          topics: log.topics,
+          data: log.data,
+          blockNumber: hexToBigInt(log.blockNumber as `0x${string}`),
+          logIndex: hexToNumber(log.logIndex as `0x${string}`),
+        }));
+    },
+  };
+}
+
+/**
+ * Event-driven index of the wallet's positions, shared by the watchers of every pool.
+ * Null when LP_INDEX_ENABLED is off.
+ */
+export function createPositionIndex(
+  rpcPool: RpcEndpointPool,
+  pools: PoolConfig[] = config.pools
+): PositionIndex | null {
+  if (!config.lpIndexEnabled) {
+    return null;
+  }
+  
+  return new PositionIndex(createLogSource(rpcPool), {
+    positionManagerAddress: POSITION_MANAGER_ADDRESS,
+    poolAddresses: pools.map(pool => pool.address),
+    owner: config.walletAddress as `0x${string}`,
+    startBlock: BigInt(config.lpIndexStartBlock),
+    blockRange: BigInt(config.lpIndexBlockRange),
+    swapMoveThreshold: config.swapTriggerThreshold,
+  });
+}
+
+/**
+ * A position with no liquidity and nothing left to collect
+ */
+function isClosedPosition(position: UniswapV3Position): boolean {
+  return position.liquidity === 0n && position.tokensOwed0 === 0n && position.tokensOwed1 === 0n;
+}
+
 /**
  * Class for monitoring Uniswap V3 LP positions
  */
 export class LPWatcher {
   private client;
+  private pool: PoolConfig;
   private poolAddress: `0x${string}`;
   private positionManagerContract;
   private token0Address: `0x${string}` | null = null;
@@ -41,15 +151,37 @@ export class LPWatcher {
   private token1Symbol: string | null = null;
   private token0Decimals: number | null = null;
   private token1Decimals: number | null = null;
+  private volatileTokenIndex: 0 | 1 | null = null;
+  
+  // Last positions() read per token ID - null for NFTs in another pool
+  private positionCache = new Map<bigint, UniswapV3Position | null>();
+  
+  // Without the event index closed positions are only re-read now and then
+  private readsSinceClosedRecheck = 0;
+  private lastNftBalance: number | null = null;
   
-  constructor() {
-    // Ensure the pool address is in the correct format
-    this.poolAddress = config.uniswapPool as `0x${string}`;
+  // Event-driven position tracking, enabled with LP_INDEX_ENABLED
+  private positionIndex: PositionIndex | null;
+  private sharpMoveHandler: (() => void) | null = null;
+  
+  /**
+   * @param pool Pool to watch
+   * @param rpcPool RPC endpoints to read through - share one pool across watchers
+   * @param positionIndex Event index of the wallet's positions - share one across watchers
+   */
+  constructor(
+    pool: PoolConfig = config.pools[0],
+    rpcPool: RpcEndpointPool = createRpcPool(),
+    positionIndex: PositionIndex | null = null
+  ) {
+    this.pool = pool;
+    this.poolAddress = pool.address;
+    this.positionIndex = positionIndex;
     
-    // Create Viem client for Arbitrum
+    // Create Viem client for Arbitrum, failing over between the configured RPC endpoints
     this.client = createPublicClient({
       chain: arbitrum,
-      transport: http(config.rpc)
+      transport: rpcPool.transport()
     });
     
     // Create contract instance for position manager
@@ -58,6 +190,19 @@ export class LPWatcher {
       abi: NonfungiblePositionManagerABI,
       publicClient: this.client,
     });
+    
+    this.positionIndex?.onSharpMove((_move, _sqrtPriceX96, _blockNumber, poolAddress) => {
+      if (poolAddress.toLowerCase() === this.poolAddress.toLowerCase()) {
+        this.sharpMoveHandler?.();
+      }
+    });
+  }
+  
+  /**
+   * The pool this watcher tracks
+   */
+  getPool(): PoolConfig {
+    return this.pool;
   }
   
   /**
@@ -67,40 +212,62 @@ export class LPWatcher {
     try {
       logger.info(`Initializing LP Watcher for pool: ${this.poolAddress}`);
       
-      // Create contract instance for the pool
-      const poolContract = getContract({
-        address: this.poolAddress,
-        abi: IUniswapV3PoolABI,
-        publicClient: this.client,
+      // Pool immutables in one Multicall3 round trip
+      const [token0Address, token1Address, fee] = await this.client.multicall({
+        contracts: [
+          { address: this.poolAddress, abi: IUniswapV3PoolABI, functionName: 'token0' },
+          { address: this.poolAddress, abi: IUniswapV3PoolABI, functionName: 'token1' },
+          { address: this.poolAddress, abi: IUniswapV3PoolABI, functionName: 'fee' },
+        ],
+        allowFailure: false,
       });
-      
-      // Get token addresses
-      this.token0Address = await poolContract.read.token0() as `0x${string}`;
-      this.token1Address = await poolContract.read.token1() as `0x${string}`;
+      this.token0Address = token0Address;
+      this.token1Address = token1Address;
       
       logger.debug(`Pool tokens: ${this.token0Address} / ${this.token1Address}`);
       
-      // Get token info for token0
-      const token0Contract = getContract({
-        address: this.token0Address,
-        abi: ERC20ABI,
-        publicClient: this.client,
-      });
-      
-      this.token0Symbol = await token0Contract.read.symbol();
-      this.token0Decimals = await token0Contract.read.decimals();
+      // Positions are matched by derived pool address, so the configured pool
+      // must be the canonical factory deployment for its tokens and fee
+      const derivedPoolAddress = computePoolAddress(this.token0Address, this.token1Address, fee);
+      if (derivedPoolAddress.toLowerCase() !== this.poolAddress.toLowerCase()) {
+        throw new Error(
+          `Pool ${this.poolAddress} is not the Uniswap V3 factory pool for fee ${fee} ` +
+          `(expected ${derivedPoolAddress})`
+        );
+      }
       
-      // Get token info for token1
-      const token1Contract = getContract({
-        address: this.token1Address,
-        abi: ERC20ABI,
-        publicClient: this.client,
-      });
+      // Token metadata for both tokens in a second round trip
+      const [token0Symbol, token0Decimals, token1Symbol, token1Decimals] =
+        await this.client.multicall({
+          contracts: [
+            { address: this.token0Address, abi: ERC20ABI, functionName: 'symbol' },
+            { address: this.token0Address, abi: ERC20ABI, functionName: 'decimals' },
+            { address: this.token1Address, abi: ERC20ABI, functionName: 'symbol' },
+            { address: this.token1Address, abi: ERC20ABI, functionName: 'decimals' },
+          ],
+          allowFailure: false,
+        });
+      this.token0Symbol = token0Symbol;
+      this.token0Decimals = token0Decimals;
+      this.token1Symbol = token1Symbol;
+      this.token1Decimals = token1Decimals;
       
-      this.token1Symbol = await token1Contract.read.symbol();
-      this.token1Decimals = await token1Contract.read.decimals();
+      // Token order follows address sort, so find out which side is the hedged asset
+      this.volatileTokenIndex = identifyVolatileToken(
+        { address: this.token0Address, symbol: this.token0Symbol },
+        { address: this.token1Address, symbol: this.token1Symbol },
+        this.pool.pairTicker,
+        this.pool.hedgeTokenAddress
+      );
       
+      const volatileSymbol = this.volatileTokenIndex === 0 ? this.token0Symbol : this.token1Symbol;
       logger.info(`Pool initialized: ${this.token0Symbol}/${this.token1Symbol}`);
+      logger.info(`Hedged asset: ${volatileSymbol} (token${this.volatileTokenIndex})`);
+      
+      // Replay ownership once - afterwards the index is kept current from events
+      if (this.positionIndex && !this.positionIndex.isReady()) {
+        await this.positionIndex.rebuild();
+      }
     } catch (error) {
       logger.error(`Failed to initialize LP Watcher: ${error}`);
       throw createContractError(
@@ -111,45 +278,212 @@ export class LPWatcher {
     }
   }
   
+  /**
+   * Pick the block a check cycle reads all LP state at. With the event index it is the
+   * block the index was just synced to, so owned NFTs and reads agree.
+   */
+  async getSnapshotBlock(): Promise<BlockSnapshot> {
+    try {
+      let block;
+      if (this.positionIndex?.isReady()) {
+        await this.positionIndex.sync();
+        const blockNumber = this.positionIndex.getLastSyncedBlock() as bigint;
+        block = await this.client.getBlock({ blockNumber });
+      } else {
+        block = await this.client.getBlock({ blockTag: 'latest' });
+      }
+      
+      return {
+        blockNumber: block.number as bigint,
+        timestamp: Number(block.timestamp) * 1000,
+      };
+    } catch (error) {
+      logger.error(`Failed to get snapshot block: ${error}`);
+      throw createContractError(
+        'Failed to get snapshot block',
+        { rpc: config.rpc },
+        error as Error
+      );
+    }
+  }
+  
+  /**
+   * Start polling pool and position events between check cycles
+   * @param onSharpMove Called when a swap moves the pool price past the trigger threshold
+   */
+  startEventWatch(onSharpMove: () => void): void {
+    if (!this.positionIndex || this.sharpMoveHandler) {
+      return;
+    }
+    
+    this.sharpMoveHandler = onSharpMove;
+    // The shared index polls once for all watchers
+    this.positionIndex.startPolling(config.eventPollIntervalMs);
+    
+    logger.info(
+      `Watching LP events of pool ${this.poolAddress} every ` +
+      `${config.eventPollIntervalMs / 1000} seconds`
+    );
+  }
+  
+  /**
+   * Stop polling events
+   */
+  stopEventWatch(): void {
+    this.positionIndex?.stopPolling();
+    this.sharpMoveHandler = null;
+  }
+  
+  /**
+   * Enumerate the wallet's NFTs on-chain
+   */
+  private async enumerateTokenIds(
+    walletAddress: `0x${string}`,
+    blockNumber?: bigint
+  ): Promise<readonly bigint[]> {
+    // Get NFT balance for the wallet
+    const balance = await this.positionManagerContract.read.balanceOf(
+      [walletAddress],
+      { blockNumber }
+    );
+    
+    // Enumerate every token ID in a single multicall
+    return this.client.multicall({
+      contracts: Array.from({ length: Number(balance) }, (_, i) => ({
+        address: POSITION_MANAGER_ADDRESS as `0x${string}`,
+        abi: NonfungiblePositionManagerABI,
+        functionName: 'tokenOfOwnerByIndex' as const,
+        args: [walletAddress, BigInt(i)] as const,
+      })),
+      allowFailure: false,
+      blockNumber,
+    });
+  }
+  
+  /**
+   * Whether the event index already holds events after the given block
+   */
+  private isIndexPastBlock(blockNumber?: bigint): boolean {
+    const lastSyncedBlock = this.positionIndex?.getLastSyncedBlock();
+    return blockNumber !== undefined && lastSyncedBlock != null && lastSyncedBlock > blockNumber;
+  }
+  
+  /**
+   * Whether a position's positions() struct has to be read again
+   * @param recheckClosed Re-read positions cached as closed, liquidity may have been added back
+   */
+  private needsRead(tokenId: bigint, recheckClosed: boolean): boolean {
+    const cached = this.positionCache.get(tokenId);
+    
+    if (cached === undefined) {
+      return true;
+    }
+    
+    // An NFT's pool never changes
+    if (cached === null) {
+      return false;
+    }
+    
+    // With the event index only changed positions are re-read
+    if (this.positionIndex?.isReady()) {
+      return this.positionIndex.isDirty(tokenId);
+    }
+    
+    return recheckClosed || !isClosedPosition(cached);
+  }
+  
+  /**
+   * Whether closed positions are due for a re-read: every few reads, and whenever
+   * the wallet's NFT count changes
+   */
+  private isClosedRecheckDue(nftBalance: number): boolean {
+    const balanceChanged = this.lastNftBalance !== null && nftBalance !== this.lastNftBalance;
+    this.lastNftBalance = nftBalance;
+    
+    this.readsSinceClosedRecheck++;
+    if (balanceChanged || this.readsSinceClosedRecheck >= config.lpClosedRecheckCycles) {
+      this.readsSinceClosedRecheck = 0;
+      return true;
+    }
+    return false;
+  }
+  
   /**
    * Get positions held by the wallet
+   * @param blockNumber Block to read at - latest when omitted
    */
-  async getWalletPositions(): Promise<UniswapV3Position[]> {
+  async getWalletPositions(blockNumber?: bigint): Promise<UniswapV3Position[]> {
     try {
       // Convert wallet address to proper format
       const walletAddress = config.walletAddress as `0x${string}`;
       
-      // Get NFT balance for the wallet
-      const balance = await this.positionManagerContract.read.balanceOf([walletAddress]);
+      let tokenIds: readonly bigint[];
+      let recheckClosed = false;
+      if (this.positionIndex?.isReady() && !this.isIndexPastBlock(blockNumber)) {
+        await this.positionIndex.sync(blockNumber);
+        tokenIds = this.positionIndex.getOwnedTokenIds();
+      } else if (this.positionIndex?.isReady()) {
+        // The event poller synced past the snapshot, ownership has to come from the chain
+        tokenIds = await this.enumerateTokenIds(walletAddress, blockNumber);
+      } else {
+        tokenIds = await this.enumerateTokenIds(walletAddress, blockNumber);
+        recheckClosed = this.isClosedRecheckDue(tokenIds.length);
+      }
       
-      const positions: UniswapV3Position[] = [];
+      const idsToRead = tokenIds.filter(tokenId => this.needsRead(tokenId, recheckClosed));
       
-      // For each position NFT, get its details
-      for (let i = 0; i < Number(balance); i++) {
-        // Get token ID
-        const tokenId = await this.positionManagerContract.read.tokenOfOwnerByIndex([
-          walletAddress,
-          BigInt(i)
-        ]);
-        
-        // Get position details
-        const position = await this.positionManagerContract.read.positions([tokenId]);
+      if (idsToRead.length > 0) {
+        // Read all changed positions in one multicall
+        const positionResults = await this.client.multicall({
+          contracts: idsToRead.map(tokenId => ({
+            address: POSITION_MANAGER_ADDRESS as `0x${string}`,
+            abi: NonfungiblePositionManagerABI,
+            functionName: 'positions' as const,
+            args: [tokenId] as const,
+          })),
+          allowFailure: false,
+          blockNumber,
+        });
         
-        // Only add positions in our target pool
-        const positionPoolAddress = this.getPoolAddressFromTokens(
-          position[2], // token0
-          position[3], // token1
-          BigInt(position[4])  // fee, convert to bigint
-        );
-        
-        if (positionPoolAddress.toLowerCase() === this.poolAddress.toLowerCase()) {
-          positions.push({
+        idsToRead.forEach((tokenId, i) => {
+          const position = positionResults[i];
+          
+          // Only keep positions in our target pool - fee tier included
+          const positionPoolAddress = computePoolAddress(
+            position[2], // token0
+            position[3], // token1
+            position[4]  // fee
+          );
+          
+          if (positionPoolAddress.toLowerCase() !== this.poolAddress.toLowerCase()) {
+            this.positionCache.set(tokenId, null);
+            return;
+          }
+          
+          this.positionCache.set(tokenId, {
             id: Number(tokenId),
             poolAddress: positionPoolAddress,
             tickLower: Number(position[5]),
             tickUpper: Number(position[6]),
-            liquidity: position[7]
+            liquidity: position[7],
+            feeGrowthInside0LastX128: position[8],
+            feeGrowthInside1LastX128: position[9],
+            tokensOwed0: position[10],
+            tokensOwed1: position[11]
           });
+        });
+        
+        const readAtBlock = blockNumber ?? this.positionIndex?.getLastSyncedBlock();
+        if (this.positionIndex && readAtBlock != null) {
+          this.positionIndex.markClean(idsToRead, readAtBlock);
+        }
+      }
+      
+      const positions: UniswapV3Position[] = [];
+      for (const tokenId of tokenIds) {
+        const position = this.positionCache.get(tokenId);
+        if (position && !isClosedPosition(position)) {
+          positions.push(position);
         }
       }
       
@@ -164,75 +498,201 @@ export class LPWatcher {
     }
   }
   
+  /**
+   * Read slot0, global fee growth and the given ticks in one multicall
+   */
+  async getPoolState(tickIndexes: number[], blockNumber?: bigint): Promise<UniswapV3PoolState> {
+    try {
+      const uniqueTicks = [...new Set(tickIndexes)];
+      
+      const contracts: ContractFunctionConfig<typeof IUniswapV3PoolABI>[] = [
+        { address: this.poolAddress, abi: IUniswapV3PoolABI, functionName: 'slot0' },
+        { address: this.poolAddress, abi: IUniswapV3PoolABI, functionName: 'feeGrowthGlobal0X128' },
+        { address: this.poolAddress, abi: IUniswapV3PoolABI, functionName: 'feeGrowthGlobal1X128' },
+        ...uniqueTicks.map(tick => ({
+          address: this.poolAddress,
+          abi: IUniswapV3PoolABI,
+          functionName: 'ticks' as const,
+          args: [tick] as const,
+        })),
+      ];
+      
+      const [slot0, feeGrowthGlobal0X128, feeGrowthGlobal1X128, ...tickResults] =
+        await this.client.multicall({ contracts, allowFailure: false, blockNumber }) as
+          [SlotZero, bigint, bigint, ...TickInfo[]];
+      
+      const ticks: UniswapV3PoolState['ticks'] = new Map();
+      uniqueTicks.forEach((tick, i) => {
+        ticks.set(tick, {
+          feeGrowthOutside0X128: tickResults[i][2],
+          feeGrowthOutside1X128: tickResults[i][3],
+        });
+      });
+      
+      return {
+        sqrtPriceX96: slot0[0],
+        tick: Number(slot0[1]),
+        feeGrowthGlobal0X128,
+        feeGrowthGlobal1X128,
+        ticks,
+      };
+    } catch (error) {
+      logger.error(`Failed to get pool state: ${error}`);
+      throw createContractError(
+        'Failed to get pool state',
+        { poolAddress: this.poolAddress },
+        error as Error
+      );
+    }
+  }
+  
+  /**
+   * Time-weighted price of the hedged token from the pool oracle, quoted in the other token
+   * The other side is taken as $1, the same way exposures are valued.
+   * @param windowSeconds TWAP window - the pool must hold observations that far back
+   * @param blockNumber Block to read at - latest when omitted
+   */
+  async getTwapPrice(
+    windowSeconds: number = config.twapWindowSeconds,
+    blockNumber?: bigint
+  ): Promise<number> {
+    try {
+      if (this.token0Decimals === null || this.token1Decimals === null ||
+          this.volatileTokenIndex === null) {
+        await this.initialize();
+      }
+      
+      const [tickCumulatives] = await this.client.readContract({
+        address: this.poolAddress,
+        abi: IUniswapV3PoolABI,
+        functionName: 'observe',
+        args: [[windowSeconds, 0]],
+        blockNumber,
+      });
+      
+      const meanTick = getArithmeticMeanTick(tickCumulatives[0], tickCumulatives[1], windowSeconds);
+      const token0Price =
+        tickToPrice(meanTick, this.token0Decimals ?? 18, this.token1Decimals ?? 6);
+      
+      return this.volatileTokenIndex === 1 ? 1 / token0Price : token0Price;
+    } catch (error) {
+      logger.error(`Failed to get pool TWAP: ${error}`);
+      throw createContractError(
+        'Failed to get pool TWAP',
+        { poolAddress: this.poolAddress, windowSeconds },
+        error as Error
+      );
+    }
+  }
+  
   /**
    * Calculate amounts of tokens in LP position
-   * This is a simplified calculation and may not be perfectly accurate
+   * Uses the exact Uniswap V3 liquidity math, so out-of-range positions
+   * resolve to a single token instead of zero. Uncollected fees are derived
+   * from the pool's fee growth accumulators the same way the pool does on burn.
+   * Pass a pool state read for several positions to avoid re-reading the pool.
    */
   async getLPPositionDetails(
     position: UniswapV3Position,
-    tokenPrice: number
+    tokenPrice: number,
+    poolState?: UniswapV3PoolState
   ): Promise<LPPosition> {
     try {
       if (!this.token0Address || !this.token1Address || 
           !this.token0Symbol || !this.token1Symbol ||
-          this.token0Decimals === null || this.token1Decimals === null) {
+          this.token0Decimals === null || this.token1Decimals === null ||
+          this.volatileTokenIndex === null) {
         await this.initialize();
       }
       
-      // Create pool contract instance
-      const poolContract = getContract({
-        address: this.poolAddress,
-        abi: IUniswapV3PoolABI,
-        publicClient: this.client,
-      });
-      
-      // Get current tick
-      const slot0 = await poolContract.read.slot0();
-      const currentTick = Number(slot0[1]);
-      
-      // Basic calculation of token amounts in position
-      // For a precise calculation, use Uniswap SDK or subgraph
-      // This is an approximation
-      let token0Amount = 0n;
-      let token1Amount = 0n;
-      
-      // If position is in range
-      if (position.tickLower <= currentTick && currentTick <= position.tickUpper) {
-        // Calculate approximate amounts based on liquidity
-        // This is not precise but gives a rough estimate
-        const sqrtPriceX96 = slot0[0];
-        
-        // This is a simplification and not accurate for all cases
-        const liquidity = position.liquidity;
-        const decimals0 = this.token0Decimals ?? 18; // Default to 18 if null
-        const decimals1 = this.token1Decimals ?? 6;  // Default to 6 if null
-        token0Amount = (liquidity * 10n ** BigInt(decimals0)) / sqrtPriceX96;
-        token1Amount = (liquidity * sqrtPriceX96) / 10n ** BigInt(decimals1);
+      // Current pool price drives the split between token0 and token1
+      const state = poolState ?? await this.getPoolState([position.tickLower, position.tickUpper]);
+      const lowerTick = state.ticks.get(position.tickLower);
+      const upperTick = state.ticks.get(position.tickUpper);
+      if (!lowerTick || !upperTick) {
+        throw new Error(`Pool state is missing ticks for position ${position.id}`);
       }
+      const { sqrtPriceX96, tick: currentTick, feeGrowthGlobal0X128, feeGrowthGlobal1X128 } = state;
+      
+      const { amount0: token0Amount, amount1: token1Amount } = getAmountsForLiquidity(
+        sqrtPriceX96,
+        position.tickLower,
+        position.tickUpper,
+        position.liquidity
+      );
+      
+      // Fees earned since the last checkpoint plus fees already owed to the position
+      const feeGrowthInside0X128 = getFeeGrowthInside(
+        currentTick,
+        position.tickLower,
+        position.tickUpper,
+        feeGrowthGlobal0X128,
+        lowerTick.feeGrowthOutside0X128,
+        upperTick.feeGrowthOutside0X128
+      );
+      const feeGrowthInside1X128 = getFeeGrowthInside(
+        currentTick,
+        position.tickLower,
+        position.tickUpper,
+        feeGrowthGlobal1X128,
+        lowerTick.feeGrowthOutside1X128,
+        upperTick.feeGrowthOutside1X128
+      );
+      const token0FeesAmount = getUncollectedFees(
+        position.liquidity,
+        feeGrowthInside0X128,
+        position.feeGrowthInside0LastX128,
+        position.tokensOwed0
+      );
+      const token1FeesAmount = getUncollectedFees(
+        position.liquidity,
+        feeGrowthInside1X128,
+        position.feeGrowthInside1LastX128,
+        position.tokensOwed1
+      );
       
       // Convert to number using proper decimals
       const token0Formatted = formatTokenAmount(token0Amount, this.token0Decimals ?? 18);
       const token1Formatted = formatTokenAmount(token1Amount, this.token1Decimals ?? 6);
       
-      // Calculate USD values
-      // Assuming token0 is PENDLE and token1 is USDT (or stable)
-      const token0Exposure = calculateUsdValue(token0Formatted, tokenPrice);
-      const token1Exposure = token1Formatted; // Assuming USDT has 1:1 USD value
+      // Calculate USD values - the volatile token at the hedge price, the other at $1
+      const volatileIndex = this.volatileTokenIndex ?? 0;
+      const token0Price = volatileIndex === 0 ? tokenPrice : 1;
+      const token1Price = volatileIndex === 1 ? tokenPrice : 1;
+      
+      const token0FeesExposure = calculateUsdValue(
+        formatTokenAmount(token0FeesAmount, this.token0Decimals ?? 18),
+        token0Price
+      );
+      const token1FeesExposure = calculateUsdValue(
+        formatTokenAmount(token1FeesAmount, this.token1Decimals ?? 6),
+        token1Price
+      );
+      
+      let token0Exposure = calculateUsdValue(token0Formatted, token0Price);
+      let token1Exposure = calculateUsdValue(token1Formatted, token1Price);
+      
+      // Optionally treat uncollected fees as inventory so accrued PENDLE gets hedged too
+      if (config.hedgeUncollectedFees) {
+        token0Exposure += token0FeesExposure;
+        token1Exposure += token1FeesExposure;
+      }
       
       const totalValueUSD = token0Exposure + token1Exposure;
       
       return {
+        ...this.getEmptyPosition(),
         liquidityAmount: position.liquidity,
         token0Amount,
         token1Amount,
-        token0Address: this.token0Address || '' as `0x${string}`,
-        token1Address: this.token1Address || '' as `0x${string}`,
-        token0Symbol: this.token0Symbol || '',
-        token1Symbol: this.token1Symbol || '',
-        token0Decimals: this.token0Decimals ?? 18,
-        token1Decimals: this.token1Decimals ?? 6,
         token0Exposure,
         token1Exposure,
+        token0FeesAmount,
+        token1FeesAmount,
+        token0FeesExposure,
+        token1FeesExposure,
+        volatileExposure: volatileIndex === 0 ? token0Exposure : token1Exposure,
+        stableExposure: volatileIndex === 0 ? token1Exposure : token0Exposure,
         totalValueUSD
       };
     } catch (error) {
@@ -247,124 +707,117 @@ export class LPWatcher {
   
   /**
    * Get combined LP position details across all positions
+   * @param blockNumber Block every read is pinned to, so the combined view is consistent
    */
-  async getCombinedLPPosition(tokenPrice: number): Promise<LPPosition> {
+  async getCombinedLPPosition(tokenPrice: number, blockNumber?: bigint): Promise<LPPosition> {
     try {
       // Ensure we're initialized
       if (!this.token0Address || !this.token1Address) {
         await this.initialize();
       }
       
-      const positions = await this.getWalletPositions();
-      
-      // Default empty position
-      const emptyPosition: LPPosition = {
-        liquidityAmount: 0n,
-        token0Amount: 0n,
-        token1Amount: 0n,
-        token0Address: this.token0Address || '' as `0x${string}`,
-        token1Address: this.token1Address || '' as `0x${string}`,
-        token0Symbol: this.token0Symbol || '',
-        token1Symbol: this.token1Symbol || '',
-        token0Decimals: this.token0Decimals !== null ? this.token0Decimals : 18,
-        token1Decimals: this.token1Decimals !== null ? this.token1Decimals : 6,
-        token0Exposure: 0,
-        token1Exposure: 0,
-        totalValueUSD: 0
-      };
+      const positions = await this.getWalletPositions(blockNumber);
+      
+      const emptyPosition = this.getEmptyPosition();
       
       if (positions.length === 0) {
         // Return empty position if no positions found
         return emptyPosition;
       }
       
-      // Get details for each position with error handling
-      const positionDetailsPromises = positions.map(async (pos) => {
-        try {
-          return await this.getLPPositionDetails(pos, tokenPrice);
-        } catch (error) {
-          logger.error(`Failed to get details for position ${pos.id}: ${error}`);
-          // Return an empty position on error to avoid breaking the whole process
-          return emptyPosition;
-        }
-      });
+      // One pool read covers the ticks of every position
+      const poolState = await this.getPoolState(
+        positions.flatMap(pos => [pos.tickLower, pos.tickUpper]),
+        blockNumber
+      );
       
-      const positionDetails = await Promise.all(positionDetailsPromises);
-      const validPositions = positionDetails.filter(pos => pos !== null);
+      // Swaps are measured against the price this cycle saw
+      this.positionIndex?.setReferenceSqrtPrice(this.poolAddress, poolState.sqrtPriceX96);
       
-      if (validPositions.length === 0) {
-        return emptyPosition;
-      }
+      // A position that cannot be valued fails the pool, dropping it would understate exposure
+      const validPositions = await Promise.all(
+        positions.map(pos => this.getLPPositionDetails(pos, tokenPrice, poolState))
+      );
       
       // Combine all positions with safer calculations
       const combined: LPPosition = {
+        ...emptyPosition,
         liquidityAmount: validPositions.reduce((sum, pos) => sum + pos.liquidityAmount, 0n),
         token0Amount: validPositions.reduce((sum, pos) => sum + pos.token0Amount, 0n),
         token1Amount: validPositions.reduce((sum, pos) => sum + pos.token1Amount, 0n),
-        token0Address: this.token0Address || '' as `0x${string}`,
-        token1Address: this.token1Address || '' as `0x${string}`,
-        token0Symbol: this.token0Symbol || '',
-        token1Symbol: this.token1Symbol || '',
-        token0Decimals: this.token0Decimals !== null ? this.token0Decimals : 18,
-        token1Decimals: this.token1Decimals !== null ? this.token1Decimals : 6,
         token0Exposure: validPositions.reduce((sum, pos) => sum + pos.token0Exposure, 0),
         token1Exposure: validPositions.reduce((sum, pos) => sum + pos.token1Exposure, 0),
+        token0FeesAmount: validPositions.reduce((sum, pos) => sum + pos.token0FeesAmount, 0n),
+        token1FeesAmount: validPositions.reduce((sum, pos) => sum + pos.token1FeesAmount, 0n),
+        token0FeesExposure: validPositions.reduce((sum, pos) => sum + pos.token0FeesExposure, 0),
+        token1FeesExposure: validPositions.reduce((sum, pos) => sum + pos.token1FeesExposure, 0),
+        volatileExposure: validPositions.reduce((sum, pos) => sum + pos.volatileExposure, 0),
+        stableExposure: validPositions.reduce((sum, pos) => sum + pos.stableExposure, 0),
         totalValueUSD: validPositions.reduce((sum, pos) => sum + pos.totalValueUSD, 0)
       };
       
       return combined;
     } catch (error) {
       logger.error(`Failed to get combined LP position: ${error}`);
-      // Return empty position on error rather than throwing
-      return {
-        liquidityAmount: 0n,
-        token0Amount: 0n,
-        token1Amount: 0n,
-        token0Address: this.token0Address || '' as `0x${string}`,
-        token1Address: this.token1Address || '' as `0x${string}`,
-        token0Symbol: this.token0Symbol || '',
-        token1Symbol: this.token1Symbol || '',
-        token0Decimals: this.token0Decimals !== null ? this.token0Decimals : 18,
-        token1Decimals: this.token1Decimals !== null ? this.token1Decimals : 6,
-        token0Exposure: 0,
-        token1Exposure: 0,
-        totalValueUSD: 0
-      };
+      throw createContractError(
+        'Failed to get combined LP position',
+        { poolAddress: this.poolAddress },
+        error as Error
+      );
     }
   }
   
   /**
-   * Derive pool address from tokens and fee
-   * For a production implementation, you would use the UniswapV3 factory contract
-   * to get the actual pool address based on the tokens and fee.
-   * 
-   * NOTE: This is a simplified version that checks if the tokens match our pool tokens.
-   * In a production environment, implement the full algorithm or use the factory contract.
+   * Build an empty position carrying the pool's token metadata
    */
-  private getPoolAddressFromTokens(
-    token0: `0x${string}`, 
-    token1: `0x${string}`, 
-    _fee: bigint
-  ): `0x${string}` {
-    // Check if these are the tokens we're interested in
-    if (this.token0Address && this.token1Address) {
-      // Check if the tokens match our known pool tokens (in either order)
-      const tokensMatch = (
-        (token0.toLowerCase() === this.token0Address.toLowerCase() && 
-         token1.toLowerCase() === this.token1Address.toLowerCase()) ||
-        (token0.toLowerCase() === this.token1Address.toLowerCase() && 
-         token1.toLowerCase() === this.token0Address.toLowerCase())
-      );
-      
-      if (tokensMatch) {
-        return this.poolAddress;
-      }
+  private getEmptyPosition(): LPPosition {
+    return {
+      liquidityAmount: 0n,
+      token0Amount: 0n,
+      token1Amount: 0n,
+      token0Address: this.token0Address || '' as `0x${string}`,
+      token1Address: this.token1Address || '' as `0x${string}`,
+      token0Symbol: this.token0Symbol || '',
+      token1Symbol: this.token1Symbol || '',
+      token0Decimals: this.token0Decimals !== null ? this.token0Decimals : 18,
+      token1Decimals: this.token1Decimals !== null ? this.token1Decimals : 6,
+      token0Exposure: 0,
+      token1Exposure: 0,
+      token0FeesAmount: 0n,
+      token1FeesAmount: 0n,
+      token0FeesExposure: 0,
+      token1FeesExposure: 0,
+      volatileTokenIndex: this.volatileTokenIndex ?? 0,
+      volatileExposure: 0,
+      stableExposure: 0,
+      totalValueUSD: 0
+    };
+  }
+}
+
+/**
+ * Read the combined LP position of each watcher's pool at one block.
+ * A pool whose read fails keeps its previous position, or stays missing if it has none.
+ * @param previous Positions of the last cycle by pool address
+ */
+export async function readPoolPositions(
+  watchers: Pick<LPWatcher, 'getPool' | 'getCombinedLPPosition'>[],
+  tokenPrice: number,
+  blockNumber: bigint,
+  previous: Record<string, LPPosition>
+): Promise<Record<string, LPPosition>> {
+  const poolPositions = { ...previous };
+  
+  for (const watcher of watchers) {
+    const poolAddress = watcher.getPool().address;
+    try {
+      poolPositions[poolAddress] = await watcher.getCombinedLPPosition(tokenPrice, blockNumber);
+    } catch (error) {
+      logger.error(`Failed to get LP position for pool ${poolAddress}: ${error}`);
     }
-    
-    // For unknown token combinations, return empty string
-    // This will cause the position to be filtered out
-    return '0x0000000000000000000000000000000000000000';
   }
+  
+  return poolPositions;
 }
 
 export default LPWatcher;
\ No newline at end of file
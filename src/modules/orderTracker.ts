@@ -0,0 +1,174 @@
+import logger from '../logger';
+import { HyperliquidFill, HyperliquidOrderState, TrackedOrder } from '../types';
+
+// What the tracker needs from the exchange - implemented by HyperliquidClient
+export interface OrderStatusSource {
+  getOrderStatus(oid: number): Promise<HyperliquidOrderState>;
+  getUserFills(): Promise<HyperliquidFill[]>;
+}
+
+export interface OrderTrackerOptions {
+  pollIntervalMs?: number;    // Delay between status polls while confirming an order
+  confirmTimeoutMs?: number;  // How long to wait for an order to reach a final state
+}
+
+export interface NewOrder {
+  oid: number;
+  cloid?: `0x${string}`;
+  coin: string;
+  side: 'BUY' | 'SELL';
+  sizeCoin: number;
+}
+
+/**
+ * Whether an order can no longer change
+ */
+export function isFinalOrderState(status: HyperliquidOrderState): boolean {
+  return status === 'filled' || status === 'canceled' || status === 'rejected';
+}
+
+/**
+ * Map an exchange order status to an order state. Every way an order can be
+ * cancelled or rejected is folded into 'canceled' or 'rejected'.
+ */
+export function parseOrderState(status: string): HyperliquidOrderState {
+  if (status === 'open' || status === 'triggered') return 'open';
+  if (status === 'filled') return 'filled';
+  if (status.toLowerCase().endsWith('rejected')) return 'rejected';
+  return 'canceled';
+}
+
+/**
+ * Follows orders by oid from placement until they are filled, cancelled or rejected.
+ *
+ * Fills are collected from the account's fill history, so the filled size,
+ * average price and fees come from the exchange rather than the order response.
+ * Orders that are still open count as in flight, so the next hedge cycle can
+ * account for size that is already on its way.
+ */
+export class OrderTracker {
+  private source: OrderStatusSource;
+  private pollIntervalMs: number;
+  private confirmTimeoutMs: number;
+  private orders = new Map<number, TrackedOrder>();
+
+  constructor(source: OrderStatusSource, options: OrderTrackerOptions = {}) {
+    this.source = source;
+    this.pollIntervalMs = options.pollIntervalMs ?? 500;
+    this.confirmTimeoutMs = options.confirmTimeoutMs ?? 5000;
+  }
+
+  /**
+   * Start tracking a placed order
+   */
+  track(order: NewOrder): TrackedOrder {
+    const tracked: TrackedOrder = {
+      ...order,
+      status: 'open',
+      filledSizeCoin: 0,
+      avgFillPrice: null,
+      feeUsd: 0,
+      fills: [],
+      placedAt: Date.now(),
+    };
+    this.orders.set(order.oid, tracked);
+    return tracked;
+  }
+
+  /**
+   * Poll an order until it reaches a final state or the confirm timeout runs out.
+   * Orders still open afterwards stay tracked as in flight.
+   */
+  async confirm(oid: number): Promise<TrackedOrder> {
+    const deadline = Date.now() + this.confirmTimeoutMs;
+
+    for (;;) {
+      const order = await this.update(oid);
+      if (isFinalOrderState(order.status) || Date.now() >= deadline) {
+        if (isFinalOrderState(order.status)) {
+          this.orders.delete(oid);
+        } else {
+          logger.warn(`Order ${oid} still ${order.status} after ${this.confirmTimeoutMs}ms`);
+        }
+        return order;
+      }
+      await new Promise(resolve => setTimeout(resolve, this.pollIntervalMs));
+    }
+  }
+
+  /**
+   * Refresh every tracked order and stop tracking those that reached a final state.
+   * The fill history is read once and shared by every order.
+   */
+  async refresh(): Promise<TrackedOrder[]> {
+    if (this.orders.size === 0) {
+      return [];
+    }
+
+    const fills = await this.source.getUserFills();
+    const updated = await Promise.all(
+      [...this.orders.keys()].map(oid => this.update(oid, fills))
+    );
+
+    for (const order of updated) {
+      if (isFinalOrderState(order.status)) {
+        const filled = `${order.filledSizeCoin}/${order.sizeCoin} ${order.coin}`;
+        logger.info(`Order ${order.oid} ${order.status}, ${filled} filled`);
+        this.orders.delete(order.oid);
+      } else if (order.status === 'unknown' &&
+                 Date.now() - order.placedAt > this.confirmTimeoutMs) {
+        // A brand new oid may not be known yet, one that never shows up is dropped
+        logger.warn(`Order ${order.oid} is unknown to the exchange, no longer tracking it`);
+        this.orders.delete(order.oid);
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Orders that are still open, optionally for one coin
+   */
+  getInFlight(coin?: string): TrackedOrder[] {
+    return [...this.orders.values()].filter(order => coin === undefined || order.coin === coin);
+  }
+
+  /**
+   * Signed unfilled size of in-flight orders for a coin: buys positive, sells negative
+   */
+  getPendingSizeCoin(coin: string): number {
+    return this.getInFlight(coin).reduce((total, order) => {
+      const unfilled = Math.max(order.sizeCoin - order.filledSizeCoin, 0);
+      return total + (order.side === 'BUY' ? unfilled : -unfilled);
+    }, 0);
+  }
+
+  /**
+   * Fetch the status and fills of a tracked order
+   * @param userFills Fill history already read for this refresh, fetched when missing
+   */
+  private async update(oid: number, userFills?: HyperliquidFill[]): Promise<TrackedOrder> {
+    const order = this.orders.get(oid);
+    if (!order) {
+      throw new Error(`Order ${oid} is not tracked`);
+    }
+
+    const [status, fills] = await Promise.all([
+      this.source.getOrderStatus(oid),
+      userFills ?? this.source.getUserFills(),
+    ]);
+
+    order.fills = fills.filter(fill => fill.oid === oid);
+    order.filledSizeCoin = order.fills.reduce((total, fill) => total + fill.sizeCoin, 0);
+    order.feeUsd = order.fills.reduce((total, fill) => total + fill.feeUsd, 0);
+    order.avgFillPrice = order.filledSizeCoin > 0
+      ? order.fills.reduce((total, fill) => total + fill.price * fill.sizeCoin, 0) /
+        order.filledSizeCoin
+      : null;
+    order.status = status;
+
+    return order;
+  }
+}
+
+export default OrderTracker;
@@ -0,0 +1,388 @@
+import { decodeEventLog, encodeEventTopics, pad, parseAbi } from 'viem';
+import logger from '../logger';
+import { LogSource, RawLog } from '../types';
+
+// Events that change which NFTs the wallet owns or what a position holds
+const PositionManagerEventsABI = parseAbi([
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+  'event IncreaseLiquidity(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+  'event DecreaseLiquidity(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+  'event Collect(uint256 indexed tokenId, address recipient, uint256 amount0, uint256 amount1)',
+]);
+
+const PoolEventsABI = parseAbi([
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+]);
+
+const TRANSFER_TOPIC = encodeEventTopics({ abi: PositionManagerEventsABI, eventName: 'Transfer' })[0];
+const POSITION_CHANGE_TOPICS = [
+  encodeEventTopics({ abi: PositionManagerEventsABI, eventName: 'IncreaseLiquidity' })[0],
+  encodeEventTopics({ abi: PositionManagerEventsABI, eventName: 'DecreaseLiquidity' })[0],
+  encodeEventTopics({ abi: PositionManagerEventsABI, eventName: 'Collect' })[0],
+];
+const SWAP_TOPIC = encodeEventTopics({ abi: PoolEventsABI, eventName: 'Swap' })[0];
+
+// How RPC providers word an eth_getLogs request over their block range or result limit
+const RANGE_TOO_LARGE_PATTERN = new RegExp([
+  'block range',
+  'range (is )?too (large|wide)',
+  'exceed(s|ed)? (the )?max(imum)? (block )?range',
+  'limited to a [\\d,]+ range',
+  'more than [\\d,]+ results',
+  'response size exceeded',
+].join('|'), 'i');
+
+/**
+ * Whether an eth_getLogs error asks for a smaller block range
+ */
+export function isRangeTooLargeError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return RANGE_TOO_LARGE_PATTERN.test(message);
+}
+
+export interface PositionIndexOptions {
+  positionManagerAddress: `0x${string}`;
+  poolAddresses: `0x${string}`[]; // Pools whose swaps are watched
+  owner: `0x${string}`;
+  startBlock: bigint;           // Block to replay ownership from on rebuild
+  blockRange?: bigint;          // Max blocks per getLogs request, halved when a provider rejects it
+  swapMoveThreshold?: number;   // Price move (as a fraction) that counts as sharp
+}
+
+export type SharpMoveListener = (
+  move: number,
+  sqrtPriceX96: bigint,
+  blockNumber: bigint,
+  poolAddress: `0x${string}`
+) => void;
+
+/**
+ * Event-driven index of the wallet's Uniswap V3 position NFTs.
+ *
+ * Ownership follows Transfer events. IncreaseLiquidity, DecreaseLiquidity and
+ * Collect mark a position dirty so its positions() struct is re-read, while
+ * untouched positions can be served from cache. Pool Swap events are watched
+ * for sharp price moves against a reference price per pool.
+ *
+ * Ownership does not depend on the pool, so one index serves every pool of an owner.
+ */
+export class PositionIndex {
+  private source: LogSource;
+  private positionManagerAddress: `0x${string}`;
+  private poolAddresses: `0x${string}`[];
+  private owner: `0x${string}`;
+  private ownerTopic: `0x${string}`;
+  private startBlock: bigint;
+  private blockRange: bigint;
+  private swapMoveThreshold: number;
+
+  private ownedTokenIds = new Set<bigint>();
+  // Token ID -> block of the latest event that changed it
+  private dirtyTokenIds = new Map<bigint, bigint>();
+  private lastSyncedBlock: bigint | null = null;
+  // Lower-cased pool address -> sqrt price swaps are compared against
+  private referenceSqrtPrices = new Map<string, bigint>();
+  private sharpMoveListeners: SharpMoveListener[] = [];
+  private syncQueue: Promise<void> = Promise.resolve();
+  private pollInterval: NodeJS.Timeout | null = null;
+
+  constructor(source: LogSource, options: PositionIndexOptions) {
+    this.source = source;
+    this.positionManagerAddress = options.positionManagerAddress;
+    this.poolAddresses = options.poolAddresses;
+    this.owner = options.owner;
+    this.ownerTopic = pad(options.owner.toLowerCase() as `0x${string}`, { size: 32 });
+    this.startBlock = options.startBlock;
+    this.blockRange = options.blockRange ?? 10000n;
+    this.swapMoveThreshold = options.swapMoveThreshold ?? 0.02;
+  }
+
+  /**
+   * Whether the index has been built and can be trusted
+   */
+  isReady(): boolean {
+    return this.lastSyncedBlock !== null;
+  }
+
+  getLastSyncedBlock(): bigint | null {
+    return this.lastSyncedBlock;
+  }
+
+  /**
+   * Token IDs currently owned by the wallet
+   */
+  getOwnedTokenIds(): bigint[] {
+    return [...this.ownedTokenIds].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  }
+
+  /**
+   * Whether a position changed since it was last read
+   */
+  isDirty(tokenId: bigint): boolean {
+    return this.dirtyTokenIds.has(tokenId);
+  }
+
+  /**
+   * Mark positions as read at a block. Positions changed after that block stay dirty.
+   */
+  markClean(tokenIds: bigint[], readAtBlock: bigint): void {
+    for (const tokenId of tokenIds) {
+      const changedAt = this.dirtyTokenIds.get(tokenId);
+      if (changedAt !== undefined && changedAt <= readAtBlock) {
+        this.dirtyTokenIds.delete(tokenId);
+      }
+    }
+  }
+
+  /**
+   * Set the pool price that swaps are compared against, usually the price of the last cycle
+   */
+  setReferenceSqrtPrice(poolAddress: `0x${string}`, sqrtPriceX96: bigint): void {
+    this.referenceSqrtPrices.set(poolAddress.toLowerCase(), sqrtPriceX96);
+  }
+
+  /**
+   * Register a listener for swaps that move the price past the threshold
+   */
+  onSharpMove(listener: SharpMoveListener): void {
+    this.sharpMoveListeners.push(listener);
+  }
+
+  /**
+   * Sync on an interval. Watchers sharing the index share the poller.
+   */
+  startPolling(intervalMs: number): void {
+    if (this.pollInterval) {
+      return;
+    }
+
+    this.pollInterval = setInterval(() => {
+      this.sync().catch(error => {
+        logger.warn(`LP event sync failed: ${error}`);
+      });
+    }, intervalMs);
+  }
+
+  /**
+   * Stop syncing on an interval
+   */
+  stopPolling(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  /**
+   * Rebuild ownership from the start block by replaying Transfer events.
+   * Every owned position starts dirty so it gets read once.
+   */
+  async rebuild(toBlock?: bigint): Promise<void> {
+    const run = this.syncQueue.then(() => this.rebuildTo(toBlock));
+    this.syncQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async rebuildTo(toBlock?: bigint): Promise<void> {
+    const target = toBlock ?? await this.source.getBlockNumber();
+
+    this.ownedTokenIds.clear();
+    this.dirtyTokenIds.clear();
+    this.lastSyncedBlock = null;
+
+    logger.info(`Rebuilding LP position index from block ${this.startBlock} to ${target}`);
+
+    await this.processRange(this.startBlock, target, false);
+    for (const tokenId of this.ownedTokenIds) {
+      this.dirtyTokenIds.set(tokenId, target);
+    }
+    this.lastSyncedBlock = target;
+
+    logger.info(`LP position index rebuilt: ${this.ownedTokenIds.size} position NFT(s) owned`);
+  }
+
+  /**
+   * Apply all events since the last synced block. Calls are queued so ranges never overlap.
+   */
+  async sync(toBlock?: bigint): Promise<void> {
+    const run = this.syncQueue.then(() => this.syncTo(toBlock));
+    this.syncQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async syncTo(toBlock?: bigint): Promise<void> {
+    if (this.lastSyncedBlock === null) {
+      throw new Error('Position index must be rebuilt before syncing');
+    }
+
+    const target = toBlock ?? await this.source.getBlockNumber();
+    if (target <= this.lastSyncedBlock) {
+      return;
+    }
+
+    await this.processRange(this.lastSyncedBlock + 1n, target, true);
+    this.lastSyncedBlock = target;
+  }
+
+  /**
+   * Fetch and apply logs for a block range in chunks of blockRange. A chunk the provider
+   * rejects as too large is retried at half the range, which sticks for later chunks.
+   */
+  private async processRange(
+    fromBlock: bigint,
+    toBlock: bigint,
+    withChanges: boolean
+  ): Promise<void> {
+    let chunkStart = fromBlock;
+    while (chunkStart <= toBlock) {
+      const chunkEnd = chunkStart + this.blockRange - 1n < toBlock
+        ? chunkStart + this.blockRange - 1n
+        : toBlock;
+
+      try {
+        await this.processChunk(chunkStart, chunkEnd, withChanges);
+      } catch (error) {
+        if (this.blockRange <= 1n || !isRangeTooLargeError(error)) {
+          throw error;
+        }
+        this.blockRange /= 2n;
+        logger.warn(`getLogs range rejected, retrying with ${this.blockRange} blocks: ${error}`);
+        continue;
+      }
+      chunkStart = chunkEnd + 1n;
+    }
+  }
+
+  /**
+   * Fetch the logs of one chunk, then apply them all so a failed fetch changes nothing
+   */
+  private async processChunk(
+    chunkStart: bigint,
+    chunkEnd: bigint,
+    withChanges: boolean
+  ): Promise<void> {
+    const [incoming, outgoing] = await Promise.all([
+      this.source.getLogs({
+        address: this.positionManagerAddress,
+        topics: [TRANSFER_TOPIC, null, this.ownerTopic],
+        fromBlock: chunkStart,
+        toBlock: chunkEnd,
+      }),
+      this.source.getLogs({
+        address: this.positionManagerAddress,
+        topics: [TRANSFER_TOPIC, this.ownerTopic],
+        fromBlock: chunkStart,
+        toBlock: chunkEnd,
+      }),
+    ]);
+
+    const logs = [...incoming, ...outgoing];
+
+    if (withChanges) {
+      // Positions owned at any point in the chunk
+      const candidates = new Set(this.ownedTokenIds);
+      for (const log of incoming) {
+        candidates.add(BigInt(log.topics[3]));
+      }
+
+      if (candidates.size > 0) {
+        logs.push(...await this.source.getLogs({
+          address: this.positionManagerAddress,
+          topics: [
+            POSITION_CHANGE_TOPICS,
+            [...candidates].map(tokenId => pad(`0x${tokenId.toString(16)}`, { size: 32 })),
+          ],
+          fromBlock: chunkStart,
+          toBlock: chunkEnd,
+        }));
+      }
+
+      for (const poolAddress of this.poolAddresses) {
+        logs.push(...await this.source.getLogs({
+          address: poolAddress,
+          topics: [SWAP_TOPIC],
+          fromBlock: chunkStart,
+          toBlock: chunkEnd,
+        }));
+      }
+    }
+
+    logs
+      .sort((a, b) => (a.blockNumber === b.blockNumber
+        ? a.logIndex - b.logIndex
+        : a.blockNumber < b.blockNumber ? -1 : 1))
+      .forEach(log => this.applyLog(log));
+  }
+
+  /**
+   * Apply a single decoded log to the index
+   */
+  private applyLog(log: RawLog): void {
+    if (log.address.toLowerCase() !== this.positionManagerAddress.toLowerCase()) {
+      this.applySwap(log);
+      return;
+    }
+
+    const event = decodeEventLog({
+      abi: PositionManagerEventsABI,
+      data: log.data,
+      topics: log.topics as [`0x${string}`, ...`0x${string}`[]],
+    });
+
+    switch (event.eventName) {
+      case 'Transfer': {
+        const { from, to, tokenId } = event.args;
+        if (to.toLowerCase() === this.owner.toLowerCase()) {
+          this.ownedTokenIds.add(tokenId);
+          this.dirtyTokenIds.set(tokenId, log.blockNumber);
+        } else if (from.toLowerCase() === this.owner.toLowerCase()) {
+          this.ownedTokenIds.delete(tokenId);
+          this.dirtyTokenIds.delete(tokenId);
+        }
+        break;
+      }
+
+      case 'IncreaseLiquidity':
+      case 'DecreaseLiquidity':
+      case 'Collect':
+        if (this.ownedTokenIds.has(event.args.tokenId)) {
+          this.dirtyTokenIds.set(event.args.tokenId, log.blockNumber);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Notify listeners when a swap moves the price sharply away from the reference
+   */
+  private applySwap(log: RawLog): void {
+    const poolKey = log.address.toLowerCase();
+    const referenceSqrtPriceX96 = this.referenceSqrtPrices.get(poolKey);
+    if (referenceSqrtPriceX96 === undefined || referenceSqrtPriceX96 === 0n) {
+      return;
+    }
+
+    const event = decodeEventLog({
+      abi: PoolEventsABI,
+      data: log.data,
+      topics: log.topics as [`0x${string}`, ...`0x${string}`[]],
+    });
+
+    const sqrtRatio = Number(event.args.sqrtPriceX96) / Number(referenceSqrtPriceX96);
+    const move = sqrtRatio * sqrtRatio - 1;
+
+    if (Math.abs(move) >= this.swapMoveThreshold) {
+      const movePct = (move * 100).toFixed(2);
+      logger.warn(
+        `Sharp price move of ${movePct}% in pool ${log.address} at block ${log.blockNumber}`
+      );
+      // Re-anchor so one move triggers one notification
+      this.referenceSqrtPrices.set(poolKey, event.args.sqrtPriceX96);
+      for (const listener of this.sharpMoveListeners) {
+        listener(move, event.args.sqrtPriceX96, log.blockNumber, log.address);
+      }
+    }
+  }
+}
+
+export default PositionIndex;
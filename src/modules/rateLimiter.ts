@@ -0,0 +1,156 @@
+import logger from '../logger';
+import { RateLimiterStatus } from '../types';
+
+// Trading actions are served before informational reads
+export type RequestPriority = 'trading' | 'info';
+
+export interface RateLimiterOptions {
+  capacity: number;           // Most weight that can be spent at once
+  refillPerMinute: number;    // Weight returned to the budget per minute
+  tradingReserve?: number;    // Weight informational reads leave for trading actions
+  name?: string;              // Used in log messages
+}
+
+interface Waiter {
+  weight: number;
+  priority: RequestPriority;
+  queuedAt: number;
+  resolve: () => void;
+}
+
+// Waits shorter than this are routine and not worth a log line
+const SLOW_WAIT_LOG_MS = 1000;
+
+/**
+ * Token bucket that spaces out weighted requests to stay under an API's rate limit.
+ *
+ * Requests wait in a queue until the bucket holds their weight, so the limit is
+ * never hit rather than reacted to. Queued trading actions always go first, and
+ * informational reads cannot dip into the reserve kept for trading. Weight only
+ * known after a response, such as per returned item, is charged afterwards and
+ * may take the budget below zero, delaying the requests behind it.
+ */
+export class RateLimiter {
+  private capacity: number;
+  private refillPerMs: number;
+  private tradingReserve: number;
+  private name: string;
+
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queues: Record<RequestPriority, Waiter[]> = { trading: [], info: [] };
+  private timer: NodeJS.Timeout | null = null;
+  private totalWaitMs = 0;
+  private throttled = 0;
+
+  constructor(options: RateLimiterOptions) {
+    this.capacity = options.capacity;
+    this.refillPerMs = options.refillPerMinute / 60000;
+    this.tradingReserve = options.tradingReserve ?? 0;
+    this.name = options.name ?? 'API';
+    this.tokens = options.capacity;
+  }
+
+  /**
+   * Wait until the budget allows a request of this weight, then spend it
+   */
+  acquire(weight: number, priority: RequestPriority = 'info'): Promise<void> {
+    return new Promise(resolve => {
+      this.queues[priority].push({ weight, priority, queuedAt: Date.now(), resolve });
+      this.drain();
+    });
+  }
+
+  /**
+   * Spend weight without waiting, for costs only known once a response is in
+   */
+  charge(weight: number): void {
+    this.refill();
+    this.tokens -= weight;
+  }
+
+  /**
+   * Empty the budget, e.g. after the server answered with a rate limit error
+   */
+  exhaust(): void {
+    this.refill();
+    this.tokens = Math.min(this.tokens, 0);
+  }
+
+  getStatus(): RateLimiterStatus {
+    this.refill();
+    return {
+      available: Math.floor(this.tokens),
+      capacity: this.capacity,
+      refillPerMinute: this.refillPerMs * 60000,
+      queuedTrading: this.queues.trading.length,
+      queuedInfo: this.queues.info.length,
+      throttledRequests: this.throttled,
+      totalWaitMs: this.totalWaitMs,
+    };
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Budget a request needs before it may go: reads leave the trading reserve untouched
+   */
+  private required(waiter: Waiter): number {
+    const weight = Math.min(waiter.weight, this.capacity);
+    return waiter.priority === 'trading'
+      ? weight
+      : Math.min(weight + this.tradingReserve, this.capacity);
+  }
+
+  /**
+   * Release queued requests in priority order while the budget allows,
+   * then wake up again once the next one can go
+   */
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.refill();
+
+    for (;;) {
+      const queue = this.queues.trading.length > 0 ? this.queues.trading : this.queues.info;
+      const waiter = queue[0];
+      if (!waiter) {
+        return;
+      }
+
+      const required = this.required(waiter);
+      if (this.tokens < required) {
+        const waitMs = Math.ceil((required - this.tokens) / this.refillPerMs);
+        this.timer = setTimeout(() => this.drain(), waitMs);
+        return;
+      }
+
+      queue.shift();
+      this.tokens -= waiter.weight;
+      this.release(waiter);
+    }
+  }
+
+  private release(waiter: Waiter): void {
+    const waitedMs = Date.now() - waiter.queuedAt;
+    if (waitedMs > 0) {
+      this.throttled++;
+      this.totalWaitMs += waitedMs;
+    }
+    if (waitedMs >= SLOW_WAIT_LOG_MS) {
+      logger.warn(
+        `${this.name} rate limit: ${waiter.priority} request of weight ${waiter.weight} ` +
+        `waited ${waitedMs}ms, ${this.queues.trading.length + this.queues.info.length} still queued`
+      );
+    }
+    waiter.resolve();
+  }
+}
+
+export default RateLimiter;
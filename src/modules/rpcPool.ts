@@ -0,0 +1,294 @@
+import { custom, http } from 'viem';
+import logger from '../logger';
+import { RpcEndpointHealth } from '../types';
+import { maskUrl } from '../utils/secureUtils';
+
+export type RpcRequestFn = (args: { method: string; params?: unknown }) => Promise<unknown>;
+
+export interface RpcEndpointPoolOptions {
+  timeoutMs?: number;              // Per-request timeout of an endpoint
+  maxConsecutiveFailures?: number; // Failures in a row before an endpoint is demoted
+  demotionMs?: number;             // How long a demoted endpoint is skipped
+  maxBlockLag?: number;            // Blocks behind the best endpoint that count as stale
+  createRequest?: (url: string, timeoutMs: number) => RpcRequestFn;
+}
+
+// Errors that say something about the endpoint rather than the request itself
+const ENDPOINT_ERROR_NAMES = [
+  'HttpRequestError',
+  'TimeoutError',
+  'LimitExceededRpcError',
+  'InternalRpcError',
+  'ResourceUnavailableRpcError',
+];
+const ENDPOINT_ERROR_CODES = [-32005, -32603, -32002];
+const ENDPOINT_HTTP_STATUSES = [401, 403, 429];
+
+// Weight of the newest sample in the latency and error rate averages
+const EWMA_ALPHA = 0.3;
+
+interface Endpoint {
+  url: string;
+  request: RpcRequestFn;
+  health: RpcEndpointHealth;
+}
+
+/**
+ * Whether an RPC error means the endpoint is unhealthy, so the request should move on
+ */
+export function isEndpointError(error: unknown): boolean {
+  const { name, code, status } = error as { name?: string; code?: number; status?: number };
+
+  // HTTP responses: rate limits, rejected keys and server errors - not malformed requests
+  if (status !== undefined) {
+    return ENDPOINT_HTTP_STATUSES.includes(status) || status >= 500;
+  }
+
+  return (
+    (name !== undefined && ENDPOINT_ERROR_NAMES.includes(name)) ||
+    (code !== undefined && ENDPOINT_ERROR_CODES.includes(code))
+  );
+}
+
+/**
+ * Ordered set of RPC endpoints with health scoring and failover.
+ *
+ * Requests go to the best endpoint first and fail over down the list on
+ * endpoint errors. Each endpoint keeps a moving average of latency and error
+ * rate. Endpoints are demoted for a while after repeated failures or when a
+ * health check finds them lagging behind the chain head.
+ */
+export class RpcEndpointPool {
+  private endpoints: Endpoint[];
+  private maxConsecutiveFailures: number;
+  private demotionMs: number;
+  private maxBlockLag: number;
+  private healthCheckInterval: NodeJS.Timeout | null = null;
+
+  constructor(urls: string[], options: RpcEndpointPoolOptions = {}) {
+    if (urls.length === 0) {
+      throw new Error('At least one RPC URL is required');
+    }
+
+    const timeoutMs = options.timeoutMs ?? 10000;
+    const createRequest = options.createRequest ?? ((url: string, timeout: number) =>
+      http(url, { retryCount: 0, timeout })({ retryCount: 0 }).request as RpcRequestFn);
+
+    this.maxConsecutiveFailures = options.maxConsecutiveFailures ?? 3;
+    this.demotionMs = options.demotionMs ?? 60000;
+    this.maxBlockLag = options.maxBlockLag ?? 50;
+    this.endpoints = urls.map((url, priority) => ({
+      url,
+      request: createRequest(url, timeoutMs),
+      health: {
+        url: maskUrl(url),
+        priority,
+        status: 'healthy',
+        score: 100,
+        latencyMs: 0,
+        errorRate: 0,
+        consecutiveFailures: 0,
+        totalRequests: 0,
+        totalFailures: 0,
+        lastBlock: null,
+        blockLag: 0,
+        demotedUntil: null,
+        lastError: null,
+      },
+    }));
+  }
+
+  /**
+   * viem transport that routes every request through the pool
+   */
+  transport() {
+    // Failover replaces viem's own retries
+    return custom(
+      { request: this.request.bind(this) } as Parameters<typeof custom>[0],
+      { retryCount: 0 }
+    );
+  }
+
+  /**
+   * Send a request to the best endpoint, failing over to the next on endpoint errors
+   */
+  async request(args: { method: string; params?: unknown }): Promise<unknown> {
+    let lastError: unknown = null;
+
+    for (const endpoint of this.getOrderedEndpoints()) {
+      const startedAt = Date.now();
+      try {
+        const result = await endpoint.request(args);
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+        return result;
+      } catch (error) {
+        if (!isEndpointError(error)) {
+          // Reverts and bad params fail the same way everywhere - the endpoint did its job
+          this.recordSuccess(endpoint, Date.now() - startedAt);
+          throw error;
+        }
+
+        this.recordFailure(endpoint, error as Error);
+        lastError = error;
+        logger.warn(`RPC ${endpoint.health.url} failed ${args.method}, trying next endpoint`);
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Poll the head block of every endpoint and demote those lagging behind the best one
+   */
+  async checkHealth(): Promise<void> {
+    const heads = await Promise.all(this.endpoints.map(async endpoint => {
+      const startedAt = Date.now();
+      try {
+        const head = BigInt(await endpoint.request({ method: 'eth_blockNumber' }) as string);
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+        endpoint.health.lastBlock = head;
+        return head;
+      } catch (error) {
+        this.recordFailure(endpoint, error as Error);
+        return null;
+      }
+    }));
+
+    const best = heads.reduce<bigint | null>(
+      (max, head) => (head !== null && (max === null || head > max) ? head : max),
+      null
+    );
+    if (best === null) {
+      logger.error('RPC health check failed: no endpoint returned a block number');
+      return;
+    }
+
+    this.endpoints.forEach((endpoint, i) => {
+      const head = heads[i];
+      if (head === null) return;
+
+      endpoint.health.blockLag = Number(best - head);
+      if (endpoint.health.blockLag > this.maxBlockLag) {
+        this.demote(endpoint, 'stale', `${endpoint.health.blockLag} blocks behind head ${best}`);
+      } else if (endpoint.health.status === 'stale') {
+        this.restore(endpoint);
+      }
+    });
+  }
+
+  /**
+   * Run health checks on an interval
+   */
+  startHealthChecks(intervalMs: number): void {
+    if (this.healthCheckInterval) {
+      return;
+    }
+
+    const run = () => this.checkHealth().catch(error => {
+      logger.warn(`RPC health check error: ${error}`);
+    });
+    run();
+    this.healthCheckInterval = setInterval(run, intervalMs);
+  }
+
+  /**
+   * Stop running health checks
+   */
+  stopHealthChecks(): void {
+    if (this.healthCheckInterval) {
+      clearInterval(this.healthCheckInterval);
+      this.healthCheckInterval = null;
+    }
+  }
+
+  /**
+   * Health of every endpoint in configured order
+   */
+  getHealth(): RpcEndpointHealth[] {
+    this.expireDemotions();
+    return this.endpoints.map(endpoint => ({ ...endpoint.health }));
+  }
+
+  /**
+   * Usable endpoints by score, configured order breaking ties. Demoted endpoints go last
+   * so a request is still attempted when every endpoint is demoted.
+   */
+  private getOrderedEndpoints(): Endpoint[] {
+    this.expireDemotions();
+
+    return [...this.endpoints].sort((a, b) => {
+      const aDemoted = a.health.status !== 'healthy' ? 1 : 0;
+      const bDemoted = b.health.status !== 'healthy' ? 1 : 0;
+      if (aDemoted !== bDemoted) return aDemoted - bDemoted;
+      if (a.health.score !== b.health.score) return b.health.score - a.health.score;
+      return a.health.priority - b.health.priority;
+    });
+  }
+
+  private recordSuccess(endpoint: Endpoint, latencyMs: number): void {
+    const health = endpoint.health;
+    health.totalRequests++;
+    health.consecutiveFailures = 0;
+    health.latencyMs = health.totalRequests === 1
+      ? latencyMs
+      : health.latencyMs + EWMA_ALPHA * (latencyMs - health.latencyMs);
+    health.errorRate = health.errorRate * (1 - EWMA_ALPHA);
+    this.updateScore(endpoint);
+  }
+
+  private recordFailure(endpoint: Endpoint, error: Error): void {
+    const health = endpoint.health;
+    health.totalRequests++;
+    health.totalFailures++;
+    health.consecutiveFailures++;
+    health.errorRate = health.errorRate * (1 - EWMA_ALPHA) + EWMA_ALPHA;
+    health.lastError = error?.message ?? String(error);
+    this.updateScore(endpoint);
+
+    if (health.status === 'healthy' &&
+        health.consecutiveFailures >= this.maxConsecutiveFailures) {
+      this.demote(endpoint, 'demoted', `${health.consecutiveFailures} consecutive failures`);
+    }
+  }
+
+  /**
+   * Score out of 100 - errors cost up to 100 points, latency one point per 100ms up to 50
+   */
+  private updateScore(endpoint: Endpoint): void {
+    const health = endpoint.health;
+    const latencyPenalty = Math.min(health.latencyMs / 100, 50);
+    health.score = Math.round(100 - health.errorRate * 100 - latencyPenalty);
+  }
+
+  private demote(endpoint: Endpoint, status: 'demoted' | 'stale', reason: string): void {
+    const wasHealthy = endpoint.health.status === 'healthy';
+    endpoint.health.status = status;
+    endpoint.health.demotedUntil = Date.now() + this.demotionMs;
+
+    if (wasHealthy) {
+      logger.warn(`RPC endpoint ${endpoint.health.url} ${status}: ${reason}`);
+    }
+  }
+
+  private restore(endpoint: Endpoint): void {
+    endpoint.health.status = 'healthy';
+    endpoint.health.demotedUntil = null;
+    endpoint.health.consecutiveFailures = 0;
+    logger.info(`RPC endpoint ${endpoint.health.url} back in rotation`);
+  }
+
+  /**
+   * Give demoted endpoints another chance once their demotion has run out
+   */
+  private expireDemotions(): void {
+    const now = Date.now();
+    for (const endpoint of this.endpoints) {
+      const until = endpoint.health.demotedUntil;
+      if (endpoint.health.status !== 'healthy' && until !== null && until <= now) {
+        this.restore(endpoint);
+      }
+    }
+  }
+}
+
+export default RpcEndpointPool;
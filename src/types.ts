@@ -1,4 +1,13 @@
-// LP Position types
+// A watched Uniswap V3 pool and the Hyperliquid perp that hedges it
+export interface PoolConfig {
+    address: `0x${string}`;
+    pairTicker: string;          // e.g. "PENDLE-USDT"
+    perpTicker: string;          // Hyperliquid coin hedging the pool's volatile token
+    rebalanceThreshold: number;  // Decimal, e.g. 0.05 for 5%
+    hedgeTokenAddress: string;   // Explicit hedged token, empty to detect from pairTicker
+  }
+  
+  // LP Position types
 export interface LPPosition {
     liquidityAmount: bigint;
     token0Amount: bigint;
@@ -11,6 +20,13 @@ export interface LPPosition {
     token1Decimals: number;
     token0Exposure: number; // USD value of token0
     token1Exposure: number; // USD value of token1
+    token0FeesAmount: bigint; // Uncollected fees (tokensOwed + accrued) in token0
+    token1FeesAmount: bigint; // Uncollected fees (tokensOwed + accrued) in token1
+    token0FeesExposure: number; // USD value of uncollected token0 fees
+    token1FeesExposure: number; // USD value of uncollected token1 fees
+    volatileTokenIndex: 0 | 1; // Which pool token is the hedged asset
+    volatileExposure: number; // USD value of the hedged asset - what the short must cover
+    stableExposure: number; // USD value of the stablecoin side
     totalValueUSD: number;
   }
   
@@ -21,15 +37,62 @@ export interface LPPosition {
     tickLower: number;
     tickUpper: number;
     liquidity: bigint;
+    feeGrowthInside0LastX128: bigint;
+    feeGrowthInside1LastX128: bigint;
+    tokensOwed0: bigint;
+    tokensOwed1: bigint;
+  }
+  
+  // Uniswap V3 pool state needed to value positions, read in a single batch
+  export interface UniswapV3PoolState {
+    sqrtPriceX96: bigint;
+    tick: number;
+    feeGrowthGlobal0X128: bigint;
+    feeGrowthGlobal1X128: bigint;
+    // feeGrowthOutside per initialized tick, keyed by tick index
+    ticks: Map<number, { feeGrowthOutside0X128: bigint; feeGrowthOutside1X128: bigint }>;
+  }
+  
+  // Chain state a check cycle was read at
+  export interface BlockSnapshot {
+    blockNumber: bigint;
+    timestamp: number; // Block timestamp in milliseconds
+  }
+  
+  // Raw event log as returned by eth_getLogs
+  export interface RawLog {
+    address: `0x${string}`;
+    topics: `0x${string}`[];
+    data: `0x${string}`;
+    blockNumber: bigint;
+    logIndex: number;
+  }
+  
+  // eth_getLogs filter - each topic position is a value, a list of alternatives or null for any
+  export interface LogFilter {
+    address: `0x${string}`;
+    topics: (`0x${string}` | `0x${string}`[] | null)[];
+    fromBlock: bigint;
+    toBlock: bigint;
+  }
+  
+  // Anything that can serve logs - the RPC client in production, an in-memory stand-in in tests
+  export interface LogSource {
+    getBlockNumber(): Promise<bigint>;
+    getLogs(filter: LogFilter): Promise<RawLog[]>;
   }
   
   // Hyperliquid types
+  export type HyperliquidMarginMode = 'cross' | 'isolated';
+  
   export interface HyperliquidPosition {
     coin: string;     // e.g., "PENDLE"
     entryPrice: number;
-    size: number;     // Size of position in USD
+    sizeCoin: number;     // Signed size in coins, negative for shorts
+    notionalUsd: number;  // Absolute position value in USD at mark
     side: 'LONG' | 'SHORT';
     leverage: number;
+    marginMode: HyperliquidMarginMode;
     marginUsd: number;
     markPrice: number;
     unrealizedPnl: number;
@@ -39,10 +102,11 @@ export interface LPPosition {
   export interface HyperliquidOrder {
     coin: string;
     side: 'BUY' | 'SELL';
-    size: number;
+    sizeCoin: number;      // Order size in coins, rounded to the asset's szDecimals
     price: number | null;  // null for market orders
     orderType: 'LIMIT' | 'MARKET';
     reduceOnly: boolean;
+    clientOrderKey?: string; // Intent the cloid is derived from, e.g. cycle, coin and action
   }
   
   export interface HyperliquidOrderResponse {
@@ -50,12 +114,159 @@ export interface LPPosition {
     order?: HyperliquidOrder;
     id?: string;
     error?: string;
+    filledSizeCoin?: number;    // Filled size in coins, summed over IOC retries
+    remainingSizeCoin?: number; // Unfilled remainder after the last retry
+    avgFillPrice?: number;
+    referencePrice?: number;    // Mid the order was priced from
+    slippage?: number;          // Fill vs reference price as a fraction, positive when adverse
+    feeUsd?: number;            // Fees paid on the confirmed fills
+    execution?: ExecutionProgress; // Set when the order was split into child orders
+  }
+  
+  // Progress of an order split into child orders over time
+  export interface ExecutionProgress {
+    status: 'running' | 'completed' | 'aborted';
+    targetSizeCoin: number;
+    filledSizeCoin: number;
+    childOrders: number;        // Child orders sent
+    arrivalPrice: number;       // Mid when execution started, slippage is measured against it
+    avgFillPrice: number | null;
+    feeUsd: number;
+    abortReason?: string;
+  }
+  
+  export interface HyperliquidBookLevel {
+    price: number;
+    sizeCoin: number;
+  }
+  
+  // L2 order book snapshot, best levels first
+  export interface HyperliquidL2Book {
+    coin: string;
+    time: number;
+    bids: HyperliquidBookLevel[];
+    asks: HyperliquidBookLevel[];
+  }
+  
+  // Expected result of walking a market order through a book
+  export interface HyperliquidFillEstimate {
+    sizeCoin: number;             // Size the estimate is for
+    fillableSizeCoin: number;     // Size the visible book can absorb
+    midPrice: number;             // Mid between the best bid and ask
+    avgFillPrice: number | null;  // Null when the side of the book is empty
+    worstPrice: number | null;    // Deepest level the order reaches
+    impact: number | null;        // Average fill vs mid as a fraction, positive when adverse
+  }
+  
+  export type HyperliquidOrderState = 'open' | 'filled' | 'canceled' | 'rejected' | 'unknown';
+  
+  // A funding payment from the exchange's userFunding history
+  export interface HyperliquidFundingPayment {
+    coin: string;
+    time: number;
+    usdc: number;         // Signed, positive when the position received funding
+    sizeCoin: number;     // Signed position size the payment was made on
+    fundingRate: number;  // Hourly rate applied
+  }
+  
+  // A single fill from the exchange's userFills
+  export interface HyperliquidFill {
+    oid: number;
+    coin: string;
+    side: 'BUY' | 'SELL';
+    price: number;
+    sizeCoin: number;
+    feeUsd: number;
+    time: number;
+  }
+  
+  // An order followed by the order tracker until it is filled or cancelled
+  export interface TrackedOrder {
+    oid: number;
+    cloid?: `0x${string}`;      // Client order ID the order was placed with
+    coin: string;
+    side: 'BUY' | 'SELL';
+    sizeCoin: number;           // Size the order was placed with
+    status: HyperliquidOrderState;
+    filledSizeCoin: number;
+    avgFillPrice: number | null;
+    feeUsd: number;
+    fills: HyperliquidFill[];
+    placedAt: number;
+  }
+  
+  // Connection state of the Hyperliquid WebSocket feed
+  export interface HyperliquidFeedStatus {
+    connected: boolean;
+    live: boolean;                // Connected and heard from within the staleness window
+    lastMessageAt: number | null;
+    reconnects: number;
+  }
+  
+  // Role of an address on Hyperliquid, from /info userRole
+  export interface HyperliquidUserRole {
+    role: 'user' | 'agent' | 'vault' | 'subAccount' | 'missing';
+    owner: `0x${string}` | null;  // Account an agent wallet or sub-account belongs to
+  }
+  
+  // Whole Hyperliquid account as reported by clearinghouseState
+  export interface HyperliquidAccountSummary {
+    accountValue: number;               // Equity, unrealized PnL included
+    totalNotionalUsd: number;           // Absolute notional of every open position
+    totalMarginUsed: number;
+    marginUsage: number;                // Margin used as a fraction of account value
+    withdrawable: number;
+    crossAccountValue: number;
+    crossMarginUsed: number;
+    crossMaintenanceMarginUsed: number;
+    crossMaintenanceUsage: number;      // Of cross account value, cross positions liquidate at 1
+    positions: HyperliquidPosition[];   // Every open position, not just the hedges
+    time: number;
+  }
+  
+  export type MarginUsageLevel = 'ok' | 'warn' | 'critical';
+  
+  // Request weight budget of a rate limiter
+  export interface RateLimiterStatus {
+    available: number;            // Weight that can be spent right now, negative when overdrawn
+    capacity: number;
+    refillPerMinute: number;
+    queuedTrading: number;        // Requests waiting for budget
+    queuedInfo: number;
+    throttledRequests: number;    // Requests that had to wait, since start
+    totalWaitMs: number;
+  }
+  
+  // Perp asset metadata from the exchange's meta universe
+  export interface HyperliquidAssetMeta {
+    coin: string;         // Hyperliquid coin name, e.g. "PENDLE"
+    index: number;        // Asset index used in order actions
+    szDecimals: number;   // Size decimals; prices get 6 - szDecimals decimals
+    maxLeverage: number;
+    onlyIsolated: boolean;
+  }
+  
+  // A funding rate over the periods it is quoted in, as fractions.
+  // Positive rates are paid by longs to shorts.
+  export interface HyperliquidFundingRate {
+    hourly: number;       // Hyperliquid pays funding hourly
+    eightHour: number;
+    daily: number;
+    annualized: number;
   }
   
   export interface HyperliquidMarketData {
     coin: string;
     price: number;
-    fundingRate: number; // Current funding rate (daily)
+    funding: HyperliquidFundingRate; // Rate of the current hour
+  }
+  
+  // Funding a hedge decision is based on
+  export interface HyperliquidFundingOutlook {
+    current: HyperliquidFundingRate;
+    predicted: HyperliquidFundingRate | null;  // Next funding, null when not published
+    average: HyperliquidFundingRate;           // Realized over the lookback and predicted
+    lookbackHours: number;
   }
   
   // Bot execution status
@@ -71,7 +282,11 @@ export interface LPPosition {
     INCREASE_SHORT = 'INCREASE_SHORT',
     DECREASE_SHORT = 'DECREASE_SHORT',
     NO_ACTION = 'NO_ACTION',
-    CLOSE_POSITIONS = 'CLOSE_POSITIONS'
+    CLOSE_POSITIONS = 'CLOSE_POSITIONS',
+    // Liquidation guard
+    LIQUIDATION_WARNING = 'LIQUIDATION_WARNING',
+    MARGIN_TOP_UP = 'MARGIN_TOP_UP',
+    TRIM_HEDGE = 'TRIM_HEDGE'
   }
   
   // Execution types
@@ -81,16 +296,84 @@ export interface LPPosition {
     details?: string;
     error?: string;
     timestamp: number;
+    blockNumber?: bigint; // Snapshot block the decision was based on
+    slippage: number | null;          // Realized fill vs reference price, null when nothing traded
+    filledSizeCoin?: number;          // Confirmed filled size in coins
+    feeUsd?: number;
+    referencePrice?: number;
+    avgFillPrice?: number;
+    remainingSizeCoin?: number;       // Size left unfilled after retries
+    execution?: ExecutionProgress;    // Child order progress of a split order
+    deferReason?: string;             // Why the order was held back for a later cycle, not an error
+  }
+  
+  // Hedge target orders are placed for, persisted so a restart reuses its client order keys
+  export interface HedgeIntent {
+    coin: string;
+    targetSizeCoin: number;            // Short size the hedge is moved to
+    snapshotId: string;                // LP snapshot block the target was first computed at
+    settledOrders: number;             // Orders placed for it whose outcome is known
+    pendingOrderKey: string | null;    // Order sent whose outcome was never seen
+  }
+  
+  // Hedge state of a single perp coin, netted across every pool it hedges
+  export interface CoinHedgeState {
+    coin: string;
+    pools: string[];
+    lpPosition: LPPosition | null;           // Combined across pools
+    poolPositions: Record<string, LPPosition>; // Per pool address
+    hedgePosition: HyperliquidPosition | null;
+    fundingPnl: number;                // Funding received (+) or paid (-) by the open hedge, USD
+    funding: HyperliquidFundingOutlook | null;
+    price: number;                     // Price exposures are valued at
+    priceSource: 'mark' | 'twap';      // Hyperliquid mark, or pool TWAP when HL is unreachable
+    markPrice: number;                 // 0 when Hyperliquid is unreachable
+    twapPrice: number | null;          // null when the pool oracle read failed
+    priceDivergence: number | null;    // |mark - TWAP| / TWAP as a fraction
+    tradingHaltReason: string | null;  // Set while the price cross-check blocks trading
+    deviation: number;
+    rebalanceThreshold: number;
+    lastAction: ExecutionResult | null;
+  }
+  
+  // Health of one RPC endpoint in the failover pool
+  export interface RpcEndpointHealth {
+    url: string;                 // Masked - RPC URLs often embed API keys
+    priority: number;            // Position in the configured list
+    status: 'healthy' | 'demoted' | 'stale';
+    score: number;               // 0-100 from error rate and latency
+    latencyMs: number;           // Moving average
+    errorRate: number;           // Moving average, 0-1
+    consecutiveFailures: number;
+    totalRequests: number;
+    totalFailures: number;
+    lastBlock: bigint | null;    // Head block at the last health check
+    blockLag: number;            // Blocks behind the best endpoint
+    demotedUntil: number | null; // Timestamp in ms
+    lastError: string | null;
   }
   
   // Dashboard data
   export interface BotState {
     status: BotStatus;
     lastCheck: number;  // timestamp
+    snapshot: BlockSnapshot | null; // Block all LP reads of the last cycle were pinned to
+    // Primary (first configured) coin - kept for single-pool setups
     lpPosition: LPPosition | null;
     hedgePosition: HyperliquidPosition | null;
     pendlePrice: number;
     deviation: number;  // Current deviation between LP and hedge
-    lastAction: ExecutionResult | null;
+    lastAction: ExecutionResult | null;  // Most recent action on any coin
+    // Every hedged coin and portfolio totals
+    coins: Record<string, CoinHedgeState>;
+    totalLpValueUSD: number;
+    totalHedgeExposure: number;  // Volatile exposure across all coins
+    totalFundingPnl: number;     // Funding P&L of every open hedge
+    rpcEndpoints: RpcEndpointHealth[];
+    hyperliquidFeed: HyperliquidFeedStatus | null;  // null when the WebSocket feed is disabled
+    hyperliquidRateLimit: RateLimiterStatus;
+    hyperliquidAccount: HyperliquidAccountSummary | null;  // null until first read
+    marginUsageLevel: MarginUsageLevel;
+    unexpectedPositions: string[];  // Coins with open positions the bot does not hedge
     errors: string[];
   }
\ No newline at end of file
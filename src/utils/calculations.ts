@@ -1,7 +1,16 @@
 import { formatUnits } from 'viem';
-import { LPPosition, HyperliquidPosition, HedgingAction } from '../types';
+import {
+  LPPosition,
+  HyperliquidPosition,
+  HedgingAction,
+  HyperliquidFundingPayment,
+  MarginUsageLevel,
+} from '../types';
 import logger from '../logger';
 
+// Hyperliquid pays funding every hour
+const FUNDING_INTERVAL_MS = 60 * 60 * 1000;
+
 /**
  * Formats a token amount based on its decimals
  */
@@ -16,13 +25,97 @@ export function calculateUsdValue(amount: number, price: number): number {
   return amount * price;
 }
 
+// Symbols treated as $1 when the hedged token cannot be matched by name
+const STABLECOIN_SYMBOLS = ['USDT', 'USDT0', 'USDC', 'USDC.E', 'DAI', 'USDE', 'FRAX'];
+
+/**
+ * Works out which pool token is the volatile asset to hedge.
+ * Token order in a pool follows address sort, so the hedged asset can be either token.
+ * @param hedgeTokenAddress Explicit override - wins when set
+ * @param pairTicker Pair such as "PENDLE-USDT" - the base symbol is the hedged asset
+ * @returns 0 or 1 for token0 or token1
+ */
+export function identifyVolatileToken(
+  token0: { address: string; symbol: string },
+  token1: { address: string; symbol: string },
+  pairTicker: string,
+  hedgeTokenAddress?: string
+): 0 | 1 {
+  if (hedgeTokenAddress) {
+    if (hedgeTokenAddress.toLowerCase() === token0.address.toLowerCase()) return 0;
+    if (hedgeTokenAddress.toLowerCase() === token1.address.toLowerCase()) return 1;
+    throw new Error(`Hedge token ${hedgeTokenAddress} is not part of the pool`);
+  }
+  
+  const [baseSymbol, quoteSymbol] = pairTicker.toUpperCase().split('-');
+  const symbol0 = token0.symbol.toUpperCase();
+  const symbol1 = token1.symbol.toUpperCase();
+  
+  if (symbol0 === baseSymbol && symbol1 !== baseSymbol) return 0;
+  if (symbol1 === baseSymbol && symbol0 !== baseSymbol) return 1;
+  if (quoteSymbol && symbol0 === quoteSymbol && symbol1 !== quoteSymbol) return 1;
+  if (quoteSymbol && symbol1 === quoteSymbol && symbol0 !== quoteSymbol) return 0;
+  
+  // Fall back to the side that is not a known stablecoin
+  const isStable0 = STABLECOIN_SYMBOLS.includes(symbol0);
+  const isStable1 = STABLECOIN_SYMBOLS.includes(symbol1);
+  if (isStable1 && !isStable0) return 0;
+  if (isStable0 && !isStable1) return 1;
+  
+  throw new Error(
+    `Cannot tell which of ${token0.symbol}/${token1.symbol} to hedge for ${pairTicker}. ` +
+    'Set HEDGE_TOKEN_ADDRESS.'
+  );
+}
+
 /**
  * Calculates the optimal hedge size for a given LP position
- * For a 50/50 pool, we want to hedge the token0 (PENDLE) exposure 
+ * For a 50/50 pool, we want to hedge the volatile token (PENDLE) exposure,
+ * whichever side of the pool it is on
  */
 export function calculateRequiredHedgeSize(lpPosition: LPPosition): number {
-  // We assume token0 is PENDLE - this is what we need to hedge
-  return lpPosition.token0Exposure;
+  return lpPosition.volatileExposure;
+}
+
+/**
+ * Nets LP positions from several pools that are hedged with the same perp.
+ * Hedged, stable and total USD values always add up. Per-token fields are
+ * only summed for positions on the same token pair as the first one, since
+ * token0 of one pool can be a different token in another - the first
+ * position's token metadata is kept.
+ * @returns The combined position, or null when there is nothing to combine
+ */
+export function mergeLPPositions(positions: LPPosition[]): LPPosition | null {
+  if (positions.length === 0) {
+    return null;
+  }
+  
+  const [first, ...rest] = positions;
+  const merged: LPPosition = { ...first };
+  
+  for (const position of rest) {
+    const samePair =
+      position.token0Address.toLowerCase() === first.token0Address.toLowerCase() &&
+      position.token1Address.toLowerCase() === first.token1Address.toLowerCase();
+    
+    if (samePair) {
+      merged.liquidityAmount += position.liquidityAmount;
+      merged.token0Amount += position.token0Amount;
+      merged.token1Amount += position.token1Amount;
+      merged.token0FeesAmount += position.token0FeesAmount;
+      merged.token1FeesAmount += position.token1FeesAmount;
+      merged.token0Exposure += position.token0Exposure;
+      merged.token1Exposure += position.token1Exposure;
+      merged.token0FeesExposure += position.token0FeesExposure;
+      merged.token1FeesExposure += position.token1FeesExposure;
+    }
+    
+    merged.volatileExposure += position.volatileExposure;
+    merged.stableExposure += position.stableExposure;
+    merged.totalValueUSD += position.totalValueUSD;
+  }
+  
+  return merged;
 }
 
 /**
@@ -57,7 +150,7 @@ export function determineHedgeAction(
   if (!lpPosition || lpPosition.totalValueUSD === 0) {
     return {
       action: HedgingAction.CLOSE_POSITIONS,
-      sizeChange: hedgePosition ? Math.abs(hedgePosition.size) : 0
+      sizeChange: hedgePosition ? hedgePosition.notionalUsd : 0
     };
   }
   
@@ -75,7 +168,7 @@ export function determineHedgeAction(
   
   // If we have both positions, check for rebalance needs
   if (hedgePosition) {
-    const currentHedgeSize = Math.abs(hedgePosition.size);
+    const currentHedgeSize = hedgePosition.notionalUsd;
     const deviation = Math.abs(requiredHedgeSize - currentHedgeSize) / requiredHedgeSize;
     
     logger.debug(`Current hedge: ${currentHedgeSize.toFixed(2)} USD, Required: ${requiredHedgeSize.toFixed(2)} USD`);
@@ -108,6 +201,70 @@ export function determineHedgeAction(
   };
 }
 
+/**
+ * Hedge position including the unfilled size of in-flight orders, so size that is
+ * already on its way is not hedged again
+ * @param pendingSizeCoin Signed unfilled size of open orders, buys positive
+ */
+export function applyPendingOrders(
+  hedgePosition: HyperliquidPosition | null,
+  pendingSizeCoin: number,
+  price: number,
+  coin: string
+): HyperliquidPosition | null {
+  if (pendingSizeCoin === 0) {
+    return hedgePosition;
+  }
+  
+  const sizeCoin = (hedgePosition?.sizeCoin ?? 0) + pendingSizeCoin;
+  const base = hedgePosition ?? {
+    coin,
+    entryPrice: price,
+    leverage: 1,
+    marginMode: 'cross' as const,
+    marginUsd: 0,
+    markPrice: price,
+    unrealizedPnl: 0,
+    liquidationPrice: 0
+  };
+  
+  return {
+    ...base,
+    sizeCoin,
+    notionalUsd: Math.abs(sizeCoin) * price,
+    side: sizeCoin > 0 ? 'LONG' : 'SHORT'
+  };
+}
+
+/**
+ * Funding received (positive) or paid (negative) by the current position. Only the
+ * payments since the position was last flat or on the other side count - funding is
+ * paid hourly, so a missed hour means the account was flat.
+ * @param payments Funding payments of one coin, oldest first
+ * @param sizeCoin Signed size of the current position
+ */
+export function calculatePositionFundingPnl(
+  payments: HyperliquidFundingPayment[],
+  sizeCoin: number
+): number {
+  let total = 0;
+  let newerTime: number | null = null;
+  
+  for (let i = payments.length - 1; i >= 0; i--) {
+    const payment = payments[i];
+    if (sizeCoin === 0 || Math.sign(payment.sizeCoin) !== Math.sign(sizeCoin)) {
+      break;
+    }
+    if (newerTime !== null && newerTime - payment.time > FUNDING_INTERVAL_MS * 1.5) {
+      break;
+    }
+    total += payment.usdc;
+    newerTime = payment.time;
+  }
+  
+  return total;
+}
+
 /**
  * Calculates the token amount from USD value and price
  */
@@ -116,13 +273,69 @@ export function calculateTokenAmount(usdValue: number, tokenPrice: number): numb
 }
 
 /**
- * Calculates if the funding rate makes it worth keeping the position
+ * Relative divergence of a price from a reference price, e.g. 0.03 for 3%
+ */
+export function calculatePriceDivergence(price: number, referencePrice: number): number {
+  if (referencePrice <= 0) {
+    throw new Error(`Invalid reference price: ${referencePrice}`);
+  }
+  
+  return Math.abs(price - referencePrice) / referencePrice;
+}
+
+/**
+ * Mean of hourly funding rates, 0 without any
+ */
+export function calculateAverageFundingRate(hourlyRates: number[]): number {
+  if (hourlyRates.length === 0) {
+    return 0;
+  }
+  
+  return hourlyRates.reduce((sum, rate) => sum + rate, 0) / hourlyRates.length;
+}
+
+/**
+ * Calculates if the funding rate makes it worth keeping the position.
+ * Positive rates are paid by longs to shorts, so only funding the side pays counts
+ * against the tolerance - receiving funding is always acceptable.
+ * @param fundingRate Rate over the same period as the tolerance, e.g. daily
+ * @param fundingTolerance Highest acceptable cost
+ * @param side Side of the position
  */
 export function isFundingRateAcceptable(
   fundingRate: number, 
-  fundingTolerance: number
+  fundingTolerance: number,
+  side: 'LONG' | 'SHORT'
 ): boolean {
-  // Funding rate is typically given as daily percentage
-  // We check if it's within our tolerance
-  return Math.abs(fundingRate) <= fundingTolerance;
-}
\ No newline at end of file
+  const cost = side === 'SHORT' ? -fundingRate : fundingRate;
+  return cost <= fundingTolerance;
+}
+
+/**
+ * Level margin usage has reached
+ * @param marginUsage Margin used as a fraction of account value
+ * @param warnLevel Usage from which to warn
+ * @param criticalLevel Usage from which the account is close to being unable to hedge
+ */
+export function getMarginUsageLevel(
+  marginUsage: number,
+  warnLevel: number,
+  criticalLevel: number
+): MarginUsageLevel {
+  if (marginUsage >= criticalLevel) return 'critical';
+  if (marginUsage >= warnLevel) return 'warn';
+  return 'ok';
+}
+
+/**
+ * Open positions on coins the bot does not hedge, e.g. opened by hand on the same account
+ * @param hedgedCoins Hyperliquid coin names the bot trades
+ */
+export function findUnexpectedPositions(
+  positions: HyperliquidPosition[],
+  hedgedCoins: string[]
+): HyperliquidPosition[] {
+  return positions.filter(position =>
+    position.sizeCoin !== 0 && !hedgedCoins.includes(position.coin)
+  );
+}
@@ -1,6 +1,20 @@
+import { isAddress } from 'viem';
 import { config } from '../config';
 import logger from '../logger';
-import { isValidPrivateKey, isValidApiKey, maskAddress } from './secureUtils';
+import { HyperliquidUserRole } from '../types';
+import { isValidPrivateKey, maskAddress } from './secureUtils';
+
+// What the Hyperliquid account check needs from the exchange - implemented by HyperliquidClient
+export interface HyperliquidAccountSource {
+  getSignerAddress(): `0x${string}`;
+  getMasterAddress(): `0x${string}`;
+  getUserRole(address: `0x${string}`): Promise<HyperliquidUserRole>;
+  getVaultLeader(vaultAddress: `0x${string}`): Promise<`0x${string}`>;
+}
+
+function isSameAddress(a: string | null, b: string): boolean {
+  return a !== null && a.toLowerCase() === b.toLowerCase();
+}
 
 /**
  * Validates critical configuration settings
@@ -10,11 +24,26 @@ export function validateConfig(): boolean {
   const validations: { [key: string]: boolean } = {};
   let isValid = true;
   
-  // Validate RPC URL
-  validations.rpc = Boolean(config.rpc) && typeof config.rpc === 'string' && config.rpc.startsWith('http');
+  // Validate RPC URLs - the primary and every fallback
+  validations.rpc = config.rpcUrls.every(url => Boolean(url) && url.startsWith('http'));
   if (!validations.rpc) {
     logger.error('Invalid RPC URL. Must start with http:// or https://');
     isValid = false;
+  } else if (config.rpcUrls.length > 1) {
+    logger.debug(`Using ${config.rpcUrls.length} RPC endpoints with failover`);
+  }
+  
+  validations.rpcFailover =
+    config.rpcTimeoutMs >= 1000 &&
+    config.rpcDemotionMs >= 1000 &&
+    config.rpcMaxBlockLag >= 1 &&
+    config.rpcHealthCheckIntervalMs >= 5000;
+  if (!validations.rpcFailover) {
+    logger.error(
+      'Invalid RPC failover settings. Timeout and demotion must be at least 1000ms, ' +
+      'block lag at least 1 and the health check interval at least 5000ms'
+    );
+    isValid = false;
   }
   
   // Validate wallet address
@@ -39,26 +68,64 @@ export function validateConfig(): boolean {
     }
   }
   
-  // Validate Uniswap pool address
-  validations.uniswapPool = Boolean(
-    config.uniswapPool && 
-    config.uniswapPool.startsWith('0x') && 
-    config.uniswapPool.length === 42
-  );
-  if (!validations.uniswapPool) {
-    logger.error('Invalid Uniswap pool address. Must be a valid Ethereum address (0x...)');
+  // Validate every watched Uniswap pool
+  validations.pools = config.pools.length > 0;
+  const seenPools = new Set<string>();
+  config.pools.forEach((pool, i) => {
+    const label = `Pool ${i + 1} (${pool.pairTicker})`;
+    
+    const validAddress = Boolean(
+      pool.address &&
+      pool.address.startsWith('0x') &&
+      pool.address.length === 42
+    );
+    if (!validAddress) {
+      logger.error(`${label}: invalid Uniswap pool address. Must be a valid address (0x...)`);
+      validations.pools = false;
+    } else if (seenPools.has(pool.address.toLowerCase())) {
+      logger.error(`${label}: pool ${maskAddress(pool.address)} is configured more than once`);
+      validations.pools = false;
+    } else {
+      seenPools.add(pool.address.toLowerCase());
+      logger.debug(`Using Uniswap pool: ${maskAddress(pool.address)} -> ${pool.perpTicker}`);
+    }
+    
+    if (!pool.perpTicker) {
+      logger.error(`${label}: missing perp ticker to hedge with`);
+      validations.pools = false;
+    }
+    
+    if (!(pool.rebalanceThreshold > 0 && pool.rebalanceThreshold < 1)) {
+      logger.error(`${label}: invalid rebalance threshold. Must be between 0 and 1`);
+      validations.pools = false;
+    }
+    
+    if (pool.hedgeTokenAddress &&
+      !(pool.hedgeTokenAddress.startsWith('0x') && pool.hedgeTokenAddress.length === 42)) {
+      logger.error(`${label}: invalid hedge token address. Must be a valid address (0x...)`);
+      validations.pools = false;
+    }
+  });
+  if (!validations.pools) {
     isValid = false;
-  } else {
-    logger.debug(`Using Uniswap pool: ${maskAddress(config.uniswapPool)}`);
   }
   
-  // Validate hyperliquid signing key
+  // Validate hyperliquid signing key - exchange actions are signed with it as an EVM key
   validations.hyperliquidSigningKey = Boolean(
     config.hyperliquidSigningKey && 
-    isValidApiKey(config.hyperliquidSigningKey)
+    isValidPrivateKey(config.hyperliquidSigningKey)
   );
   if (!validations.hyperliquidSigningKey) {
-    logger.error('Invalid Hyperliquid signing key');
+    logger.error('Invalid Hyperliquid signing key. Must be a valid 32-byte hex private key');
+    isValid = false;
+  }
+  
+  // Validate the Hyperliquid master account an agent key trades for, and the sub-account or vault
+  validations.hyperliquidAccounts =
+    (!config.hyperliquidAccountAddress || isAddress(config.hyperliquidAccountAddress)) &&
+    (!config.hyperliquidVaultAddress || isAddress(config.hyperliquidVaultAddress));
+  if (!validations.hyperliquidAccounts) {
+    logger.error('Invalid Hyperliquid account or vault address. Must be a valid address (0x...)');
     isValid = false;
   }
   
@@ -72,6 +139,26 @@ export function validateConfig(): boolean {
     isValid = false;
   }
   
+  validations.hyperliquidWsEndpoint =
+    config.hyperliquidWsEndpoint === '' || config.hyperliquidWsEndpoint.startsWith('ws');
+  if (!validations.hyperliquidWsEndpoint) {
+    logger.error('Invalid Hyperliquid WebSocket endpoint. Must start with ws:// or wss://');
+    isValid = false;
+  }
+  
+  validations.hyperliquidWsStaleMs = config.hyperliquidWsStaleMs > 0;
+  if (!validations.hyperliquidWsStaleMs) {
+    logger.error('Invalid Hyperliquid WebSocket staleness window. Must be greater than 0');
+    isValid = false;
+  }
+  
+  validations.hyperliquidWeightPerMinute =
+    config.hyperliquidWeightPerMinute > 0 && config.hyperliquidWeightPerMinute <= 1200;
+  if (!validations.hyperliquidWeightPerMinute) {
+    logger.error('Invalid Hyperliquid request weight budget. Must be between 1 and 1200 per minute');
+    isValid = false;
+  }
+  
   // Validate trading parameters
   validations.rebalanceThreshold = config.rebalanceThreshold > 0 && config.rebalanceThreshold < 1;
   if (!validations.rebalanceThreshold) {
@@ -85,12 +172,111 @@ export function validateConfig(): boolean {
     isValid = false;
   }
   
+  validations.fundingLookbackHours =
+    Number.isInteger(config.fundingLookbackHours) && config.fundingLookbackHours >= 1;
+  if (!validations.fundingLookbackHours) {
+    logger.error('Invalid funding lookback. Must be a whole number of hours, at least 1');
+    isValid = false;
+  }
+  
   validations.slippageTolerance = config.slippageTolerance > 0 && config.slippageTolerance < 1;
   if (!validations.slippageTolerance) {
     logger.error('Invalid slippage tolerance. Must be between 0 and 1');
     isValid = false;
   }
   
+  validations.orderFillRetries =
+    Number.isInteger(config.orderFillRetries) && config.orderFillRetries >= 0;
+  if (!validations.orderFillRetries) {
+    logger.error('Invalid order fill retries. Must be a non-negative integer');
+    isValid = false;
+  }
+  
+  validations.hedgeLeverage =
+    Number.isInteger(config.hedgeLeverage) && config.hedgeLeverage >= 1;
+  if (!validations.hedgeLeverage) {
+    logger.error('Invalid hedge leverage. Must be a whole number of at least 1');
+    isValid = false;
+  }
+  
+  validations.hedgeMarginMode =
+    config.hedgeMarginMode === 'isolated' || config.hedgeMarginMode === 'cross';
+  if (!validations.hedgeMarginMode) {
+    logger.error('Invalid hedge margin mode. Must be isolated or cross');
+    isValid = false;
+  }
+  
+  validations.hedgeLeverageBand =
+    config.hedgeLeverageMin > 0 &&
+    config.hedgeLeverageMin <= config.hedgeLeverage &&
+    config.hedgeLeverage <= config.hedgeLeverageMax;
+  if (!validations.hedgeLeverageBand) {
+    logger.error('Invalid hedge leverage band. Must satisfy 0 < MIN <= HEDGE_LEVERAGE <= MAX');
+    isValid = false;
+  }
+  
+  validations.liquidationThresholds =
+    config.liquidationTrimDistance > 0 &&
+    config.liquidationTrimDistance < config.liquidationTopUpDistance &&
+    config.liquidationTopUpDistance < config.liquidationWarnDistance &&
+    config.liquidationWarnDistance < 1;
+  if (!validations.liquidationThresholds) {
+    logger.error('Invalid liquidation thresholds. Must satisfy 0 < TRIM < TOPUP < WARN < 100');
+    isValid = false;
+  }
+  
+  validations.liquidationTrimFraction =
+    config.liquidationTrimFraction > 0 && config.liquidationTrimFraction <= 1;
+  if (!validations.liquidationTrimFraction) {
+    logger.error('Invalid liquidation trim percent. Must be above 0 and at most 100');
+    isValid = false;
+  }
+  
+  validations.liquidationTrimCooldown = config.liquidationTrimCooldownMs >= 0;
+  if (!validations.liquidationTrimCooldown) {
+    logger.error('Invalid liquidation trim cooldown. Must be 0 or more milliseconds');
+    isValid = false;
+  }
+  
+  validations.marginUsageLevels =
+    config.marginUsageWarn > 0 &&
+    config.marginUsageWarn < config.marginUsageCritical &&
+    config.marginUsageCritical <= 1;
+  if (!validations.marginUsageLevels) {
+    logger.error('Invalid margin usage levels. Must satisfy 0 < WARN < CRITICAL <= 100');
+    isValid = false;
+  }
+  
+  validations.execution =
+    config.executionSplitNotionalUsd >= 10 &&
+    config.executionChildIntervalMs >= 0 &&
+    config.executionMaxDurationMs > config.executionChildIntervalMs &&
+    Number.isInteger(config.executionMaxSlices) && config.executionMaxSlices >= 1 &&
+    config.executionBookShare > 0 && config.executionBookShare <= 1;
+  if (!validations.execution) {
+    logger.error(
+      'Invalid execution settings. The split notional must be at least 10 USD, the child ' +
+      'interval at least 0ms and below the max duration, the max slices a whole number of ' +
+      'at least 1, and the book share above 0 and at most 100 percent'
+    );
+    isValid = false;
+  }
+  
+  validations.priceDivergenceThreshold =
+    config.priceDivergenceThreshold > 0 && config.priceDivergenceThreshold < 1;
+  if (!validations.priceDivergenceThreshold) {
+    logger.error('Invalid price divergence threshold. Must be between 0 and 1');
+    isValid = false;
+  }
+  
+  // Validate pool TWAP window (observe() takes whole seconds)
+  validations.twapWindowSeconds =
+    Number.isInteger(config.twapWindowSeconds) && config.twapWindowSeconds >= 60;
+  if (!validations.twapWindowSeconds) {
+    logger.error('Invalid TWAP window. Must be a whole number of at least 60 seconds');
+    isValid = false;
+  }
+  
   // Validate check interval (at least 5 seconds)
   validations.checkIntervalMs = config.checkIntervalMs >= 5000;
   if (!validations.checkIntervalMs) {
@@ -98,6 +284,47 @@ export function validateConfig(): boolean {
     isValid = false;
   }
   
+  // Validate how often closed LP positions are re-read without the event index
+  validations.lpClosedRecheckCycles =
+    Number.isInteger(config.lpClosedRecheckCycles) && config.lpClosedRecheckCycles >= 1;
+  if (!validations.lpClosedRecheckCycles) {
+    logger.error('Invalid closed position re-check interval. Must be a whole number of cycles');
+    isValid = false;
+  }
+  
+  // Validate event-driven LP tracking settings (only used when the index is enabled)
+  if (config.lpIndexEnabled) {
+    // Replaying from genesis would take tens of thousands of getLogs calls on Arbitrum
+    validations.lpIndexStartBlock =
+      Number.isInteger(config.lpIndexStartBlock) && config.lpIndexStartBlock >= 1;
+    if (!validations.lpIndexStartBlock) {
+      logger.error(
+        'LP_INDEX_START_BLOCK is required with the LP index, set it to the block of the first ' +
+        'position NFT'
+      );
+      isValid = false;
+    }
+    
+    validations.lpIndexBlockRange = config.lpIndexBlockRange >= 1;
+    if (!validations.lpIndexBlockRange) {
+      logger.error('Invalid LP index block range. Must be at least 1 block');
+      isValid = false;
+    }
+    
+    validations.eventPollIntervalMs = config.eventPollIntervalMs >= 1000;
+    if (!validations.eventPollIntervalMs) {
+      logger.error('Invalid event poll interval. Must be at least 1000ms (1 second)');
+      isValid = false;
+    }
+    
+    validations.swapTriggerThreshold =
+      config.swapTriggerThreshold > 0 && config.swapTriggerThreshold < 1;
+    if (!validations.swapTriggerThreshold) {
+      logger.error('Invalid swap trigger threshold. Must be between 0 and 1');
+      isValid = false;
+    }
+  }
+  
   // Log validation results
   if (isValid) {
     logger.info('Configuration validation passed');
@@ -109,4 +336,53 @@ export function validateConfig(): boolean {
   return isValid;
 }
 
+/**
+ * Checks on the exchange that the Hyperliquid key may trade for the configured account:
+ * either it is the account's own key or an agent wallet the account approved. A configured
+ * sub-account must belong to the account, and a vault must be led by it.
+ * @returns True if the key may trade
+ */
+export async function validateHyperliquidAccount(
+  exchange: HyperliquidAccountSource
+): Promise<boolean> {
+  const signer = exchange.getSignerAddress();
+  const master = exchange.getMasterAddress();
+  
+  try {
+    if (!isSameAddress(signer, master)) {
+      const role = await exchange.getUserRole(signer);
+      if (role.role !== 'agent' || !isSameAddress(role.owner, master)) {
+        logger.error(
+          `Hyperliquid key ${maskAddress(signer)} is not an agent wallet approved by ` +
+          `${maskAddress(master)}`
+        );
+        return false;
+      }
+      logger.info(`Trading through agent wallet ${maskAddress(signer)} for ${maskAddress(master)}`);
+    }
+    
+    const vault = config.hyperliquidVaultAddress as `0x${string}`;
+    if (vault) {
+      const role = await exchange.getUserRole(vault);
+      const belongsToMaster = role.role === 'subAccount'
+        ? isSameAddress(role.owner, master)
+        : role.role === 'vault' && isSameAddress(await exchange.getVaultLeader(vault), master);
+      
+      if (!belongsToMaster) {
+        logger.error(
+          `Hyperliquid ${role.role} ${maskAddress(vault)} is not a sub-account or vault of ` +
+          `${maskAddress(master)}`
+        );
+        return false;
+      }
+      logger.info(`Trading on behalf of ${role.role} ${maskAddress(vault)}`);
+    }
+    
+    return true;
+  } catch (error) {
+    logger.error(`Failed to check Hyperliquid account permissions: ${error}`);
+    return false;
+  }
+}
+
 export default validateConfig;
\ No newline at end of file
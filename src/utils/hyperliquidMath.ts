@@ -0,0 +1,213 @@
+/**
+ * Hyperliquid perp order sizing and price rounding rules, book depth and impact, and
+ * funding periods.
+ * Sizes are in coins with szDecimals decimals. Prices take at most 5 significant
+ * figures and MAX_PERP_DECIMALS - szDecimals decimals, integer prices are always valid.
+ */
+
+import { HyperliquidFillEstimate, HyperliquidFundingRate, HyperliquidL2Book } from '../types';
+
+export const MAX_PERP_DECIMALS = 6;
+export const MAX_PRICE_SIGNIFICANT_FIGURES = 5;
+
+// Orders below this notional are rejected by the exchange
+export const MIN_ORDER_NOTIONAL_USD = 10;
+
+// Smaller isolated margin changes are not worth an exchange action
+export const MIN_MARGIN_ADJUSTMENT_USD = 1;
+
+// Funding is paid every hour; longer periods are quoted by simple multiplication
+const HOURS_PER_DAY = 24;
+const HOURS_PER_YEAR = HOURS_PER_DAY * 365;
+
+// Absorbs float noise such as 1670.1 * 10 = 16700.999999999998 before rounding
+const ROUNDING_EPSILON = 1e-9;
+
+export type RoundingDirection = 'nearest' | 'up' | 'down';
+
+function roundTo(value: number, decimals: number, direction: RoundingDirection): number {
+  const factor = 10 ** decimals;
+  const scaled = value * factor;
+
+  let rounded: number;
+  switch (direction) {
+    case 'up':
+      rounded = Math.ceil(scaled - ROUNDING_EPSILON);
+      break;
+    case 'down':
+      rounded = Math.floor(scaled + ROUNDING_EPSILON);
+      break;
+    default:
+      rounded = Math.round(scaled);
+  }
+
+  return Number((rounded / factor).toFixed(decimals));
+}
+
+/**
+ * Round a coin size to the asset's size decimals
+ * @param direction Use 'down' to never exceed the size asked for
+ */
+export function roundSize(
+  sizeCoin: number,
+  szDecimals: number,
+  direction: RoundingDirection = 'nearest'
+): number {
+  const rounded = roundTo(Math.abs(sizeCoin), szDecimals, direction);
+  return sizeCoin < 0 ? -rounded : rounded;
+}
+
+/**
+ * Round a price to a valid tick for an asset
+ * @param direction Use 'down' for buys and 'up' for sells to stay inside a price bound
+ */
+export function roundPrice(
+  price: number,
+  szDecimals: number,
+  direction: RoundingDirection = 'nearest'
+): number {
+  if (!(price > 0)) {
+    throw new Error(`Invalid price: ${price}`);
+  }
+
+  if (Number.isInteger(price)) {
+    return price;
+  }
+
+  const magnitude = Math.floor(Math.log10(price));
+  const significantDecimals = MAX_PRICE_SIGNIFICANT_FIGURES - 1 - magnitude;
+  const maxDecimals = MAX_PERP_DECIMALS - szDecimals;
+  const decimals = Math.max(0, Math.min(significantDecimals, maxDecimals));
+
+  return roundTo(price, decimals, direction);
+}
+
+/**
+ * Convert a USD amount to a coin size rounded to the asset's size decimals
+ */
+export function usdToCoinSize(
+  usd: number,
+  price: number,
+  szDecimals: number,
+  direction: RoundingDirection = 'nearest'
+): number {
+  if (!(price > 0)) {
+    throw new Error(`Invalid price: ${price}`);
+  }
+
+  return roundSize(usd / price, szDecimals, direction);
+}
+
+/**
+ * Realized slippage of a fill against a reference price, as a fraction.
+ * Positive means the fill was worse than the reference: above it for buys, below it for sells.
+ */
+export function calculateSlippage(
+  side: 'BUY' | 'SELL',
+  referencePrice: number,
+  fillPrice: number
+): number {
+  if (!(referencePrice > 0)) {
+    throw new Error(`Invalid reference price: ${referencePrice}`);
+  }
+
+  const move = (fillPrice - referencePrice) / referencePrice;
+  return side === 'BUY' ? move : -move;
+}
+
+/**
+ * Isolated margin to add (positive) or remove (negative) to bring a position's
+ * effective leverage back to target once it leaves the [minLeverage, maxLeverage] band.
+ * Returns 0 while the leverage is inside the band.
+ */
+export function calculateMarginAdjustment(
+  notionalUsd: number,
+  marginUsd: number,
+  targetLeverage: number,
+  minLeverage: number,
+  maxLeverage: number
+): number {
+  if (notionalUsd <= 0) {
+    return 0;
+  }
+  if (marginUsd <= 0) {
+    return notionalUsd / targetLeverage;
+  }
+
+  const leverage = notionalUsd / marginUsd;
+  if (leverage >= minLeverage && leverage <= maxLeverage) {
+    return 0;
+  }
+
+  return notionalUsd / targetLeverage - marginUsd;
+}
+
+/**
+ * Quote an hourly funding rate over 8 hours, a day and a year
+ */
+export function toFundingRate(hourly: number): HyperliquidFundingRate {
+  return {
+    hourly,
+    eightHour: hourly * 8,
+    daily: hourly * HOURS_PER_DAY,
+    annualized: hourly * HOURS_PER_YEAR,
+  };
+}
+
+/**
+ * Size resting on the side of the book an order takes, up to a limit price:
+ * bids down to the limit for a sell, asks up to it for a buy
+ */
+export function calculateBookDepth(
+  book: HyperliquidL2Book,
+  side: 'BUY' | 'SELL',
+  limitPrice: number
+): number {
+  const levels = side === 'BUY'
+    ? book.asks.filter(level => level.price <= limitPrice)
+    : book.bids.filter(level => level.price >= limitPrice);
+  return levels.reduce((total, level) => total + level.sizeCoin, 0);
+}
+
+/**
+ * Expected fill of a market order taking the book level by level, from a snapshot.
+ * Size beyond the visible depth is left out of the average, so check fillableSizeCoin.
+ */
+export function estimateFill(
+  book: HyperliquidL2Book,
+  side: 'BUY' | 'SELL',
+  sizeCoin: number
+): HyperliquidFillEstimate {
+  const bestBid = book.bids[0]?.price;
+  const bestAsk = book.asks[0]?.price;
+  if (!(bestBid > 0) || !(bestAsk > 0)) {
+    throw new Error(`No two-sided book for ${book.coin}`);
+  }
+
+  const midPrice = (bestBid + bestAsk) / 2;
+  const levels = side === 'BUY' ? book.asks : book.bids;
+  let remaining = Math.abs(sizeCoin);
+  let filledNotional = 0;
+  let worstPrice: number | null = null;
+
+  for (const level of levels) {
+    if (remaining <= 0) {
+      break;
+    }
+    const taken = Math.min(remaining, level.sizeCoin);
+    filledNotional += taken * level.price;
+    remaining -= taken;
+    worstPrice = level.price;
+  }
+
+  const fillableSizeCoin = Math.abs(sizeCoin) - remaining;
+  const avgFillPrice = fillableSizeCoin > 0 ? filledNotional / fillableSizeCoin : null;
+  return {
+    sizeCoin: Math.abs(sizeCoin),
+    fillableSizeCoin,
+    midPrice,
+    avgFillPrice,
+    worstPrice,
+    impact: avgFillPrice === null ? null : calculateSlippage(side, midPrice, avgFillPrice),
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Hyperliquid L1 action signing ported from the official Python SDK (signing.py).
+ * Actions are msgpack-encoded and hashed with the nonce, and the hash is signed
+ * as an EIP-712 "phantom agent" on the Exchange domain.
+ */
+
+import { encode } from '@msgpack/msgpack';
+import { concat, hexToSignature, keccak256, numberToHex, toHex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+
+export interface HyperliquidSignature {
+  r: `0x${string}`;
+  s: `0x${string}`;
+  v: number;
+}
+
+// Order as sent on the wire - field order matters, it is part of the signed hash
+export interface HyperliquidOrderWire {
+  a: number;                      // Asset index in the perp universe
+  b: boolean;                     // Is buy
+  p: string;                      // Limit price
+  s: string;                      // Size in coins
+  r: boolean;                     // Reduce only
+  t: { limit: { tif: 'Alo' | 'Ioc' | 'Gtc' } };
+  c?: `0x${string}`;              // Client order ID
+}
+
+export interface HyperliquidOrderAction {
+  type: 'order';
+  orders: HyperliquidOrderWire[];
+  grouping: 'na';
+}
+
+const EXCHANGE_DOMAIN = {
+  name: 'Exchange',
+  version: '1',
+  chainId: 1337,
+  verifyingContract: '0x0000000000000000000000000000000000000000',
+} as const;
+
+const AGENT_TYPES = {
+  Agent: [
+    { name: 'source', type: 'string' },
+    { name: 'connectionId', type: 'bytes32' },
+  ],
+} as const;
+
+/**
+ * Format a number the way the exchange expects: at most 8 decimals, no trailing zeros
+ */
+export function floatToWire(x: number): string {
+  const rounded = x.toFixed(8);
+  if (Math.abs(parseFloat(rounded) - x) >= 1e-12) {
+    throw new Error(`floatToWire causes rounding: ${x}`);
+  }
+
+  const normalized = rounded.replace(/\.?0+$/, '');
+  return normalized === '-0' ? '0' : normalized;
+}
+
+/**
+ * Scale a float to an integer for actions that hash integers (float_to_int_for_hashing)
+ */
+export function floatToIntForHashing(x: number): number {
+  const withDecimals = x * 1e8;
+  if (Math.abs(Math.round(withDecimals) - withDecimals) >= 1e-3) {
+    throw new Error(`floatToIntForHashing causes rounding: ${x}`);
+  }
+  return Math.round(withDecimals);
+}
+
+/**
+ * Scale a USD amount to the integer used by margin actions (float_to_usd_int)
+ */
+export function floatToUsdInt(x: number): number {
+  const withDecimals = x * 1e6;
+  if (Math.abs(Math.round(withDecimals) - withDecimals) >= 1e-3) {
+    throw new Error(`floatToUsdInt causes rounding: ${x}`);
+  }
+  return Math.round(withDecimals);
+}
+
+/**
+ * Client order ID for a key describing the order's intent: the first 16 bytes of its
+ * keccak256 hash, so the same intent always maps to the same cloid
+ */
+export function toCloid(key: string): `0x${string}` {
+  return keccak256(toHex(key)).slice(0, 34) as `0x${string}`;
+}
+
+/**
+ * Wrap order wires into an order action
+ */
+export function orderWiresToOrderAction(orders: HyperliquidOrderWire[]): HyperliquidOrderAction {
+  return { type: 'order', orders, grouping: 'na' };
+}
+
+/**
+ * keccak256 of msgpack(action) + nonce (8 bytes, big endian) + vault marker
+ * @param vaultAddress Vault or sub-account traded on behalf of, null for the signer's account
+ * @param nonce Millisecond timestamp, unique per signer
+ */
+export function actionHash(
+  action: object,
+  vaultAddress: string | null,
+  nonce: number
+): `0x${string}` {
+  const parts: `0x${string}`[] = [
+    toHex(encode(action, { ignoreUndefined: true })),
+    numberToHex(BigInt(nonce), { size: 8 }),
+  ];
+
+  if (vaultAddress === null) {
+    parts.push('0x00');
+  } else {
+    parts.push('0x01', vaultAddress.toLowerCase() as `0x${string}`);
+  }
+
+  return keccak256(concat(parts));
+}
+
+/**
+ * The phantom agent signed in place of the action
+ */
+export function constructPhantomAgent(
+  hash: `0x${string}`,
+  isMainnet: boolean
+): { source: string; connectionId: `0x${string}` } {
+  return { source: isMainnet ? 'a' : 'b', connectionId: hash };
+}
+
+/**
+ * Sign an L1 action for /exchange
+ * @param privateKey Key of the account or approved agent wallet
+ * @param isMainnet Mainnet and testnet use different phantom agent sources
+ */
+export async function signL1Action(
+  privateKey: `0x${string}`,
+  action: object,
+  vaultAddress: string | null,
+  nonce: number,
+  isMainnet: boolean
+): Promise<HyperliquidSignature> {
+  const account = privateKeyToAccount(privateKey);
+  const phantomAgent = constructPhantomAgent(actionHash(action, vaultAddress, nonce), isMainnet);
+
+  const signature = await account.signTypedData({
+    domain: EXCHANGE_DOMAIN,
+    types: AGENT_TYPES,
+    primaryType: 'Agent',
+    message: phantomAgent,
+  });
+
+  const { r, s, v } = hexToSignature(signature);
+  return { r, s, v: Number(v) };
+}
@@ -0,0 +1,56 @@
+/**
+ * Uniswap V3 pool address derivation ported from PoolAddress.sol
+ */
+
+import { encodeAbiParameters, getAddress, getCreate2Address, keccak256 } from 'viem';
+
+// Uniswap V3 factory - deployed at the same address on Arbitrum and mainnet
+export const UNISWAP_V3_FACTORY_ADDRESS = '0x1F98431c8aD98523631AE4a59f267346ea31F984';
+
+// keccak256 of the UniswapV3Pool creation code
+export const POOL_INIT_CODE_HASH =
+  '0xe34f199b19b2b4f47f68442619d555527d244f78a3297ea89325f843f87b8b54';
+
+/**
+ * Sort two token addresses the way the factory does (token0 < token1)
+ */
+export function sortTokens(
+  tokenA: `0x${string}`,
+  tokenB: `0x${string}`
+): [`0x${string}`, `0x${string}`] {
+  if (tokenA.toLowerCase() === tokenB.toLowerCase()) {
+    throw new Error(`Identical token addresses: ${tokenA}`);
+  }
+
+  return tokenA.toLowerCase() < tokenB.toLowerCase() ? [tokenA, tokenB] : [tokenB, tokenA];
+}
+
+/**
+ * Compute the deterministic CREATE2 address of a Uniswap V3 pool
+ * @param tokenA Either token of the pair - order does not matter
+ * @param tokenB The other token of the pair
+ * @param fee Fee tier in hundredths of a bip (e.g. 3000 for 0.3%)
+ * @returns Checksummed pool address
+ */
+export function computePoolAddress(
+  tokenA: `0x${string}`,
+  tokenB: `0x${string}`,
+  fee: number | bigint,
+  factoryAddress: `0x${string}` = UNISWAP_V3_FACTORY_ADDRESS,
+  initCodeHash: `0x${string}` = POOL_INIT_CODE_HASH
+): `0x${string}` {
+  const [token0, token1] = sortTokens(tokenA, tokenB);
+
+  const salt = keccak256(
+    encodeAbiParameters(
+      [{ type: 'address' }, { type: 'address' }, { type: 'uint24' }],
+      [getAddress(token0), getAddress(token1), Number(fee)]
+    )
+  );
+
+  return getCreate2Address({
+    from: factoryAddress,
+    salt,
+    bytecodeHash: initCodeHash,
+  });
+}
@@ -43,6 +43,22 @@ export function maskSensitiveString(
     return `${address.slice(0, 4)}...${address.slice(-4)}`;
   }
   
+  /**
+   * Mask a URL for display, keeping only the scheme and host
+   * Paths and query strings of RPC URLs often carry API keys.
+   * @param url The URL to mask
+   * @returns Masked URL
+   */
+  export function maskUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      const hasSecret = parsed.pathname.length > 1 || parsed.search !== '' || parsed.username !== '';
+      return `${parsed.protocol}//${parsed.host}${hasSecret ? '/***' : ''}`;
+    } catch {
+      return maskSensitiveString(url);
+    }
+  }
+  
   /**
    * Validates a private key
    * @param privateKey The private key to validate
@@ -100,6 +116,7 @@ export function maskSensitiveString(
   export default {
     maskSensitiveString,
     maskAddress,
+    maskUrl,
     isValidPrivateKey,
     isValidApiKey,
     secureCompare
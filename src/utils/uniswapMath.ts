@@ -0,0 +1,198 @@
+/**
+ * Uniswap V3 fixed-point math ported from TickMath.sol, Tick.sol and LiquidityAmounts.sol.
+ * All values are bigints so results match the on-chain contracts exactly.
+ */
+
+export const Q96 = 2n ** 96n;
+export const Q128 = 2n ** 128n;
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_RATIO = 4295128739n;
+export const MAX_SQRT_RATIO = 1461446703485210103287273052203988822378723970342n;
+
+const UINT256_MOD = 2n ** 256n;
+const MAX_UINT256 = UINT256_MOD - 1n;
+
+/**
+ * Calculates sqrt(1.0001^tick) * 2^96 (TickMath.getSqrtRatioAtTick)
+ * @param tick The tick to convert
+ * @returns The sqrt price as a Q64.96 value
+ */
+export function getSqrtRatioAtTick(tick: number): bigint {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+    throw new Error(`Tick ${tick} is out of bounds`);
+  }
+
+  const absTick = BigInt(Math.abs(tick));
+
+  let ratio = (absTick & 0x1n) !== 0n
+    ? 0xfffcb933bd6fad37aa2d162d1a594001n
+    : 0x100000000000000000000000000000000n;
+  if ((absTick & 0x2n) !== 0n) ratio = (ratio * 0xfff97272373d413259a46990580e213an) >> 128n;
+  if ((absTick & 0x4n) !== 0n) ratio = (ratio * 0xfff2e50f5f656932ef12357cf3c7fdccn) >> 128n;
+  if ((absTick & 0x8n) !== 0n) ratio = (ratio * 0xffe5caca7e10e4e61c3624eaa0941cd0n) >> 128n;
+  if ((absTick & 0x10n) !== 0n) ratio = (ratio * 0xffcb9843d60f6159c9db58835c926644n) >> 128n;
+  if ((absTick & 0x20n) !== 0n) ratio = (ratio * 0xff973b41fa98c081472e6896dfb254c0n) >> 128n;
+  if ((absTick & 0x40n) !== 0n) ratio = (ratio * 0xff2ea16466c96a3843ec78b326b52861n) >> 128n;
+  if ((absTick & 0x80n) !== 0n) ratio = (ratio * 0xfe5dee046a99a2a811c461f1969c3053n) >> 128n;
+  if ((absTick & 0x100n) !== 0n) ratio = (ratio * 0xfcbe86c7900a88aedcffc83b479aa3a4n) >> 128n;
+  if ((absTick & 0x200n) !== 0n) ratio = (ratio * 0xf987a7253ac413176f2b074cf7815e54n) >> 128n;
+  if ((absTick & 0x400n) !== 0n) ratio = (ratio * 0xf3392b0822b70005940c7a398e4b70f3n) >> 128n;
+  if ((absTick & 0x800n) !== 0n) ratio = (ratio * 0xe7159475a2c29b7443b29c7fa6e889d9n) >> 128n;
+  if ((absTick & 0x1000n) !== 0n) ratio = (ratio * 0xd097f3bdfd2022b8845ad8f792aa5825n) >> 128n;
+  if ((absTick & 0x2000n) !== 0n) ratio = (ratio * 0xa9f746462d870fdf8a65dc1f90e061e5n) >> 128n;
+  if ((absTick & 0x4000n) !== 0n) ratio = (ratio * 0x70d869a156d2a1b890bb3df62baf32f7n) >> 128n;
+  if ((absTick & 0x8000n) !== 0n) ratio = (ratio * 0x31be135f97d08fd981231505542fcfa6n) >> 128n;
+  if ((absTick & 0x10000n) !== 0n) ratio = (ratio * 0x9aa508b5b7a84e1c677de54f3e99bc9n) >> 128n;
+  if ((absTick & 0x20000n) !== 0n) ratio = (ratio * 0x5d6af8dedb81196699c329225ee604n) >> 128n;
+  if ((absTick & 0x40000n) !== 0n) ratio = (ratio * 0x2216e584f5fa1ea926041bedfe98n) >> 128n;
+  if ((absTick & 0x80000n) !== 0n) ratio = (ratio * 0x48a170391f7dc42444e8fa2n) >> 128n;
+
+  if (tick > 0) ratio = MAX_UINT256 / ratio;
+
+  // Round up when converting from Q128.128 to Q64.96
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+/**
+ * Amount of token0 held by `liquidity` between two sqrt prices, rounded down
+ */
+export function getAmount0ForLiquidity(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint
+): bigint {
+  if (sqrtRatioAX96 > sqrtRatioBX96) {
+    [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+  }
+
+  return ((liquidity << 96n) * (sqrtRatioBX96 - sqrtRatioAX96) / sqrtRatioBX96) / sqrtRatioAX96;
+}
+
+/**
+ * Amount of token1 held by `liquidity` between two sqrt prices, rounded down
+ */
+export function getAmount1ForLiquidity(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint
+): bigint {
+  if (sqrtRatioAX96 > sqrtRatioBX96) {
+    [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+  }
+
+  return liquidity * (sqrtRatioBX96 - sqrtRatioAX96) / Q96;
+}
+
+/**
+ * Token amounts held by a position at the current pool price (LiquidityAmounts.getAmountsForLiquidity)
+ * - Price below the range: position is entirely token0
+ * - Price inside the range: position holds both tokens
+ * - Price above the range: position is entirely token1
+ */
+export function getAmountsForLiquidity(
+  sqrtPriceX96: bigint,
+  tickLower: number,
+  tickUpper: number,
+  liquidity: bigint
+): { amount0: bigint; amount1: bigint } {
+  const sqrtRatioAX96 = getSqrtRatioAtTick(tickLower);
+  const sqrtRatioBX96 = getSqrtRatioAtTick(tickUpper);
+
+  if (sqrtPriceX96 <= sqrtRatioAX96) {
+    return {
+      amount0: getAmount0ForLiquidity(sqrtRatioAX96, sqrtRatioBX96, liquidity),
+      amount1: 0n,
+    };
+  }
+
+  if (sqrtPriceX96 < sqrtRatioBX96) {
+    return {
+      amount0: getAmount0ForLiquidity(sqrtPriceX96, sqrtRatioBX96, liquidity),
+      amount1: getAmount1ForLiquidity(sqrtRatioAX96, sqrtPriceX96, liquidity),
+    };
+  }
+
+  return {
+    amount0: 0n,
+    amount1: getAmount1ForLiquidity(sqrtRatioAX96, sqrtRatioBX96, liquidity),
+  };
+}
+
+/**
+ * Subtraction with uint256 wraparound, matching the unchecked math in the pool contracts
+ */
+function subUint256(a: bigint, b: bigint): bigint {
+  return ((a - b) % UINT256_MOD + UINT256_MOD) % UINT256_MOD;
+}
+
+/**
+ * Fee growth per unit of liquidity inside a tick range (Tick.getFeeGrowthInside)
+ * @param tickCurrent Current pool tick from slot0
+ * @param feeGrowthGlobalX128 Pool-wide fee growth for the token
+ * @param feeGrowthOutsideLowerX128 feeGrowthOutside of the lower tick
+ * @param feeGrowthOutsideUpperX128 feeGrowthOutside of the upper tick
+ */
+export function getFeeGrowthInside(
+  tickCurrent: number,
+  tickLower: number,
+  tickUpper: number,
+  feeGrowthGlobalX128: bigint,
+  feeGrowthOutsideLowerX128: bigint,
+  feeGrowthOutsideUpperX128: bigint
+): bigint {
+  const feeGrowthBelow = tickCurrent >= tickLower
+    ? feeGrowthOutsideLowerX128
+    : subUint256(feeGrowthGlobalX128, feeGrowthOutsideLowerX128);
+
+  const feeGrowthAbove = tickCurrent < tickUpper
+    ? feeGrowthOutsideUpperX128
+    : subUint256(feeGrowthGlobalX128, feeGrowthOutsideUpperX128);
+
+  return subUint256(subUint256(feeGrowthGlobalX128, feeGrowthBelow), feeGrowthAbove);
+}
+
+/**
+ * Fees owed to a position: tokensOwed already checkpointed plus fees accrued since the last checkpoint
+ */
+export function getUncollectedFees(
+  liquidity: bigint,
+  feeGrowthInsideX128: bigint,
+  feeGrowthInsideLastX128: bigint,
+  tokensOwed: bigint
+): bigint {
+  const accrued = liquidity * subUint256(feeGrowthInsideX128, feeGrowthInsideLastX128) / Q128;
+  return tokensOwed + accrued;
+}
+
+/**
+ * Arithmetic mean tick between two oracle observations (OracleLibrary.consult)
+ * @param tickCumulativeStart tickCumulative at the start of the window
+ * @param tickCumulativeEnd tickCumulative at the end of the window
+ * @param windowSeconds Seconds between the two observations
+ */
+export function getArithmeticMeanTick(
+  tickCumulativeStart: bigint,
+  tickCumulativeEnd: bigint,
+  windowSeconds: number
+): number {
+  if (!Number.isInteger(windowSeconds) || windowSeconds <= 0) {
+    throw new Error(`Invalid TWAP window: ${windowSeconds}`);
+  }
+
+  const delta = tickCumulativeEnd - tickCumulativeStart;
+  const period = BigInt(windowSeconds);
+  let meanTick = delta / period;
+
+  // Always round towards negative infinity
+  if (delta < 0n && delta % period !== 0n) meanTick--;
+
+  return Number(meanTick);
+}
+
+/**
+ * Price of token0 in token1 at a tick, adjusted for token decimals
+ */
+export function tickToPrice(tick: number, token0Decimals: number, token1Decimals: number): number {
+  return 1.0001 ** tick * 10 ** (token0Decimals - token1Decimals);
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import logger from '../../src/logger';
+import { AccountMonitor } from '../../src/modules/accountMonitor';
+import { HyperliquidAccountSummary, HyperliquidPosition } from '../../src/types';
+
+const OPTIONS = { marginUsageWarn: 0.6, marginUsageCritical: 0.8 };
+
+function position(coin: string, sizeCoin: number): HyperliquidPosition {
+  return {
+    coin,
+    entryPrice: 4,
+    sizeCoin,
+    notionalUsd: Math.abs(sizeCoin) * 4,
+    side: sizeCoin < 0 ? 'SHORT' : 'LONG',
+    leverage: 3,
+    marginMode: 'cross',
+    marginUsd: Math.abs(sizeCoin) * 4 / 3,
+    markPrice: 4,
+    unrealizedPnl: 0,
+    liquidationPrice: 6,
+  };
+}
+
+function account(
+  marginUsage: number,
+  positions: HyperliquidPosition[] = [position('PENDLE', -100)]
+): HyperliquidAccountSummary {
+  return {
+    accountValue: 1000,
+    totalNotionalUsd: 400,
+    totalMarginUsed: marginUsage * 1000,
+    marginUsage,
+    withdrawable: 1000 - marginUsage * 1000,
+    crossAccountValue: 1000,
+    crossMarginUsed: marginUsage * 1000,
+    crossMaintenanceMarginUsed: 20,
+    crossMaintenanceUsage: 0.02,
+    positions,
+    time: 1700000000000,
+  };
+}
+
+describe('AccountMonitor', () => {
+  let monitor: AccountMonitor;
+  let warn: ReturnType<typeof vi.spyOn>;
+  let critical: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    monitor = new AccountMonitor(['PENDLE'], OPTIONS);
+    warn = vi.spyOn(logger, 'warn').mockImplementation(() => undefined);
+    critical = vi.spyOn(logger, 'critical').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should stay quiet for a healthy account', () => {
+    const health = monitor.check(account(0.3));
+
+    expect(health).toEqual({ marginUsageLevel: 'ok', unexpectedPositions: [] });
+    expect(warn).not.toHaveBeenCalled();
+    expect(critical).not.toHaveBeenCalled();
+  });
+
+  it('should warn when margin usage passes the warning level', () => {
+    const health = monitor.check(account(0.65));
+
+    expect(health.marginUsageLevel).toBe('warn');
+    expect(warn).toHaveBeenCalledWith(
+      'Hyperliquid margin usage at 65.00% of 1000.00 USD equity, past the 60% warning level'
+    );
+    expect(critical).not.toHaveBeenCalled();
+  });
+
+  it('should raise a critical alert past the critical level', () => {
+    const health = monitor.check(account(0.85));
+
+    expect(health.marginUsageLevel).toBe('critical');
+    expect(critical).toHaveBeenCalledWith(
+      'Hyperliquid margin usage at 85.00% of 1000.00 USD equity, past the 80% critical level'
+    );
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should flag positions on coins the bot does not hedge', () => {
+    const health = monitor.check(account(0.3, [position('PENDLE', -100), position('ETH', 2)]));
+
+    expect(health.unexpectedPositions.map(stray => stray.coin)).toEqual(['ETH']);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      'Unexpected LONG 2 ETH position (8.00 USD) on the hedging account'
+    );
+  });
+});
@@ -0,0 +1,249 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  ExecutionScheduler,
+  ExecutionVenue,
+  planOrder,
+} from '../../src/modules/executionScheduler';
+import { RawL2Book, parseL2Book } from '../../src/modules/hyperliquidFeed';
+import { HyperliquidL2Book, HyperliquidOrder, HyperliquidOrderResponse } from '../../src/types';
+
+const OPTIONS = {
+  splitNotionalUsd: 400,
+  childIntervalMs: 1,
+  maxBookShare: 0.5,
+  slippageTolerance: 0.01,
+};
+
+/**
+ * Scripted venue: mids are served in order (the last one repeats), scripted books are
+ * served before the fixed one and every child fills in full at the current mid
+ */
+class FakeVenue implements ExecutionVenue {
+  mids: number[] = [4];
+  book: HyperliquidL2Book = {
+    coin: 'PENDLE',
+    time: 0,
+    bids: [
+      { price: 3.99, sizeCoin: 200 },
+      { price: 3.97, sizeCoin: 200 },
+      { price: 3.9, sizeCoin: 1000 },
+    ],
+    asks: [{ price: 4.01, sizeCoin: 200 }],
+  };
+  books: HyperliquidL2Book[] = [];
+  orders: HyperliquidOrder[] = [];
+  private mid = 4;
+
+  async getMid(): Promise<number> {
+    this.mid = this.mids.length > 1 ? this.mids.shift() as number : this.mids[0];
+    return this.mid;
+  }
+
+  async getL2Book(): Promise<HyperliquidL2Book> {
+    return this.books.shift() ?? this.book;
+  }
+
+  async placeOrder(order: HyperliquidOrder): Promise<HyperliquidOrderResponse> {
+    this.orders.push(order);
+    return {
+      status: 'success',
+      filledSizeCoin: order.sizeCoin,
+      avgFillPrice: this.mid,
+      feeUsd: 0.01,
+    };
+  }
+}
+
+const SELL = {
+  coin: 'PENDLE',
+  side: 'SELL' as const,
+  sizeCoin: 500,
+  reduceOnly: false,
+  clientOrderKey: '1700000000000:PENDLE:increase',
+  szDecimals: 0,
+};
+
+describe('ExecutionScheduler', () => {
+  let venue: FakeVenue;
+  let scheduler: ExecutionScheduler;
+
+  beforeEach(() => {
+    venue = new FakeVenue();
+    scheduler = new ExecutionScheduler(venue, OPTIONS);
+  });
+
+  it('should only split orders above the split notional', () => {
+    expect(scheduler.shouldSplit(100, 4)).toBe(false);
+    expect(scheduler.shouldSplit(-101, 4)).toBe(true);
+  });
+
+  it('should fill the order in children capped by notional and book depth', async () => {
+    const response = await scheduler.execute(SELL);
+
+    // 400 coins of bids inside the 1% band, half of it is 200, below the 100 coin notional cap
+    expect(venue.orders.map(order => order.sizeCoin)).toEqual([100, 100, 100, 100, 100]);
+    expect(venue.orders[0].clientOrderKey).toBe('1700000000000:PENDLE:increase:slice0');
+    expect(response.status).toBe('success');
+    expect(response.filledSizeCoin).toBe(500);
+    expect(response.remainingSizeCoin).toBe(0);
+    expect(response.execution).toMatchObject({
+      status: 'completed',
+      childOrders: 5,
+      arrivalPrice: 4,
+    });
+    expect(response.execution?.feeUsd).toBeCloseTo(0.05);
+  });
+
+  it('should take smaller children from a thin book', async () => {
+    venue.book = { ...venue.book, bids: [{ price: 3.99, sizeCoin: 60 }] };
+
+    await scheduler.execute({ ...SELL, sizeCoin: 90 });
+
+    expect(venue.orders.map(order => order.sizeCoin)).toEqual([30, 30, 30]);
+  });
+
+  it('should number children without gaps when the book is too thin for a while', async () => {
+    venue.books = [{ ...venue.book, bids: [{ price: 3.99, sizeCoin: 1 }] }];
+
+    const response = await scheduler.execute({ ...SELL, sizeCoin: 300 });
+
+    expect(venue.orders.map(order => order.clientOrderKey)).toEqual([
+      '1700000000000:PENDLE:increase:slice0',
+      '1700000000000:PENDLE:increase:slice1',
+      '1700000000000:PENDLE:increase:slice2',
+    ]);
+    expect(response.filledSizeCoin).toBe(300);
+  });
+
+  it('should give up when the book stays too thin', async () => {
+    scheduler = new ExecutionScheduler(venue, { ...OPTIONS, maxSlices: 3 });
+    venue.book = { ...venue.book, bids: [{ price: 3.99, sizeCoin: 1 }] };
+
+    const response = await scheduler.execute(SELL);
+
+    expect(venue.orders).toHaveLength(0);
+    expect(response.status).toBe('error');
+    expect(response.execution?.abortReason).toBe('book stayed too thin for 3 rounds');
+  });
+
+  it('should round children down to the size decimals', async () => {
+    venue.book = { ...venue.book, bids: [{ price: 3.99, sizeCoin: 75 }] };
+
+    await scheduler.execute({ ...SELL, sizeCoin: 90.7 });
+
+    // The target rounds down to 90 whole coins, and half of 75 to 37
+    expect(venue.orders.map(order => order.sizeCoin)).toEqual([37, 37, 16]);
+  });
+
+  it('should stop when the check between children says so', async () => {
+    let checks = 0;
+    const response = await scheduler.execute({
+      ...SELL,
+      checkBeforeChild: async () => (++checks === 2 ? 'hedge is too close to liquidation' : null),
+    });
+
+    expect(venue.orders).toHaveLength(2);
+    expect(response.filledSizeCoin).toBe(200);
+    expect(response.execution?.status).toBe('aborted');
+    expect(response.execution?.abortReason).toBe('hedge is too close to liquidation');
+  });
+
+  it('should leave the rest to the next cycle when the time budget runs out', async () => {
+    scheduler = new ExecutionScheduler(venue, { ...OPTIONS, childIntervalMs: 100, maxDurationMs: 150 });
+
+    const response = await scheduler.execute(SELL);
+
+    expect(venue.orders).toHaveLength(2);
+    expect(response.remainingSizeCoin).toBe(300);
+    expect(response.execution?.abortReason).toBe('ran out of time after 150ms');
+  });
+
+  it('should stop when the price drifts out of the band', async () => {
+    venue.mids = [4, 4, 4, 3.9];
+
+    const response = await scheduler.execute(SELL);
+
+    expect(venue.orders).toHaveLength(2);
+    expect(response.status).toBe('success');
+    expect(response.filledSizeCoin).toBe(200);
+    expect(response.remainingSizeCoin).toBe(300);
+    expect(response.execution?.status).toBe('aborted');
+    expect(response.execution?.abortReason).toContain('2.50% against the order');
+    expect(response.slippage).toBeCloseTo(0);
+  });
+
+  it('should report an error when nothing filled', async () => {
+    venue.placeOrder = async () => ({ status: 'error', error: 'Insufficient margin' });
+
+    const response = await scheduler.execute(SELL);
+
+    expect(response.status).toBe('error');
+    expect(response.error).toBe('Insufficient margin');
+    expect(response.execution?.childOrders).toBe(1);
+  });
+});
+
+// Recorded /info l2Book response, trimmed to the top levels
+const PENDLE_BOOK: RawL2Book = {
+  coin: 'PENDLE',
+  time: 1718000000000,
+  levels: [
+    [
+      { px: '4.0012', sz: '310.5', n: 3 },
+      { px: '4.0001', sz: '842', n: 5 },
+      { px: '3.9978', sz: '1520.2', n: 4 },
+      { px: '3.9901', sz: '4100', n: 9 },
+    ],
+    [
+      { px: '4.0021', sz: '275', n: 2 },
+      { px: '4.0035', sz: '690.4', n: 4 },
+      { px: '4.0102', sz: '2250', n: 6 },
+      { px: '4.0188', sz: '3900', n: 7 },
+    ],
+  ],
+};
+
+describe('planOrder', () => {
+  const book = parseL2Book(PENDLE_BOOK);
+  const tolerance = 0.001;
+  const order = (side: 'BUY' | 'SELL', sizeCoin: number, reduceOnly = false) =>
+    ({ coin: 'PENDLE', side, sizeCoin, reduceOnly });
+
+  it('should send orders the book takes within the tolerance', () => {
+    const plan = planOrder(book, order('SELL', 1000), tolerance);
+
+    expect(plan.decision).toBe('send');
+    expect(plan.sizeCoin).toBe(1000);
+    expect(plan.estimate.midPrice).toBeCloseTo(4.00165);
+    expect(plan.estimate.impact).toBeLessThan(tolerance);
+  });
+
+  it('should shrink an increase to the depth inside the band', () => {
+    const plan = planOrder(book, order('SELL', 6000), tolerance);
+
+    // Bids down to 3.9976 hold 310.5 + 842 + 1520.2
+    expect(plan.decision).toBe('shrink');
+    expect(plan.sizeCoin).toBeCloseTo(2672.7);
+    expect(plan.reason).toContain('exceeds 0.10%');
+  });
+
+  it('should split a reduce-only order instead of shrinking it', () => {
+    const plan = planOrder(book, order('BUY', 5000, true), tolerance);
+
+    expect(plan.decision).toBe('split');
+    expect(plan.sizeCoin).toBe(5000);
+  });
+
+  it('should defer when the book cannot absorb the order at all', () => {
+    const thin = parseL2Book({
+      ...PENDLE_BOOK,
+      levels: [[{ px: '4', sz: '2', n: 1 }], [{ px: '4.2', sz: '2', n: 1 }]],
+    });
+
+    const plan = planOrder(thin, order('SELL', 100), tolerance);
+
+    expect(plan.decision).toBe('defer');
+    expect(plan.sizeCoin).toBe(0);
+    expect(plan.reason).toBe('book holds 2 of 100 PENDLE');
+  });
+});
@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+// The client reads its settings from config, which requires the bot's environment
+const testConfig = vi.hoisted(() => ({
+  hyperliquidApiEndpoint: 'https://api.hyperliquid.xyz',
+  hyperliquidSigningKey: '0x0123456789012345678901234567890123456789012345678901234567890123',
+  hyperliquidAccountAddress: '',
+  hyperliquidVaultAddress: '',
+  hyperliquidWeightPerMinute: 1200,
+  slippageTolerance: 0.01,
+  orderFillRetries: 0,
+  executionMaxSlices: 5,
+  pools: [{ perpTicker: 'PENDLE-PERP' }],
+}));
+vi.mock('../../src/config', () => ({ default: testConfig }));
+
+import { HyperliquidClient } from '../../src/modules/hyperliquidClient';
+import { signL1Action, toCloid } from '../../src/utils/hyperliquidSigning';
+
+type InfoHandler = (request: Record<string, unknown>) => unknown;
+
+/**
+ * Stands in for the exchange over fetch: /info answers from per-type handlers,
+ * /exchange requests are recorded and answered by the next scripted response
+ */
+class FakeApi {
+  info: Record<string, InfoHandler> = {
+    meta: () => ({ universe: [{ name: 'PENDLE', szDecimals: 0, maxLeverage: 5 }] }),
+    allMids: () => ({ PENDLE: '4' }),
+    userFills: () => [],
+  };
+  exchangeRequests: Record<string, unknown>[] = [];
+  exchangeResponses: (() => unknown)[] = [];
+
+  fetch = async (url: string, init: { body: string }) => {
+    const body = JSON.parse(init.body);
+    let data: unknown;
+    if (url.endsWith('/exchange')) {
+      this.exchangeRequests.push(body);
+      const respond = this.exchangeResponses.shift();
+      if (!respond) {
+        throw new Error('Unexpected /exchange request');
+      }
+      data = respond();
+    } else {
+      const handler = this.info[body.type];
+      if (!handler) {
+        throw new Error(`Unexpected /info request: ${body.type}`);
+      }
+      data = handler(body);
+    }
+    return { ok: true, status: 200, json: async () => data, text: async () => '' };
+  };
+}
+
+const networkFailure = () => {
+  throw new TypeError('fetch failed: network unreachable');
+};
+
+describe('HyperliquidClient', () => {
+  let api: FakeApi;
+  let client: HyperliquidClient;
+
+  beforeEach(() => {
+    api = new FakeApi();
+    vi.stubGlobal('fetch', api.fetch);
+    testConfig.hyperliquidVaultAddress = '';
+    client = new HyperliquidClient();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should sign for and send the vault address when trading for a vault', async () => {
+    const vault = '0x4444444444444444444444444444444444444444';
+    testConfig.hyperliquidVaultAddress = vault;
+    client = new HyperliquidClient();
+    api.exchangeResponses.push(() => ({ status: 'ok', response: { type: 'default' } }));
+
+    await client.updateIsolatedMargin('PENDLE-PERP', 10);
+
+    const [request] = api.exchangeRequests as {
+      action: object;
+      nonce: number;
+      signature: unknown;
+      vaultAddress: string;
+    }[];
+    expect(request.vaultAddress).toBe(vault);
+    // The signed hash commits to the vault, a signature without it would not match
+    const key = testConfig.hyperliquidSigningKey as `0x${string}`;
+    expect(request.signature).toEqual(await signL1Action(key, request.action, vault, request.nonce, true));
+    expect(request.signature).not.toEqual(await signL1Action(key, request.action, null, request.nonce, true));
+  });
+
+  it('should derive the cloid of a close from its client order key', async () => {
+    api.info.clearinghouseState = () => ({
+      marginSummary: { accountValue: '200', totalNtlPos: '200', totalMarginUsed: '40' },
+      withdrawable: '160',
+      assetPositions: [{
+        type: 'oneWay',
+        position: {
+          coin: 'PENDLE',
+          szi: '-50',
+          entryPx: '4',
+          positionValue: '200',
+          unrealizedPnl: '0',
+          leverage: { type: 'isolated', value: 5 },
+          liquidationPx: '4.8',
+          marginUsed: '40',
+        },
+      }],
+    });
+    api.exchangeResponses.push(() => ({
+      status: 'ok',
+      response: {
+        type: 'order',
+        data: { statuses: [{ filled: { totalSz: '50', avgPx: '4.01', oid: 11 } }] },
+      },
+    }));
+    api.info.orderStatus = () => ({
+      status: 'order',
+      order: { order: { oid: 11 }, status: 'filled' },
+    });
+
+    await client.closePosition('PENDLE-PERP', '1700000000000:PENDLE-PERP:close');
+
+    const [order] = (api.exchangeRequests[0].action as { orders: { c: string }[] }).orders;
+    expect(order.c).toBe(toCloid('1700000000000:PENDLE-PERP:close:0'));
+  });
+
+  describe('reconcileOpenOrders', () => {
+    beforeEach(() => {
+      api.info.frontendOpenOrders = () => [];
+    });
+
+    it('should find IOC orders of a pending key by cloid and read their fills', async () => {
+      const key = '250000000:PENDLE:120:0:increase';
+      const placed = new Map([[toCloid(`${key}:0`), 21]]);
+      api.info.orderStatus = request => {
+        const oid = placed.get(request.oid as `0x${string}`) ?? request.oid;
+        return oid === 21
+          ? {
+            status: 'order',
+            order: { order: { oid: 21, coin: 'PENDLE', side: 'A', origSz: '30' }, status: 'filled' },
+          }
+          : { status: 'unknownOid' };
+      };
+      api.info.userFills = () => [
+        { coin: 'PENDLE', px: '4', sz: '30', side: 'A', time: 1, fee: '0.01', oid: 21 },
+      ];
+
+      const orders = await client.reconcileOpenOrders('PENDLE-PERP', [key]);
+
+      expect(orders).toHaveLength(1);
+      expect(orders[0]).toMatchObject({
+        oid: 21,
+        cloid: toCloid(`${key}:0`),
+        side: 'SELL',
+        status: 'filled',
+        filledSizeCoin: 30,
+      });
+      // Settled orders are not in flight
+      expect(client.getOrderTracker().getInFlight()).toEqual([]);
+    });
+
+    it('should find every child of a split order, past a missing slice number', async () => {
+      const key = '250000000:PENDLE:900:0:decrease';
+      // Children 0, 1 and 3 reached the exchange, slice 2 was never sent
+      const placed = new Map([
+        [toCloid(`${key}:slice0:0`), 31],
+        [toCloid(`${key}:slice1:0`), 32],
+        [toCloid(`${key}:slice3:0`), 33],
+      ]);
+      api.info.orderStatus = request => {
+        const oid = placed.get(request.oid as `0x${string}`);
+        return oid
+          ? {
+            status: 'order',
+            order: { order: { oid, coin: 'PENDLE', side: 'B', origSz: '300' }, status: 'filled' },
+          }
+          : { status: 'unknownOid' };
+      };
+      api.info.userFills = () => [31, 32, 33].map(oid => (
+        { coin: 'PENDLE', px: '4', sz: '300', side: 'B', time: 1, fee: '0.1', oid }
+      ));
+
+      const orders = await client.reconcileOpenOrders('PENDLE-PERP', [key]);
+
+      expect(orders.map(order => order.oid)).toEqual([31, 32, 33]);
+      expect(orders.reduce((sum, order) => sum + order.filledSizeCoin, 0)).toBe(900);
+    });
+
+    it('should find nothing for a key that never reached the exchange', async () => {
+      api.info.orderStatus = () => ({ status: 'unknownOid' });
+
+      await expect(
+        client.reconcileOpenOrders('PENDLE-PERP', ['250000000:PENDLE:120:0:increase'])
+      ).resolves.toEqual([]);
+    });
+  });
+
+  describe('order sent again after a network failure', () => {
+    it('should confirm the fills of an order that reached the exchange and settled', async () => {
+      api.exchangeResponses.push(networkFailure);
+      api.info.orderStatus = () => ({
+        status: 'order',
+        order: { order: { oid: 7 }, status: 'filled' },
+      });
+      api.info.userFills = () => [
+        { coin: 'PENDLE', px: '3.99', sz: '50', side: 'A', time: 1, fee: '0.02', oid: 7 },
+      ];
+
+      const response = await client.openShortPosition('PENDLE-PERP', 50, '1700000000000:PENDLE:increase');
+
+      expect(api.exchangeRequests).toHaveLength(1);
+      expect(response.status).toBe('success');
+      expect(response.id).toBe('7');
+      expect(response.filledSizeCoin).toBe(50);
+      expect(response.avgFillPrice).toBe(3.99);
+      expect(client.getOrderTracker().getInFlight()).toEqual([]);
+    });
+
+    it('should report an order the exchange rejected as an error', async () => {
+      api.exchangeResponses.push(networkFailure);
+      api.info.orderStatus = () => ({
+        status: 'order',
+        order: { order: { oid: 8 }, status: 'perpMarginRejected' },
+      });
+
+      const response = await client.openShortPosition('PENDLE-PERP', 50, '1700000000000:PENDLE:increase');
+
+      expect(response.status).toBe('error');
+      expect(response.error).toBe('Order 8 was rejected');
+      expect(client.getOrderTracker().getInFlight()).toEqual([]);
+    });
+
+    it('should keep an order that is still open in flight', async () => {
+      api.exchangeResponses.push(networkFailure);
+      api.info.orderStatus = () => ({
+        status: 'order',
+        order: { order: { oid: 9 }, status: 'open' },
+      });
+
+      const response = await client.placeOrder({
+        coin: 'PENDLE-PERP',
+        side: 'SELL',
+        sizeCoin: 50,
+        price: 4.2,
+        orderType: 'LIMIT',
+        reduceOnly: false,
+        clientOrderKey: '1700000000000:PENDLE:limit',
+      });
+
+      expect(response.status).toBe('success');
+      expect(client.getOrderTracker().getInFlight().map(order => order.oid)).toEqual([9]);
+    });
+  });
+});
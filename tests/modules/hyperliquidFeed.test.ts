@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { HyperliquidFeed } from '../../src/modules/hyperliquidFeed';
+
+const USER = '0x1111111111111111111111111111111111111111';
+
+/**
+ * Local stand-in for the Hyperliquid WebSocket API: records subscriptions,
+ * answers pings unless muted and lets tests push channel messages
+ */
+class StandInServer {
+  server: WebSocketServer;
+  sockets: WebSocket[] = [];
+  subscriptions: { type: string; coin?: string; user?: string }[] = [];
+  connections = 0;
+  answerPings = true;
+
+  constructor() {
+    this.server = new WebSocketServer({ port: 0 });
+    this.server.on('connection', socket => {
+      this.connections++;
+      this.sockets.push(socket);
+      socket.on('message', raw => {
+        const message = JSON.parse(raw.toString());
+        if (message.method === 'subscribe') {
+          this.subscriptions.push(message.subscription);
+        } else if (message.method === 'ping' && this.answerPings) {
+          socket.send(JSON.stringify({ channel: 'pong' }));
+        }
+      });
+    });
+  }
+
+  get url(): string {
+    return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  push(channel: string, data: unknown): void {
+    for (const socket of this.sockets) {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify({ channel, data }));
+      }
+    }
+  }
+
+  dropConnections(): void {
+    for (const socket of this.sockets) {
+      socket.terminate();
+    }
+    this.sockets = [];
+  }
+
+  close(): Promise<void> {
+    this.dropConnections();
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('HyperliquidFeed', () => {
+  let server: StandInServer;
+  let feed: HyperliquidFeed;
+
+  beforeEach(() => {
+    server = new StandInServer();
+    feed = new HyperliquidFeed(server.url, {
+      user: USER,
+      coins: ['PENDLE'],
+      heartbeatIntervalMs: 20,
+      staleAfterMs: 100,
+      minReconnectDelayMs: 10,
+      maxReconnectDelayMs: 50,
+    });
+  });
+
+  afterEach(async () => {
+    feed.stop();
+    await server.close();
+  });
+
+  it('should subscribe to market and account channels on connect', async () => {
+    feed.start();
+    await waitFor(() => server.subscriptions.length === 4);
+
+    expect(server.subscriptions).toEqual([
+      { type: 'allMids' },
+      { type: 'activeAssetCtx', coin: 'PENDLE' },
+      { type: 'userFills', user: USER },
+      { type: 'orderUpdates', user: USER },
+    ]);
+    expect(feed.isLive()).toBe(true);
+  });
+
+  it('should cache mids, marks and hourly funding', async () => {
+    feed.start();
+    await waitFor(() => server.subscriptions.length === 4);
+
+    server.push('allMids', { mids: { PENDLE: '4.0125', ETH: '3000.5' } });
+    server.push('activeAssetCtx', {
+      coin: 'PENDLE',
+      ctx: { funding: '0.0000125', markPx: '4.013', midPx: '4.0125', oraclePx: '4.01' },
+    });
+    await waitFor(() => feed.getMarketData('PENDLE') !== null);
+
+    expect(feed.getMid('PENDLE')).toBe(4.0125);
+    const market = feed.getMarketData('PENDLE');
+    expect(market?.price).toBe(4.013);
+    expect(market?.funding.hourly).toBe(0.0000125);
+    expect(market?.funding.daily).toBeCloseTo(0.0003);
+  });
+
+  it('should cache fills and order updates and follow the position size', async () => {
+    feed.start();
+    await waitFor(() => server.subscriptions.length === 4);
+
+    const fill = {
+      coin: 'PENDLE', px: '4', sz: '10', side: 'A', time: 1000, fee: '0.01', oid: 7, tid: 1,
+      startPosition: '-20',
+    };
+    server.push('userFills', { isSnapshot: true, user: USER, fills: [fill] });
+    server.push('orderUpdates', [{ order: { coin: 'PENDLE', oid: 7 }, status: 'filled' }]);
+    await waitFor(() => feed.getOrderState(7) !== null);
+
+    expect(feed.getFills()).toHaveLength(1);
+    expect(feed.getFills()[0]).toMatchObject({ oid: 7, side: 'SELL', sizeCoin: 10, feeUsd: 0.01 });
+    expect(feed.getPositionSize('PENDLE')).toBe(-30);
+    expect(feed.getFillSequence('PENDLE')).toBe(1);
+    expect(feed.getOrderState(7)).toBe('filled');
+
+    // The snapshot after a resubscribe repeats the fill
+    server.push('userFills', { isSnapshot: true, user: USER, fills: [fill] });
+    server.push('allMids', { mids: { PENDLE: '4' } });
+    await waitFor(() => feed.getMid('PENDLE') === 4);
+    expect(feed.getFills()).toHaveLength(1);
+    expect(feed.getFillSequence('PENDLE')).toBe(1);
+  });
+
+  it('should reconnect and resubscribe after the connection drops', async () => {
+    feed.start();
+    await waitFor(() => server.subscriptions.length === 4);
+
+    server.dropConnections();
+    await waitFor(() => server.connections === 2 && server.subscriptions.length === 8);
+
+    expect(server.subscriptions.slice(4)).toEqual(server.subscriptions.slice(0, 4));
+    expect(feed.getStatus().reconnects).toBe(1);
+    await waitFor(() => feed.isLive());
+  });
+
+  it('should drop a silent connection and report stale data meanwhile', async () => {
+    feed.start();
+    await waitFor(() => server.subscriptions.length === 4);
+    server.push('allMids', { mids: { PENDLE: '4' } });
+    await waitFor(() => feed.getMid('PENDLE') === 4);
+
+    server.answerPings = false;
+    await waitFor(() => !feed.isLive());
+    expect(feed.getMid('PENDLE')).toBeNull();
+
+    // The heartbeat gives up on the connection and a new one is opened
+    server.answerPings = true;
+    await waitFor(() => server.connections === 2);
+    await waitFor(() => feed.isLive());
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { IntentStore, toIntentKey } from '../../src/modules/intentStore';
+import { HedgeIntent } from '../../src/types';
+
+const INTENT: HedgeIntent = {
+  coin: 'PENDLE',
+  targetSizeCoin: 120,
+  snapshotId: '250000000',
+  settledOrders: 1,
+  pendingOrderKey: '250000000:PENDLE:120:1:increase',
+};
+
+describe('IntentStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hoyt-intents-'));
+    filePath = path.join(dir, 'data', 'hedge-intents.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should key intents by snapshot, coin and target', () => {
+    expect(toIntentKey(INTENT)).toBe('250000000:PENDLE:120');
+  });
+
+  it('should start empty without a file', () => {
+    expect(new IntentStore(filePath).get('PENDLE')).toBeNull();
+  });
+
+  it('should hand a saved intent to the next process', () => {
+    new IntentStore(filePath).save(INTENT);
+
+    expect(new IntentStore(filePath).get('PENDLE')).toEqual(INTENT);
+  });
+
+  it('should keep the intents of other coins when saving one', () => {
+    const store = new IntentStore(filePath);
+    store.save(INTENT);
+    store.save({ ...INTENT, coin: 'ARB', pendingOrderKey: null });
+
+    const reloaded = new IntentStore(filePath);
+    expect(reloaded.get('PENDLE')).toEqual(INTENT);
+    expect(reloaded.get('ARB')?.pendingOrderKey).toBeNull();
+  });
+
+  it('should hand the last trim time to the next process next to the intents', () => {
+    const store = new IntentStore(filePath);
+    store.save(INTENT);
+    store.saveLastTrimAt('PENDLE', 1700000000000);
+
+    const reloaded = new IntentStore(filePath);
+    expect(reloaded.getLastTrimAt('PENDLE')).toBe(1700000000000);
+    expect(reloaded.getLastTrimAt('ARB')).toBeNull();
+    expect(reloaded.get('PENDLE')).toEqual(INTENT);
+  });
+
+  it('should ignore an unreadable file', () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, '{ not json');
+
+    expect(new IntentStore(filePath).get('PENDLE')).toBeNull();
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  LiquidationGuard,
+  LiquidationGuardExchange,
+  TrimCooldownStore,
+  calculateLiquidationDistance,
+  calculateTopUpMargin,
+  getLiquidationRiskLevel,
+} from '../../src/modules/liquidationGuard';
+import { HedgingAction, HyperliquidOrderResponse, HyperliquidPosition } from '../../src/types';
+
+const THRESHOLDS = {
+  warnDistance: 0.25,
+  topUpDistance: 0.15,
+  trimDistance: 0.08,
+  trimFraction: 0.25,
+  trimCooldownMs: 60000,
+};
+
+function shortPosition(liquidationPrice: number, overrides: Partial<HyperliquidPosition> = {}) {
+  return {
+    coin: 'PENDLE',
+    entryPrice: 4,
+    sizeCoin: -100,
+    notionalUsd: 400,
+    side: 'SHORT',
+    leverage: 3,
+    marginMode: 'isolated',
+    marginUsd: 133,
+    markPrice: 4,
+    unrealizedPnl: 0,
+    liquidationPrice,
+    ...overrides,
+  } as HyperliquidPosition;
+}
+
+/**
+ * Records margin updates and orders
+ */
+class FakeExchange implements LiquidationGuardExchange {
+  marginUpdates: number[] = [];
+  reductions: number[] = [];
+  orderKeys: (string | undefined)[] = [];
+
+  async updateIsolatedMargin(_coin: string, amountUsd: number): Promise<void> {
+    this.marginUpdates.push(amountUsd);
+  }
+
+  async reduceShortPosition(
+    _coin: string,
+    sizeCoin: number,
+    clientOrderKey?: string
+  ): Promise<HyperliquidOrderResponse> {
+    this.reductions.push(sizeCoin);
+    this.orderKeys.push(clientOrderKey);
+    return { status: 'success', filledSizeCoin: sizeCoin, slippage: 0.001 };
+  }
+}
+
+describe('Liquidation Guard', () => {
+  describe('calculateLiquidationDistance', () => {
+    it('should measure shorts up and longs down from mark', () => {
+      expect(calculateLiquidationDistance(shortPosition(5))).toBe(0.25);
+      expect(calculateLiquidationDistance(
+        shortPosition(3, { side: 'LONG', sizeCoin: 100 })
+      )).toBe(0.25);
+    });
+
+    it('should be null without a liquidation price', () => {
+      expect(calculateLiquidationDistance(shortPosition(0))).toBeNull();
+    });
+  });
+
+  describe('getLiquidationRiskLevel', () => {
+    it('should map distances to levels', () => {
+      expect(getLiquidationRiskLevel(0.3, THRESHOLDS)).toBe('ok');
+      expect(getLiquidationRiskLevel(0.2, THRESHOLDS)).toBe('warn');
+      expect(getLiquidationRiskLevel(0.1, THRESHOLDS)).toBe('topUp');
+      expect(getLiquidationRiskLevel(0.05, THRESHOLDS)).toBe('trim');
+    });
+  });
+
+  describe('calculateTopUpMargin', () => {
+    it('should price the liquidation move in margin per coin of size', () => {
+      // Liquidation at 4.4 moved out to 5 on 100 coins
+      expect(calculateTopUpMargin(shortPosition(4.4), 0.25)).toBeCloseTo(60);
+      expect(calculateTopUpMargin(shortPosition(6), 0.25)).toBe(0);
+    });
+  });
+
+  describe('LiquidationGuard', () => {
+    let exchange: FakeExchange;
+    let guard: LiquidationGuard;
+
+    beforeEach(() => {
+      exchange = new FakeExchange();
+      guard = new LiquidationGuard(exchange, THRESHOLDS);
+    });
+
+    it('should do nothing for a safe position', async () => {
+      await expect(guard.check(shortPosition(6))).resolves.toBeNull();
+      await expect(guard.check(null)).resolves.toBeNull();
+      expect(guard.allowsIncrease(shortPosition(6))).toBe(true);
+    });
+
+    it('should warn at the first level', async () => {
+      const result = await guard.check(shortPosition(4.8));
+
+      expect(result?.action).toBe(HedgingAction.LIQUIDATION_WARNING);
+      expect(exchange.marginUpdates).toEqual([]);
+      expect(guard.allowsIncrease(shortPosition(4.8))).toBe(true);
+    });
+
+    it('should top up isolated margin at the second level', async () => {
+      const result = await guard.check(shortPosition(4.4), '1700000000000', 1000);
+
+      expect(result?.action).toBe(HedgingAction.MARGIN_TOP_UP);
+      expect(result?.success).toBe(true);
+      expect(exchange.marginUpdates[0]).toBeCloseTo(60);
+      expect(guard.allowsIncrease(shortPosition(4.4))).toBe(false);
+    });
+
+    it('should top up no more than is withdrawable', async () => {
+      await guard.check(shortPosition(4.4), '1700000000000', 25);
+      expect(exchange.marginUpdates).toEqual([25]);
+
+      const result = await guard.check(shortPosition(4.4), '1700000000000', 0);
+      expect(result?.action).toBe(HedgingAction.MARGIN_TOP_UP);
+      expect(result?.success).toBe(false);
+    });
+
+    it('should not top up without the withdrawable balance of the cycle', async () => {
+      const result = await guard.check(shortPosition(4.4));
+
+      expect(result?.success).toBe(false);
+      expect(result?.error).toContain('withdrawable balance is unknown');
+      expect(exchange.marginUpdates).toEqual([]);
+    });
+
+    it('should only warn for cross margin positions', async () => {
+      const result = await guard.check(shortPosition(4.4, { marginMode: 'cross' }));
+
+      expect(result?.action).toBe(HedgingAction.LIQUIDATION_WARNING);
+      expect(exchange.marginUpdates).toEqual([]);
+    });
+
+    it('should trim part of the short at the final level', async () => {
+      const result = await guard.check(shortPosition(4.2), '1700000000000');
+
+      expect(result?.action).toBe(HedgingAction.TRIM_HEDGE);
+      expect(result?.filledSizeCoin).toBe(25);
+      expect(result?.slippage).toBe(0.001);
+      expect(exchange.reductions).toEqual([25]);
+      expect(exchange.orderKeys).toEqual(['1700000000000:PENDLE:trim']);
+    });
+
+    describe('after a trim', () => {
+      beforeEach(() => {
+        vi.useFakeTimers();
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('should not allow the next cycle to increase the short until the cooldown ends', async () => {
+        await guard.check(shortPosition(4.2));
+
+        // The trim moved liquidation back out of reach, the hedge target is unchanged
+        vi.advanceTimersByTime(59000);
+        expect(guard.allowsIncrease(shortPosition(6))).toBe(false);
+        expect(guard.getTrimCooldownRemaining()).toBe(1000);
+
+        vi.advanceTimersByTime(1000);
+        expect(guard.allowsIncrease(shortPosition(6))).toBe(true);
+      });
+
+      it('should keep cooling down after a restart', async () => {
+        const saved: number[] = [];
+        const store: TrimCooldownStore = {
+          load: () => saved[saved.length - 1] ?? null,
+          save: trimmedAt => { saved.push(trimmedAt); },
+        };
+        guard = new LiquidationGuard(exchange, THRESHOLDS, store);
+        await guard.check(shortPosition(4.2));
+
+        vi.advanceTimersByTime(30000);
+        const restarted = new LiquidationGuard(exchange, THRESHOLDS, store);
+
+        expect(saved).toHaveLength(1);
+        expect(restarted.getTrimCooldownRemaining()).toBe(30000);
+        expect(restarted.allowsIncrease(shortPosition(6))).toBe(false);
+      });
+
+      it('should not cool down after a failed trim', async () => {
+        exchange.reduceShortPosition = async () => ({ status: 'error', error: 'No liquidity' });
+
+        await guard.check(shortPosition(4.2));
+
+        expect(guard.getTrimCooldownRemaining()).toBe(0);
+        expect(guard.allowsIncrease(shortPosition(6))).toBe(true);
+      });
+    });
+
+    it('should trim the whole short when the trim would be below the minimum order', async () => {
+      await guard.check(shortPosition(4.2, { sizeCoin: -5, notionalUsd: 20 }));
+      expect(exchange.reductions).toEqual([5]);
+    });
+  });
+});
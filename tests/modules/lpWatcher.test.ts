@@ -0,0 +1,316 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// The watcher reads the wallet and LP index settings from config, which requires the bot's
+// environment, and builds its RPC client through viem
+const testConfig = vi.hoisted(() => ({
+  walletAddress: '0x2222222222222222222222222222222222222222',
+  lpIndexEnabled: false,
+  lpIndexStartBlock: 1,
+  lpIndexBlockRange: 10000,
+  swapTriggerThreshold: 0.02,
+  eventPollIntervalMs: 15000,
+  lpClosedRecheckCycles: 3,
+  rpc: 'http://localhost:8545',
+}));
+vi.mock('../../src/config', () => ({ config: testConfig, default: testConfig }));
+
+const chain = vi.hoisted(() => ({ current: null as unknown as FakeChain }));
+vi.mock('viem', async (importOriginal) => ({
+  ...await importOriginal<typeof import('viem')>(),
+  createPublicClient: () => chain.current,
+  getContract: () => ({
+    read: {
+      balanceOf: async (_args: unknown, options?: { blockNumber?: bigint }) =>
+        chain.current.balanceOf(options?.blockNumber),
+    },
+  }),
+}));
+
+import { LPWatcher, createPositionIndex, readPoolPositions } from '../../src/modules/lpWatcher';
+import { RpcEndpointPool } from '../../src/modules/rpcPool';
+import { computePoolAddress } from '../../src/utils/poolAddress';
+import { LPPosition, PoolConfig } from '../../src/types';
+
+const PENDLE = '0x0c880f6761F1af8d9Aa9C466984b80DAb9a8c9e8';
+const USDT = '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9';
+const WETH = '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1';
+const SECOND_POOL = '0x4444444444444444444444444444444444444444';
+
+const POOL: PoolConfig = {
+  address: computePoolAddress(PENDLE, USDT, 3000),
+  pairTicker: 'PENDLE-USDT',
+  perpTicker: 'PENDLE',
+  rebalanceThreshold: 0.05,
+  hedgeTokenAddress: '',
+};
+
+interface MulticallContract {
+  address: `0x${string}`;
+  functionName: string;
+  args?: readonly unknown[];
+}
+
+/**
+ * In-memory chain answering the position manager and pool calls the watcher batches
+ */
+class FakeChain {
+  head = 200n;
+  ownedTokenIds: bigint[] = [];
+  // positions() structs by token ID
+  positions = new Map<bigint, readonly unknown[]>();
+  // Function names of every multicall batch, with the block it was pinned to
+  multicalls: { functionNames: string[]; blockNumber?: bigint }[] = [];
+
+  position(
+    tokenId: bigint,
+    liquidity: bigint,
+    tokens: [`0x${string}`, `0x${string}`] = [PENDLE, USDT]
+  ): void {
+    this.positions.set(tokenId, [
+      0n, WETH, tokens[0], tokens[1], 3000, -1000, 1000, liquidity, 0n, 0n, 0n, 0n,
+    ]);
+  }
+
+  balanceOf(_blockNumber?: bigint): bigint {
+    return BigInt(this.ownedTokenIds.length);
+  }
+
+  async multicall(
+    { contracts, blockNumber }: { contracts: MulticallContract[]; blockNumber?: bigint }
+  ): Promise<unknown[]> {
+    this.multicalls.push({ functionNames: contracts.map(c => c.functionName), blockNumber });
+    if (this.failWith) throw this.failWith;
+    return contracts.map(({ address, functionName, args }) => {
+      switch (functionName) {
+        case 'tokenOfOwnerByIndex':
+          return this.ownedTokenIds[Number(args?.[1])];
+        case 'positions':
+          return this.positions.get(args?.[0] as bigint);
+        case 'token0':
+          return PENDLE;
+        case 'token1':
+          return USDT;
+        case 'fee':
+          return 3000;
+        case 'symbol':
+          return address === PENDLE ? 'PENDLE' : 'USDT';
+        case 'decimals':
+          return 18;
+        default:
+          throw new Error(`Unexpected call ${functionName}`);
+      }
+    });
+  }
+
+  async getBlockNumber(): Promise<bigint> {
+    return this.head;
+  }
+
+  async getBlock({ blockNumber }: { blockNumber?: bigint; blockTag?: string }) {
+    return { number: blockNumber ?? this.head, timestamp: 1700000000n };
+  }
+
+  // eth_getLogs requests - no position manager or pool events
+  logRequests = 0;
+  // Error every multicall fails with, e.g. an RPC outage
+  failWith: Error | null = null;
+
+  async request(): Promise<unknown[]> {
+    this.logRequests++;
+    return [];
+  }
+
+  /**
+   * Number of positions() structs read by the last batch
+   */
+  positionReads(): number {
+    const last = this.multicalls[this.multicalls.length - 1];
+    return last.functionNames.filter(name => name === 'positions').length;
+  }
+}
+
+describe('LPWatcher', () => {
+  let rpcPool: RpcEndpointPool;
+  let watcher: LPWatcher;
+
+  beforeEach(() => {
+    chain.current = new FakeChain();
+    testConfig.lpIndexEnabled = false;
+    rpcPool = new RpcEndpointPool(['http://localhost:8545']);
+    watcher = new LPWatcher(POOL, rpcPool);
+  });
+
+  /**
+   * Watcher on the event index, built up to the chain head
+   */
+  async function indexedWatcher(): Promise<LPWatcher> {
+    testConfig.lpIndexEnabled = true;
+    const indexed = new LPWatcher(POOL, rpcPool, createPositionIndex(rpcPool, [POOL]));
+    await indexed.initialize();
+    return indexed;
+  }
+
+  // Test batched reads
+  it('should read every position in one multicall pinned to the snapshot block', async () => {
+    chain.current.ownedTokenIds = [1n, 2n];
+    chain.current.position(1n, 500n);
+    chain.current.position(2n, 700n);
+
+    const positions = await watcher.getWalletPositions(150n);
+
+    expect(positions.map(position => position.id)).toEqual([1, 2]);
+    expect(chain.current.multicalls).toEqual([
+      { functionNames: ['tokenOfOwnerByIndex', 'tokenOfOwnerByIndex'], blockNumber: 150n },
+      { functionNames: ['positions', 'positions'], blockNumber: 150n },
+    ]);
+  });
+
+  it('should skip positions in other pools without reading them again', async () => {
+    chain.current.ownedTokenIds = [1n, 2n];
+    chain.current.position(1n, 500n);
+    chain.current.position(2n, 700n, [WETH, USDT]);
+
+    expect((await watcher.getWalletPositions(150n)).map(position => position.id)).toEqual([1]);
+
+    await watcher.getWalletPositions(151n);
+    expect(chain.current.positionReads()).toBe(1);
+  });
+
+  // Test the closed position cache
+  it('should not re-read a closed position on every cycle', async () => {
+    chain.current.ownedTokenIds = [1n, 2n];
+    chain.current.position(1n, 500n);
+    chain.current.position(2n, 0n);
+
+    expect((await watcher.getWalletPositions(150n)).map(position => position.id)).toEqual([1]);
+
+    await watcher.getWalletPositions(151n);
+    expect(chain.current.positionReads()).toBe(1);
+  });
+
+  it('should re-read closed positions every few cycles', async () => {
+    chain.current.ownedTokenIds = [1n];
+    chain.current.position(1n, 0n);
+    await watcher.getWalletPositions(150n);
+
+    // Liquidity is added back to the closed NFT
+    chain.current.position(1n, 900n);
+    expect(await watcher.getWalletPositions(151n)).toEqual([]);
+
+    const positions = await watcher.getWalletPositions(152n);
+    expect(positions.map(position => position.liquidity)).toEqual([900n]);
+  });
+
+  it('should re-read closed positions when the NFT count changes', async () => {
+    chain.current.ownedTokenIds = [1n];
+    chain.current.position(1n, 0n);
+    await watcher.getWalletPositions(150n);
+
+    // The closed NFT gets liquidity back while a new one is minted
+    chain.current.position(1n, 900n);
+    chain.current.ownedTokenIds = [1n, 2n];
+    chain.current.position(2n, 400n);
+
+    const positions = await watcher.getWalletPositions(151n);
+    expect(positions.map(position => position.id)).toEqual([1, 2]);
+  });
+
+  // Test the event index against the snapshot block
+  it('should take the snapshot at the block the index is synced to', async () => {
+    watcher = await indexedWatcher();
+
+    chain.current.head = 210n;
+    const snapshot = await watcher.getSnapshotBlock();
+
+    expect(snapshot.blockNumber).toBe(210n);
+  });
+
+  it('should enumerate NFTs on-chain when the index is past the snapshot block', async () => {
+    // The index is built up to block 200, it saw no transfers to the wallet
+    watcher = await indexedWatcher();
+
+    // The NFT is owned at the snapshot block
+    chain.current.ownedTokenIds = [1n];
+    chain.current.position(1n, 500n);
+    chain.current.multicalls = [];
+
+    const positions = await watcher.getWalletPositions(150n);
+
+    expect(positions.map(position => position.id)).toEqual([1]);
+    expect(chain.current.multicalls).toEqual([
+      { functionNames: ['tokenOfOwnerByIndex'], blockNumber: 150n },
+      { functionNames: ['positions'], blockNumber: 150n },
+    ]);
+  });
+
+  it('should rebuild an index shared by several pools only once', async () => {
+    testConfig.lpIndexEnabled = true;
+    const positionIndex = createPositionIndex(rpcPool, [POOL]);
+    const first = new LPWatcher(POOL, rpcPool, positionIndex);
+    const second = new LPWatcher(POOL, rpcPool, positionIndex);
+
+    await first.initialize();
+    const rebuildRequests = chain.current.logRequests;
+    await second.initialize();
+
+    expect(rebuildRequests).toBeGreaterThan(0);
+    expect(chain.current.logRequests).toBe(rebuildRequests);
+  });
+
+  it('should not build an index unless enabled', () => {
+    expect(createPositionIndex(rpcPool, [POOL])).toBeNull();
+  });
+
+  // Test failed reads
+  it('should fail the combined position instead of reporting it empty', async () => {
+    chain.current.ownedTokenIds = [1n];
+    chain.current.position(1n, 500n);
+    await watcher.initialize();
+    chain.current.failWith = new Error('HTTP 503');
+
+    await expect(watcher.getCombinedLPPosition(4, 150n)).rejects.toThrow(
+      'Failed to get combined LP position'
+    );
+  });
+});
+
+describe('readPoolPositions', () => {
+  function pool(address: `0x${string}`): PoolConfig {
+    return { ...POOL, address };
+  }
+
+  it("should keep a pool's previous position when its read fails", async () => {
+    const previous = {
+      [POOL.address]: { volatileExposure: 300 } as LPPosition,
+      [SECOND_POOL]: { volatileExposure: 200 } as LPPosition,
+    };
+    const watchers = [
+      {
+        getPool: () => POOL,
+        getCombinedLPPosition: async () => ({ volatileExposure: 320 } as LPPosition),
+      },
+      {
+        getPool: () => pool(SECOND_POOL),
+        getCombinedLPPosition: async (): Promise<LPPosition> => {
+          throw new Error('Failed to get combined LP position');
+        },
+      },
+    ];
+
+    const positions = await readPoolPositions(watchers, 4, 150n, previous);
+
+    expect(positions[POOL.address].volatileExposure).toBe(320);
+    expect(positions[SECOND_POOL].volatileExposure).toBe(200);
+  });
+
+  it('should leave a pool that was never read out', async () => {
+    const watchers = [{
+      getPool: () => POOL,
+      getCombinedLPPosition: async (): Promise<LPPosition> => {
+        throw new Error('Failed to get combined LP position');
+      },
+    }];
+
+    expect(await readPoolPositions(watchers, 4, 150n, {})).toEqual({});
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { OrderStatusSource, OrderTracker } from '../../src/modules/orderTracker';
+import { HyperliquidFill, HyperliquidOrderState } from '../../src/types';
+
+/**
+ * Scripted exchange: order statuses by oid and the account's fill history
+ */
+class FakeExchange implements OrderStatusSource {
+  statuses = new Map<number, HyperliquidOrderState>();
+  fills: HyperliquidFill[] = [];
+  fillReads = 0;
+
+  async getOrderStatus(oid: number): Promise<HyperliquidOrderState> {
+    return this.statuses.get(oid) ?? 'unknown';
+  }
+
+  async getUserFills(): Promise<HyperliquidFill[]> {
+    this.fillReads++;
+    return this.fills;
+  }
+
+  fill(oid: number, side: 'BUY' | 'SELL', price: number, sizeCoin: number, feeUsd: number) {
+    this.fills.push({ oid, coin: 'PENDLE', side, price, sizeCoin, feeUsd, time: Date.now() });
+  }
+}
+
+describe('OrderTracker', () => {
+  let exchange: FakeExchange;
+  let tracker: OrderTracker;
+
+  beforeEach(() => {
+    exchange = new FakeExchange();
+    tracker = new OrderTracker(exchange, { pollIntervalMs: 1, confirmTimeoutMs: 20 });
+  });
+
+  it('should collect fills with average price and fees', async () => {
+    tracker.track({ oid: 1, coin: 'PENDLE', side: 'SELL', sizeCoin: 10 });
+    exchange.statuses.set(1, 'filled');
+    exchange.fill(1, 'SELL', 4, 6, 0.01);
+    exchange.fill(1, 'SELL', 3.9, 4, 0.005);
+    exchange.fill(2, 'SELL', 5, 100, 1);
+
+    const order = await tracker.confirm(1);
+
+    expect(order.status).toBe('filled');
+    expect(order.filledSizeCoin).toBe(10);
+    expect(order.avgFillPrice).toBeCloseTo(3.96);
+    expect(order.feeUsd).toBeCloseTo(0.015);
+    expect(tracker.getInFlight()).toEqual([]);
+  });
+
+  it('should report a partial fill of a cancelled IOC', async () => {
+    tracker.track({ oid: 1, coin: 'PENDLE', side: 'SELL', sizeCoin: 10 });
+    exchange.statuses.set(1, 'canceled');
+    exchange.fill(1, 'SELL', 4, 3, 0.004);
+
+    const order = await tracker.confirm(1);
+
+    expect(order.status).toBe('canceled');
+    expect(order.filledSizeCoin).toBe(3);
+  });
+
+  it('should keep orders that stay open in flight', async () => {
+    tracker.track({ oid: 1, coin: 'PENDLE', side: 'SELL', sizeCoin: 10 });
+    tracker.track({ oid: 2, coin: 'PENDLE', side: 'BUY', sizeCoin: 2 });
+    tracker.track({ oid: 3, coin: 'ARB', side: 'SELL', sizeCoin: 50 });
+    exchange.statuses.set(1, 'open');
+    exchange.statuses.set(2, 'open');
+    exchange.statuses.set(3, 'open');
+    exchange.fill(1, 'SELL', 4, 4, 0.005);
+
+    const order = await tracker.confirm(1);
+    expect(order.status).toBe('open');
+
+    await tracker.refresh();
+    expect(tracker.getInFlight('PENDLE')).toHaveLength(2);
+    // 6 left to sell, 2 to buy
+    expect(tracker.getPendingSizeCoin('PENDLE')).toBe(-4);
+    expect(tracker.getPendingSizeCoin('ARB')).toBe(-50);
+  });
+
+  it('should read the fill history once per refresh', async () => {
+    for (const oid of [1, 2, 3]) {
+      tracker.track({ oid, coin: 'PENDLE', side: 'SELL', sizeCoin: 10 });
+      exchange.statuses.set(oid, 'open');
+    }
+    exchange.fill(2, 'SELL', 4, 4, 0.005);
+
+    const updated = await tracker.refresh();
+
+    expect(exchange.fillReads).toBe(1);
+    expect(updated.map(order => order.filledSizeCoin)).toEqual([0, 4, 0]);
+  });
+
+  it('should not read fills with nothing to refresh', async () => {
+    await tracker.refresh();
+    expect(exchange.fillReads).toBe(0);
+  });
+
+  it('should stop tracking orders once they are final', async () => {
+    tracker.track({ oid: 1, coin: 'PENDLE', side: 'SELL', sizeCoin: 10 });
+    exchange.statuses.set(1, 'open');
+    await tracker.refresh();
+    expect(tracker.getPendingSizeCoin('PENDLE')).toBe(-10);
+
+    exchange.statuses.set(1, 'filled');
+    exchange.fill(1, 'SELL', 4, 10, 0.01);
+    await tracker.refresh();
+
+    expect(tracker.getInFlight()).toEqual([]);
+    expect(tracker.getPendingSizeCoin('PENDLE')).toBe(0);
+  });
+
+  it('should drop orders the exchange never learns about', async () => {
+    tracker.track({ oid: 1, coin: 'PENDLE', side: 'SELL', sizeCoin: 10 });
+
+    await tracker.refresh();
+    expect(tracker.getInFlight()).toHaveLength(1);
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    await tracker.refresh();
+    expect(tracker.getInFlight()).toEqual([]);
+  });
+});
@@ -0,0 +1,300 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { encodeAbiParameters, encodeEventTopics, parseAbi } from 'viem';
+import { PositionIndex, isRangeTooLargeError } from '../../src/modules/positionIndex';
+import { LogFilter, LogSource, RawLog } from '../../src/types';
+import { Q96 } from '../../src/utils/uniswapMath';
+
+const POSITION_MANAGER = '0xC36442b4a4522E871399CD717aBDD847Ab11FE88';
+const POOL = '0x1111111111111111111111111111111111111111';
+const OWNER = '0x2222222222222222222222222222222222222222';
+const OTHER = '0x3333333333333333333333333333333333333333';
+const SECOND_POOL = '0x4444444444444444444444444444444444444444';
+const ZERO = '0x0000000000000000000000000000000000000000';
+
+const eventsABI = parseAbi([
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+  'event IncreaseLiquidity(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+  'event DecreaseLiquidity(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+  'event Collect(uint256 indexed tokenId, address recipient, uint256 amount0, uint256 amount1)',
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+]);
+
+/**
+ * In-memory log source that applies eth_getLogs filtering rules
+ */
+class MemoryLogSource implements LogSource {
+  logs: RawLog[] = [];
+  head = 0n;
+  requests: LogFilter[] = [];
+  // Widest range the provider serves, like most hosted RPCs
+  maxRange: bigint | null = null;
+
+  async getBlockNumber(): Promise<bigint> {
+    return this.head;
+  }
+
+  async getLogs(filter: LogFilter): Promise<RawLog[]> {
+    this.requests.push(filter);
+    if (this.maxRange !== null && filter.toBlock - filter.fromBlock + 1n > this.maxRange) {
+      throw new Error(`eth_getLogs is limited to a ${this.maxRange} range`);
+    }
+    return this.logs.filter(log =>
+      log.address.toLowerCase() === filter.address.toLowerCase() &&
+      log.blockNumber >= filter.fromBlock &&
+      log.blockNumber <= filter.toBlock &&
+      filter.topics.every((topic, i) => {
+        if (topic === null) return true;
+        const options = Array.isArray(topic) ? topic : [topic];
+        return options.some(option => option.toLowerCase() === log.topics[i]?.toLowerCase());
+      })
+    );
+  }
+
+  private push(address: string, topics: `0x${string}`[], data: `0x${string}`, blockNumber: bigint) {
+    this.logs.push({
+      address: address as `0x${string}`,
+      topics,
+      data,
+      blockNumber,
+      logIndex: this.logs.length,
+    });
+    if (blockNumber > this.head) this.head = blockNumber;
+  }
+
+  transfer(from: string, to: string, tokenId: bigint, blockNumber: bigint) {
+    const topics = encodeEventTopics({
+      abi: eventsABI,
+      eventName: 'Transfer',
+      args: { from: from as `0x${string}`, to: to as `0x${string}`, tokenId },
+    });
+    this.push(POSITION_MANAGER, topics as `0x${string}`[], '0x', blockNumber);
+  }
+
+  liquidityChange(
+    eventName: 'IncreaseLiquidity' | 'DecreaseLiquidity',
+    tokenId: bigint,
+    blockNumber: bigint
+  ) {
+    const topics = encodeEventTopics({ abi: eventsABI, eventName, args: { tokenId } });
+    const data = encodeAbiParameters(
+      [{ type: 'uint128' }, { type: 'uint256' }, { type: 'uint256' }],
+      [1000n, 1n, 1n]
+    );
+    this.push(POSITION_MANAGER, topics as `0x${string}`[], data, blockNumber);
+  }
+
+  swap(sqrtPriceX96: bigint, blockNumber: bigint, pool = POOL) {
+    const topics = encodeEventTopics({
+      abi: eventsABI,
+      eventName: 'Swap',
+      args: { sender: OTHER, recipient: OTHER },
+    });
+    const data = encodeAbiParameters(
+      [
+        { type: 'int256' }, { type: 'int256' }, { type: 'uint160' },
+        { type: 'uint128' }, { type: 'int24' },
+      ],
+      [1n, -1n, sqrtPriceX96, 1n, 0]
+    );
+    this.push(pool, topics as `0x${string}`[], data, blockNumber);
+  }
+}
+
+describe('PositionIndex', () => {
+  let source: MemoryLogSource;
+  let index: PositionIndex;
+
+  beforeEach(() => {
+    source = new MemoryLogSource();
+    index = new PositionIndex(source, {
+      positionManagerAddress: POSITION_MANAGER,
+      poolAddresses: [POOL],
+      owner: OWNER,
+      startBlock: 100n,
+      blockRange: 50n,
+      swapMoveThreshold: 0.05,
+    });
+  });
+
+  it('should rebuild ownership from Transfer events', async () => {
+    source.transfer(ZERO, OWNER, 1n, 110n);
+    source.transfer(ZERO, OWNER, 2n, 120n);
+    source.transfer(ZERO, OTHER, 3n, 130n);
+    source.transfer(OWNER, OTHER, 1n, 250n);
+
+    await index.rebuild();
+
+    expect(index.getOwnedTokenIds()).toEqual([2n]);
+    expect(index.isDirty(2n)).toBe(true);
+    expect(index.getLastSyncedBlock()).toBe(250n);
+  });
+
+  it('should ignore events before the start block', async () => {
+    source.transfer(ZERO, OWNER, 1n, 50n);
+    source.transfer(ZERO, OWNER, 2n, 150n);
+
+    await index.rebuild();
+
+    expect(index.getOwnedTokenIds()).toEqual([2n]);
+  });
+
+  it('should split log requests into block ranges', async () => {
+    source.head = 299n;
+
+    await index.rebuild();
+
+    const ranges = source.requests.map(r => [r.fromBlock, r.toBlock]);
+    expect(ranges).toContainEqual([100n, 149n]);
+    expect(ranges).toContainEqual([250n, 299n]);
+    expect(source.requests.every(r => r.toBlock - r.fromBlock < 50n)).toBe(true);
+  });
+
+  it('should mark positions dirty on liquidity changes after sync', async () => {
+    source.transfer(ZERO, OWNER, 1n, 110n);
+    await index.rebuild();
+    index.markClean([1n], 110n);
+    expect(index.isDirty(1n)).toBe(false);
+
+    source.liquidityChange('DecreaseLiquidity', 1n, 300n);
+    await index.sync();
+
+    expect(index.isDirty(1n)).toBe(true);
+  });
+
+  it('should keep positions dirty when they changed after the read block', async () => {
+    source.transfer(ZERO, OWNER, 1n, 110n);
+    await index.rebuild();
+    source.liquidityChange('IncreaseLiquidity', 1n, 300n);
+    await index.sync();
+
+    index.markClean([1n], 200n);
+    expect(index.isDirty(1n)).toBe(true);
+
+    index.markClean([1n], 300n);
+    expect(index.isDirty(1n)).toBe(false);
+  });
+
+  it('should pick up positions minted and modified within one sync', async () => {
+    source.head = 150n;
+    await index.rebuild();
+
+    source.transfer(ZERO, OWNER, 7n, 160n);
+    source.liquidityChange('IncreaseLiquidity', 7n, 160n);
+    source.transfer(OWNER, OTHER, 7n, 170n);
+    source.transfer(ZERO, OWNER, 8n, 170n);
+    await index.sync();
+
+    expect(index.getOwnedTokenIds()).toEqual([8n]);
+    expect(index.isDirty(7n)).toBe(false);
+  });
+
+  it('should ignore changes to positions the wallet does not own', async () => {
+    source.transfer(ZERO, OWNER, 1n, 110n);
+    await index.rebuild();
+    index.markClean([1n], 110n);
+
+    source.liquidityChange('IncreaseLiquidity', 9n, 200n);
+    await index.sync();
+
+    expect(index.isDirty(9n)).toBe(false);
+  });
+
+  it('should not overlap ranges when syncs run concurrently', async () => {
+    source.head = 150n;
+    await index.rebuild();
+    source.requests = [];
+    source.head = 220n;
+
+    await Promise.all([index.sync(), index.sync(), index.sync(200n)]);
+
+    expect(index.getLastSyncedBlock()).toBe(220n);
+    // Every block is requested for Transfer-in exactly once
+    const incoming = source.requests.filter(r => r.topics[1] === null);
+    const covered = incoming.reduce((sum, r) => sum + (r.toBlock - r.fromBlock + 1n), 0n);
+    expect(covered).toBe(70n);
+  });
+
+  it('should reject sync before rebuild', async () => {
+    await expect(index.sync()).rejects.toThrow();
+  });
+
+  it('should notify listeners on a sharp swap price move', async () => {
+    source.head = 150n;
+    await index.rebuild();
+    index.setReferenceSqrtPrice(POOL, Q96);
+
+    const moves: number[] = [];
+    index.onSharpMove(move => moves.push(move));
+
+    // sqrt price +1% => price ~ +2%, below the 5% threshold
+    source.swap(Q96 * 101n / 100n, 160n);
+    await index.sync();
+    expect(moves).toHaveLength(0);
+
+    // sqrt price +5% => price ~ +10.25%
+    source.swap(Q96 * 105n / 100n, 170n);
+    await index.sync();
+    expect(moves).toHaveLength(1);
+    expect(moves[0]).toBeCloseTo(0.1025, 4);
+  });
+
+  it('should not scan swaps during rebuild', async () => {
+    source.swap(Q96 * 2n, 120n);
+    index.setReferenceSqrtPrice(POOL, Q96);
+    const moves: number[] = [];
+    index.onSharpMove(move => moves.push(move));
+
+    await index.rebuild();
+
+    expect(moves).toHaveLength(0);
+    expect(source.requests.some(r => r.address === POOL)).toBe(false);
+  });
+
+  it('should watch swaps of every pool of the owner against their own reference', async () => {
+    index = new PositionIndex(source, {
+      positionManagerAddress: POSITION_MANAGER,
+      poolAddresses: [POOL, SECOND_POOL],
+      owner: OWNER,
+      startBlock: 100n,
+      blockRange: 50n,
+      swapMoveThreshold: 0.05,
+    });
+    source.head = 150n;
+    await index.rebuild();
+    index.setReferenceSqrtPrice(POOL, Q96);
+    index.setReferenceSqrtPrice(SECOND_POOL, Q96 * 2n);
+
+    const pools: string[] = [];
+    index.onSharpMove((_move, _sqrtPriceX96, _blockNumber, poolAddress) => pools.push(poolAddress));
+
+    // Each price would be sharp against the other pool's reference
+    source.swap(Q96 * 2n, 160n);
+    source.swap(Q96 * 2n * 101n / 100n, 170n, SECOND_POOL);
+    await index.sync();
+
+    expect(pools).toEqual([POOL]);
+  });
+
+  it('should halve the range when the provider rejects it as too large', async () => {
+    source.maxRange = 20n;
+    source.transfer(ZERO, OWNER, 1n, 110n);
+    source.transfer(ZERO, OWNER, 2n, 149n);
+    source.head = 150n;
+
+    await index.rebuild();
+
+    expect(index.getOwnedTokenIds()).toEqual([1n, 2n]);
+    // 50 and 25 blocks are rejected, every block is then served once in chunks of 12
+    const incoming = source.requests
+      .filter(r => r.topics[1] === null && r.toBlock - r.fromBlock + 1n <= 20n);
+    const covered = incoming.reduce((sum, r) => sum + (r.toBlock - r.fromBlock + 1n), 0n);
+    expect(covered).toBe(51n);
+    expect(incoming[0]).toMatchObject({ fromBlock: 100n, toBlock: 111n });
+  });
+
+  it('should recognize range errors of RPC providers', () => {
+    expect(isRangeTooLargeError(new Error('exceed maximum block range: 10000'))).toBe(true);
+    expect(isRangeTooLargeError(new Error('query returned more than 10000 results'))).toBe(true);
+    expect(isRangeTooLargeError(new Error('HTTP 503'))).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RateLimiter } from '../../src/modules/rateLimiter';
+
+describe('RateLimiter', () => {
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // 10 weight, refilled at one per 100ms, 4 kept for trading
+    limiter = new RateLimiter({ capacity: 10, refillPerMinute: 600, tradingReserve: 4 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should let requests within the budget through at once', async () => {
+    await limiter.acquire(2);
+    await limiter.acquire(4, 'trading');
+
+    const status = limiter.getStatus();
+    expect(status.available).toBe(4);
+    expect(status.throttledRequests).toBe(0);
+  });
+
+  it('should queue requests until the budget refills', async () => {
+    await limiter.acquire(10, 'trading');
+    let released = false;
+    limiter.acquire(1, 'trading').then(() => { released = true; });
+
+    await vi.advanceTimersByTimeAsync(50);
+    expect(released).toBe(false);
+    expect(limiter.getStatus().queuedTrading).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(60);
+    expect(released).toBe(true);
+    expect(limiter.getStatus().throttledRequests).toBe(1);
+  });
+
+  it('should keep the trading reserve out of reach of reads', async () => {
+    await limiter.acquire(5);
+    let readReleased = false;
+    limiter.acquire(2).then(() => { readReleased = true; });
+    await limiter.acquire(2, 'trading');
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(readReleased).toBe(false);
+
+    // 3 left, the read needs 2 plus the 4 reserved
+    await vi.advanceTimersByTimeAsync(310);
+    expect(readReleased).toBe(true);
+  });
+
+  it('should serve queued trading actions before earlier reads', async () => {
+    await limiter.acquire(6);
+    const order: string[] = [];
+    limiter.acquire(4).then(() => order.push('read'));
+    limiter.acquire(4, 'trading').then(() => order.push('trade'));
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(order).toEqual(['trade', 'read']);
+  });
+
+  it('should delay later requests after weight charged from a response', async () => {
+    limiter.charge(15);
+    expect(limiter.getStatus().available).toBe(-5);
+
+    let released = false;
+    limiter.acquire(1, 'trading').then(() => { released = true; });
+    await vi.advanceTimersByTimeAsync(500);
+    expect(released).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(released).toBe(true);
+  });
+
+  it('should empty the budget when told the limit was hit', async () => {
+    limiter.exhaust();
+    expect(limiter.getStatus().available).toBe(0);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RpcEndpointPool, RpcRequestFn, isEndpointError } from '../../src/modules/rpcPool';
+
+const PRIMARY = 'https://primary.example/v2/secret-key';
+const FALLBACK = 'https://fallback.example';
+
+/**
+ * Scripted endpoint: answers with the handler, records every call
+ */
+class FakeEndpoint {
+  calls: string[] = [];
+  head = 1000n;
+  failWith: Error | null = null;
+
+  request: RpcRequestFn = async ({ method }) => {
+    this.calls.push(method);
+    if (this.failWith) throw this.failWith;
+    if (method === 'eth_blockNumber') return `0x${this.head.toString(16)}`;
+    return method;
+  };
+}
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`HTTP ${status}`), { name: 'HttpRequestError', status });
+}
+
+describe('RpcEndpointPool', () => {
+  let endpoints: Record<string, FakeEndpoint>;
+  let pool: RpcEndpointPool;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    endpoints = { [PRIMARY]: new FakeEndpoint(), [FALLBACK]: new FakeEndpoint() };
+    pool = new RpcEndpointPool([PRIMARY, FALLBACK], {
+      maxConsecutiveFailures: 2,
+      demotionMs: 60000,
+      maxBlockLag: 10,
+      createRequest: url => endpoints[url].request,
+    });
+  });
+
+  afterEach(() => {
+    pool.stopHealthChecks();
+    vi.useRealTimers();
+  });
+
+  it('should send requests to the primary endpoint first', async () => {
+    await expect(pool.request({ method: 'eth_chainId' })).resolves.toBe('eth_chainId');
+    expect(endpoints[PRIMARY].calls).toEqual(['eth_chainId']);
+    expect(endpoints[FALLBACK].calls).toEqual([]);
+  });
+
+  it('should fail over on endpoint errors', async () => {
+    endpoints[PRIMARY].failWith = httpError(429);
+
+    await expect(pool.request({ method: 'eth_call' })).resolves.toBe('eth_call');
+
+    expect(endpoints[FALLBACK].calls).toEqual(['eth_call']);
+    const [primary] = pool.getHealth();
+    expect(primary.totalFailures).toBe(1);
+    expect(primary.score).toBeLessThan(100);
+  });
+
+  it('should not fail over on request errors such as reverts', async () => {
+    const revert = Object.assign(new Error('execution reverted'), { code: 3 });
+    endpoints[PRIMARY].failWith = revert;
+
+    await expect(pool.request({ method: 'eth_call' })).rejects.toBe(revert);
+
+    expect(endpoints[FALLBACK].calls).toEqual([]);
+    expect(pool.getHealth()[0].totalFailures).toBe(0);
+  });
+
+  it('should throw the last error when every endpoint fails', async () => {
+    endpoints[PRIMARY].failWith = httpError(502);
+    endpoints[FALLBACK].failWith = httpError(503);
+
+    await expect(pool.request({ method: 'eth_call' })).rejects.toThrow('HTTP 503');
+  });
+
+  it('should prefer the endpoint with the better score', async () => {
+    endpoints[PRIMARY].failWith = httpError(429);
+    await pool.request({ method: 'eth_call' });
+
+    endpoints[PRIMARY].failWith = null;
+    endpoints[FALLBACK].calls = [];
+    await pool.request({ method: 'eth_call' });
+
+    expect(endpoints[FALLBACK].calls).toEqual(['eth_call']);
+  });
+
+  it('should demote an endpoint after consecutive failures and restore it later', async () => {
+    endpoints[PRIMARY].failWith = httpError(500);
+    // Health checks hit every endpoint, so the failures add up
+    await pool.checkHealth();
+    await pool.checkHealth();
+
+    expect(pool.getHealth()[0].status).toBe('demoted');
+
+    // Demoted endpoints are skipped even once they recover
+    endpoints[PRIMARY].failWith = null;
+    endpoints[PRIMARY].calls = [];
+    await pool.request({ method: 'eth_call' });
+    expect(endpoints[PRIMARY].calls).toEqual([]);
+
+    vi.advanceTimersByTime(60000);
+    expect(pool.getHealth()[0].status).toBe('healthy');
+  });
+
+  it('should still try demoted endpoints when nothing else is left', async () => {
+    endpoints[PRIMARY].failWith = httpError(500);
+    endpoints[FALLBACK].failWith = httpError(500);
+    await pool.request({ method: 'eth_call' }).catch(() => undefined);
+    await pool.request({ method: 'eth_call' }).catch(() => undefined);
+    expect(pool.getHealth().every(endpoint => endpoint.status === 'demoted')).toBe(true);
+
+    endpoints[FALLBACK].failWith = null;
+    await expect(pool.request({ method: 'eth_call' })).resolves.toBe('eth_call');
+  });
+
+  it('should mark endpoints lagging behind the head as stale', async () => {
+    endpoints[PRIMARY].head = 980n;
+    endpoints[FALLBACK].head = 1000n;
+
+    await pool.checkHealth();
+
+    const [primary, fallback] = pool.getHealth();
+    expect(primary.status).toBe('stale');
+    expect(primary.blockLag).toBe(20);
+    expect(fallback.status).toBe('healthy');
+
+    // Stale endpoints move to the back of the line
+    await pool.request({ method: 'eth_call' });
+    expect(endpoints[FALLBACK].calls).toContain('eth_call');
+
+    // Caught up again
+    endpoints[PRIMARY].head = 1000n;
+    await pool.checkHealth();
+    expect(pool.getHealth()[0].status).toBe('healthy');
+  });
+
+  it('should mask endpoint URLs in the reported health', () => {
+    const [primary, fallback] = pool.getHealth();
+    expect(primary.url).toBe('https://primary.example/***');
+    expect(fallback.url).toBe('https://fallback.example');
+  });
+
+  it('should require at least one URL', () => {
+    expect(() => new RpcEndpointPool([])).toThrow();
+  });
+});
+
+describe('isEndpointError', () => {
+  it('should treat transport failures and rate limits as endpoint errors', () => {
+    expect(isEndpointError(httpError(429))).toBe(true);
+    expect(isEndpointError(httpError(503))).toBe(true);
+    expect(isEndpointError(Object.assign(new Error('timeout'), { name: 'TimeoutError' }))).toBe(true);
+    expect(isEndpointError({ code: -32005 })).toBe(true);
+  });
+
+  it('should not treat reverts or invalid params as endpoint errors', () => {
+    expect(isEndpointError({ code: 3 })).toBe(false);
+    expect(isEndpointError({ code: -32602 })).toBe(false);
+    expect(isEndpointError(httpError(400))).toBe(false);
+  });
+});
@@ -5,7 +5,15 @@ import {
   calculateRequiredHedgeSize,
   calculateDeviation,
   determineHedgeAction,
-  isFundingRateAcceptable
+  isFundingRateAcceptable,
+  calculateAverageFundingRate,
+  identifyVolatileToken,
+  mergeLPPositions,
+  calculatePriceDivergence,
+  applyPendingOrders,
+  calculatePositionFundingPnl,
+  getMarginUsageLevel,
+  findUnexpectedPositions
 } from '../../src/utils/calculations';
 import { LPPosition, HyperliquidPosition, HedgingAction } from '../../src/types';
 
@@ -30,7 +38,7 @@ describe('Calculation Utilities', () => {
 
   // Test calculateRequiredHedgeSize
   describe('calculateRequiredHedgeSize', () => {
-    it('should return token0 exposure as hedge size', () => {
+    it('should return volatile token exposure as hedge size', () => {
       const lpPosition: LPPosition = {
         liquidityAmount: 1000n,
         token0Amount: 100n,
@@ -43,10 +51,163 @@ describe('Calculation Utilities', () => {
         token1Decimals: 6,
         token0Exposure: 50,
         token1Exposure: 100,
+        token0FeesAmount: 0n,
+        token1FeesAmount: 0n,
+        token0FeesExposure: 0,
+        token1FeesExposure: 0,
+        volatileTokenIndex: 0,
+        volatileExposure: 50,
+        stableExposure: 100,
         totalValueUSD: 150
       };
       expect(calculateRequiredHedgeSize(lpPosition)).toBe(50);
     });
+
+    it('should hedge token1 when the stablecoin is token0', () => {
+      const lpPosition: LPPosition = {
+        liquidityAmount: 1000n,
+        token0Amount: 200n,
+        token1Amount: 100n,
+        token0Address: '0x123',
+        token1Address: '0x456',
+        token0Symbol: 'USDT',
+        token1Symbol: 'PENDLE',
+        token0Decimals: 6,
+        token1Decimals: 18,
+        token0Exposure: 100,
+        token1Exposure: 40,
+        token0FeesAmount: 0n,
+        token1FeesAmount: 0n,
+        token0FeesExposure: 0,
+        token1FeesExposure: 0,
+        volatileTokenIndex: 1,
+        volatileExposure: 40,
+        stableExposure: 100,
+        totalValueUSD: 140
+      };
+      expect(calculateRequiredHedgeSize(lpPosition)).toBe(40);
+    });
+  });
+
+  // Test identifyVolatileToken
+  describe('identifyVolatileToken', () => {
+    const pendle = { address: '0x0c880f6761F1af8d9Aa9C466984b80DAb9a8c9e8', symbol: 'PENDLE' };
+    const usdt = { address: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', symbol: 'USDT' };
+
+    it('should match the base symbol of the pair ticker', () => {
+      expect(identifyVolatileToken(pendle, usdt, 'PENDLE-USDT')).toBe(0);
+      expect(identifyVolatileToken(usdt, pendle, 'PENDLE-USDT')).toBe(1);
+    });
+
+    it('should be case-insensitive', () => {
+      expect(identifyVolatileToken(usdt, { ...pendle, symbol: 'Pendle' }, 'pendle-usdt')).toBe(1);
+    });
+
+    it('should fall back to the quote symbol', () => {
+      const wrapped = { address: '0x1', symbol: 'WGMX' };
+      const usdc = { address: '0x2', symbol: 'USDC' };
+      expect(identifyVolatileToken(usdc, wrapped, 'GMX-USDC')).toBe(1);
+    });
+
+    it('should fall back to known stablecoins', () => {
+      const arb = { address: '0x1', symbol: 'ARB' };
+      const usdc = { address: '0x2', symbol: 'USDC' };
+      expect(identifyVolatileToken(usdc, arb, 'WHATEVER')).toBe(1);
+    });
+
+    it('should prefer an explicit hedge token address', () => {
+      expect(identifyVolatileToken(pendle, usdt, 'PENDLE-USDT', usdt.address.toLowerCase())).toBe(1);
+    });
+
+    it('should reject a hedge token outside the pool', () => {
+      expect(() => identifyVolatileToken(pendle, usdt, 'PENDLE-USDT', '0xdead')).toThrow();
+    });
+
+    it('should throw when the hedged token is ambiguous', () => {
+      const a = { address: '0x1', symbol: 'AAA' };
+      const b = { address: '0x2', symbol: 'BBB' };
+      expect(() => identifyVolatileToken(a, b, 'CCC-DDD')).toThrow();
+    });
+  });
+
+  // Test mergeLPPositions
+  describe('mergeLPPositions', () => {
+    const pendleUsdt: LPPosition = {
+      liquidityAmount: 1000n,
+      token0Amount: 100n,
+      token1Amount: 200n,
+      token0Address: '0x123',
+      token1Address: '0x456',
+      token0Symbol: 'PENDLE',
+      token1Symbol: 'USDT',
+      token0Decimals: 18,
+      token1Decimals: 6,
+      token0Exposure: 50,
+      token1Exposure: 100,
+      token0FeesAmount: 1n,
+      token1FeesAmount: 2n,
+      token0FeesExposure: 1,
+      token1FeesExposure: 2,
+      volatileTokenIndex: 0,
+      volatileExposure: 50,
+      stableExposure: 100,
+      totalValueUSD: 150
+    };
+
+    it('should return null when there are no positions', () => {
+      expect(mergeLPPositions([])).toBeNull();
+    });
+
+    it('should sum amounts and exposures for the same pair', () => {
+      const merged = mergeLPPositions([pendleUsdt, pendleUsdt]);
+      expect(merged?.token0Amount).toBe(200n);
+      expect(merged?.token1FeesAmount).toBe(4n);
+      expect(merged?.token0Exposure).toBe(100);
+      expect(merged?.volatileExposure).toBe(100);
+      expect(merged?.totalValueUSD).toBe(300);
+    });
+
+    it('should only net USD totals across different pairs', () => {
+      const usdcPendle: LPPosition = {
+        ...pendleUsdt,
+        token0Address: '0x001',
+        token1Address: '0x123',
+        token0Symbol: 'USDC',
+        token1Symbol: 'PENDLE',
+        token0Exposure: 30,
+        token1Exposure: 20,
+        volatileTokenIndex: 1,
+        volatileExposure: 20,
+        stableExposure: 30,
+        totalValueUSD: 50
+      };
+      const merged = mergeLPPositions([pendleUsdt, usdcPendle]);
+      expect(merged?.token0Symbol).toBe('PENDLE');
+      expect(merged?.token0Amount).toBe(100n);
+      expect(merged?.token0Exposure).toBe(50);
+      expect(merged?.volatileExposure).toBe(70);
+      expect(merged?.stableExposure).toBe(130);
+      expect(merged?.totalValueUSD).toBe(200);
+    });
+
+    it('should not modify the input positions', () => {
+      const input = { ...pendleUsdt };
+      mergeLPPositions([input, pendleUsdt]);
+      expect(input.totalValueUSD).toBe(150);
+    });
+  });
+
+  // Test calculatePriceDivergence
+  describe('calculatePriceDivergence', () => {
+    it('should return the relative difference as a fraction', () => {
+      expect(calculatePriceDivergence(1.03, 1)).toBeCloseTo(0.03, 10);
+      expect(calculatePriceDivergence(0.97, 1)).toBeCloseTo(0.03, 10);
+      expect(calculatePriceDivergence(5, 5)).toBe(0);
+    });
+
+    it('should reject a non-positive reference price', () => {
+      expect(() => calculatePriceDivergence(1, 0)).toThrow();
+    });
   });
 
   // Test calculateDeviation
@@ -81,15 +242,24 @@ describe('Calculation Utilities', () => {
       token1Decimals: 6,
       token0Exposure: 100,
       token1Exposure: 100,
+      token0FeesAmount: 0n,
+      token1FeesAmount: 0n,
+      token0FeesExposure: 0,
+      token1FeesExposure: 0,
+      volatileTokenIndex: 0,
+      volatileExposure: 100,
+      stableExposure: 100,
       totalValueUSD: 200
     };
 
     const hedgePosition: HyperliquidPosition = {
       coin: 'PENDLE-PERP',
       entryPrice: 10,
-      size: -100, // Short position
+      sizeCoin: -10, // Short position
+      notionalUsd: 100,
       side: 'SHORT',
       leverage: 5,
+      marginMode: 'isolated',
       marginUsd: 20,
       markPrice: 10,
       unrealizedPnl: 0,
@@ -103,14 +273,14 @@ describe('Calculation Utilities', () => {
     });
 
     it('should return INCREASE_SHORT when LP exposure is higher than hedge', () => {
-      const highExposureLP = { ...lpPosition, token0Exposure: 120 };
+      const highExposureLP = { ...lpPosition, token0Exposure: 120, volatileExposure: 120 };
       const result = determineHedgeAction(highExposureLP, hedgePosition, 0.1, 10);
       expect(result.action).toBe(HedgingAction.INCREASE_SHORT);
       expect(result.sizeChange).toBe(20);
     });
 
     it('should return DECREASE_SHORT when LP exposure is lower than hedge', () => {
-      const lowExposureLP = { ...lpPosition, token0Exposure: 80 };
+      const lowExposureLP = { ...lpPosition, token0Exposure: 80, volatileExposure: 80 };
       const result = determineHedgeAction(lowExposureLP, hedgePosition, 0.1, 10);
       expect(result.action).toBe(HedgingAction.DECREASE_SHORT);
       expect(result.sizeChange).toBe(20);
@@ -121,6 +291,8 @@ describe('Calculation Utilities', () => {
         ...lpPosition,
         token0Exposure: 0,
         token1Exposure: 0,
+        volatileExposure: 0,
+        stableExposure: 0,
         totalValueUSD: 0
       };
       const result = determineHedgeAction(emptyLP, hedgePosition, 0.1, 10);
@@ -135,17 +307,124 @@ describe('Calculation Utilities', () => {
     });
   });
 
+  // Test applyPendingOrders
+  describe('applyPendingOrders', () => {
+    const hedgePosition: HyperliquidPosition = {
+      coin: 'PENDLE',
+      entryPrice: 10,
+      sizeCoin: -10,
+      notionalUsd: 100,
+      side: 'SHORT',
+      leverage: 5,
+      marginMode: 'isolated',
+      marginUsd: 20,
+      markPrice: 10,
+      unrealizedPnl: 0,
+      liquidationPrice: 12
+    };
+
+    it('should return the position unchanged without pending orders', () => {
+      expect(applyPendingOrders(hedgePosition, 0, 10, 'PENDLE')).toBe(hedgePosition);
+      expect(applyPendingOrders(null, 0, 10, 'PENDLE')).toBeNull();
+    });
+
+    it('should add pending sells to the short', () => {
+      const result = applyPendingOrders(hedgePosition, -5, 10, 'PENDLE');
+      expect(result?.sizeCoin).toBe(-15);
+      expect(result?.notionalUsd).toBe(150);
+      expect(result?.side).toBe('SHORT');
+    });
+
+    it('should count a pending sell as a hedge when there is no position yet', () => {
+      const result = applyPendingOrders(null, -4, 10, 'PENDLE');
+      expect(result?.sizeCoin).toBe(-4);
+      expect(result?.notionalUsd).toBe(40);
+    });
+  });
+
+  // Test calculatePositionFundingPnl
+  describe('calculatePositionFundingPnl', () => {
+    const HOUR = 60 * 60 * 1000;
+    const payment = (hour: number, sizeCoin: number, usdc: number) => ({
+      coin: 'PENDLE', time: hour * HOUR, usdc, sizeCoin, fundingRate: 0.0000125
+    });
+
+    it('should sum the payments of the current position', () => {
+      const payments = [payment(1, -10, 0.01), payment(2, -10, 0.02), payment(3, -12, -0.005)];
+      expect(calculatePositionFundingPnl(payments, -12)).toBeCloseTo(0.025);
+    });
+
+    it('should stop at a payment made on the other side', () => {
+      const payments = [payment(1, 10, -0.5), payment(2, -10, 0.02), payment(3, -10, 0.02)];
+      expect(calculatePositionFundingPnl(payments, -10)).toBeCloseTo(0.04);
+    });
+
+    it('should stop at a gap where the account was flat', () => {
+      const payments = [payment(1, -10, 0.5), payment(5, -10, 0.02), payment(6, -10, 0.02)];
+      expect(calculatePositionFundingPnl(payments, -10)).toBeCloseTo(0.04);
+    });
+
+    it('should be zero without a position', () => {
+      expect(calculatePositionFundingPnl([payment(1, -10, 0.01)], 0)).toBe(0);
+    });
+  });
+
+  // Test calculateAverageFundingRate
+  describe('calculateAverageFundingRate', () => {
+    it('should average hourly rates', () => {
+      expect(calculateAverageFundingRate([0.00001, 0.00003, -0.00001])).toBeCloseTo(0.00001);
+      expect(calculateAverageFundingRate([])).toBe(0);
+    });
+  });
+
   // Test isFundingRateAcceptable
   describe('isFundingRateAcceptable', () => {
-    it('should accept funding rates within tolerance', () => {
-      expect(isFundingRateAcceptable(0.002, 0.005)).toBe(true);
-      expect(isFundingRateAcceptable(-0.002, 0.005)).toBe(true);
-      expect(isFundingRateAcceptable(0, 0.005)).toBe(true);
+    it('should accept funding costs within tolerance', () => {
+      expect(isFundingRateAcceptable(-0.002, 0.005, 'SHORT')).toBe(true);
+      expect(isFundingRateAcceptable(0.002, 0.005, 'LONG')).toBe(true);
+      expect(isFundingRateAcceptable(0, 0.005, 'SHORT')).toBe(true);
+    });
+
+    it('should reject funding costs outside tolerance', () => {
+      expect(isFundingRateAcceptable(-0.006, 0.005, 'SHORT')).toBe(false);
+      expect(isFundingRateAcceptable(0.006, 0.005, 'LONG')).toBe(false);
+    });
+
+    it('should always accept funding the position receives', () => {
+      expect(isFundingRateAcceptable(0.05, 0.005, 'SHORT')).toBe(true);
+      expect(isFundingRateAcceptable(-0.05, 0.005, 'LONG')).toBe(true);
+    });
+  });
+
+  // Test getMarginUsageLevel
+  describe('getMarginUsageLevel', () => {
+    it('should grade margin usage against the warn and critical levels', () => {
+      expect(getMarginUsageLevel(0.3, 0.6, 0.8)).toBe('ok');
+      expect(getMarginUsageLevel(0.6, 0.6, 0.8)).toBe('warn');
+      expect(getMarginUsageLevel(0.95, 0.6, 0.8)).toBe('critical');
+    });
+  });
+
+  // Test findUnexpectedPositions
+  describe('findUnexpectedPositions', () => {
+    const position = (coin: string, sizeCoin: number): HyperliquidPosition => ({
+      coin,
+      entryPrice: 10,
+      sizeCoin,
+      notionalUsd: Math.abs(sizeCoin) * 10,
+      side: sizeCoin > 0 ? 'LONG' : 'SHORT',
+      leverage: 3,
+      marginMode: 'cross',
+      marginUsd: 10,
+      markPrice: 10,
+      unrealizedPnl: 0,
+      liquidationPrice: 0
     });
 
-    it('should reject funding rates outside tolerance', () => {
-      expect(isFundingRateAcceptable(0.006, 0.005)).toBe(false);
-      expect(isFundingRateAcceptable(-0.006, 0.005)).toBe(false);
+    it('should flag open positions on coins that are not hedged', () => {
+      const positions = [position('PENDLE', -10), position('ETH', 1), position('ARB', 0)];
+      const unexpected = findUnexpectedPositions(positions, ['PENDLE']);
+      expect(unexpected.map(p => p.coin)).toEqual(['ETH']);
     });
   });
-});
\ No newline at end of file
+});
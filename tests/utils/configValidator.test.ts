@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// The validator reads the vault address from config, which requires the bot's environment
+const testConfig = vi.hoisted(() => ({ hyperliquidVaultAddress: '' }));
+vi.mock('../../src/config', () => ({ config: testConfig, default: testConfig }));
+
+import {
+  HyperliquidAccountSource,
+  validateHyperliquidAccount,
+} from '../../src/utils/configValidator';
+import { HyperliquidUserRole } from '../../src/types';
+
+const MASTER = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+const AGENT = '0x2222222222222222222222222222222222222222';
+const OTHER = '0x3333333333333333333333333333333333333333';
+const VAULT = '0x4444444444444444444444444444444444444444';
+
+/**
+ * Answers role and vault leader lookups from fixed tables
+ */
+class StubAccountSource implements HyperliquidAccountSource {
+  signer: `0x${string}` = MASTER;
+  roles: Record<string, HyperliquidUserRole> = {};
+  leaders: Record<string, `0x${string}`> = {};
+  roleError: Error | null = null;
+
+  getSignerAddress(): `0x${string}` {
+    return this.signer;
+  }
+
+  getMasterAddress(): `0x${string}` {
+    return MASTER;
+  }
+
+  async getUserRole(address: `0x${string}`): Promise<HyperliquidUserRole> {
+    if (this.roleError) {
+      throw this.roleError;
+    }
+    return this.roles[address] ?? { role: 'missing', owner: null };
+  }
+
+  async getVaultLeader(vaultAddress: `0x${string}`): Promise<`0x${string}`> {
+    return this.leaders[vaultAddress];
+  }
+}
+
+describe('validateHyperliquidAccount', () => {
+  let source: StubAccountSource;
+
+  beforeEach(() => {
+    source = new StubAccountSource();
+    testConfig.hyperliquidVaultAddress = '';
+  });
+
+  // Test keys that trade for the master account
+  it('should accept the master account signing for itself', async () => {
+    await expect(validateHyperliquidAccount(source)).resolves.toBe(true);
+  });
+
+  it('should accept an agent wallet the master approved', async () => {
+    source.signer = AGENT;
+    // Owners come back checksummed or lower case, either matches
+    source.roles[AGENT] = { role: 'agent', owner: '0xABCDEFABCDEFABCDEFABCDEFABCDEFABCDEFABCD' };
+
+    await expect(validateHyperliquidAccount(source)).resolves.toBe(true);
+  });
+
+  it('should reject an agent wallet of a different owner', async () => {
+    source.signer = AGENT;
+    source.roles[AGENT] = { role: 'agent', owner: OTHER };
+
+    await expect(validateHyperliquidAccount(source)).resolves.toBe(false);
+  });
+
+  // Test sub-accounts and vaults traded on behalf of
+  it('should reject a sub-account of another master', async () => {
+    testConfig.hyperliquidVaultAddress = VAULT;
+    source.roles[VAULT] = { role: 'subAccount', owner: OTHER };
+
+    await expect(validateHyperliquidAccount(source)).resolves.toBe(false);
+
+    source.roles[VAULT] = { role: 'subAccount', owner: MASTER };
+    await expect(validateHyperliquidAccount(source)).resolves.toBe(true);
+  });
+
+  it('should reject a vault with a different leader', async () => {
+    testConfig.hyperliquidVaultAddress = VAULT;
+    source.roles[VAULT] = { role: 'vault', owner: null };
+    source.leaders[VAULT] = OTHER;
+
+    await expect(validateHyperliquidAccount(source)).resolves.toBe(false);
+
+    source.leaders[VAULT] = MASTER;
+    await expect(validateHyperliquidAccount(source)).resolves.toBe(true);
+  });
+
+  it('should fail closed when the role lookup throws', async () => {
+    source.signer = AGENT;
+    source.roleError = new Error('API error: 500 - internal error');
+
+    await expect(validateHyperliquidAccount(source)).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  roundSize,
+  roundPrice,
+  usdToCoinSize,
+  calculateSlippage,
+  calculateMarginAdjustment,
+  toFundingRate,
+  calculateBookDepth,
+  estimateFill
+} from '../../src/utils/hyperliquidMath';
+
+describe('Hyperliquid Math', () => {
+  // Test roundSize
+  describe('roundSize', () => {
+    it('should round to the size decimals', () => {
+      expect(roundSize(1.23456, 2)).toBe(1.23);
+      expect(roundSize(1.235, 2)).toBe(1.24);
+      expect(roundSize(12.6, 0)).toBe(13);
+    });
+
+    it('should keep the sign of short sizes', () => {
+      expect(roundSize(-1.23456, 2)).toBe(-1.23);
+    });
+
+    it('should round down without float noise', () => {
+      expect(roundSize(0.29, 2, 'down')).toBe(0.29);
+      expect(roundSize(0.2999, 2, 'down')).toBe(0.29);
+    });
+  });
+
+  // Test roundPrice
+  describe('roundPrice', () => {
+    it('should keep at most 5 significant figures', () => {
+      expect(roundPrice(1670.123, 4)).toBe(1670.1);
+      expect(roundPrice(3.456789, 0)).toBe(3.4568);
+    });
+
+    it('should cap decimals at 6 - szDecimals', () => {
+      // 5 significant figures would allow 6 decimals, szDecimals 2 allows 4
+      expect(roundPrice(0.01234567, 2)).toBe(0.0123);
+      expect(roundPrice(0.01234567, 0)).toBe(0.012346);
+    });
+
+    it('should always accept integer prices', () => {
+      expect(roundPrice(123456, 0)).toBe(123456);
+    });
+
+    it('should round large prices to integers', () => {
+      expect(roundPrice(123456.7, 0)).toBe(123457);
+    });
+
+    it('should round in the requested direction', () => {
+      expect(roundPrice(4.56789, 1, 'down')).toBe(4.5678);
+      expect(roundPrice(4.56781, 1, 'up')).toBe(4.5679);
+      expect(roundPrice(1670.1, 4, 'down')).toBe(1670.1);
+    });
+
+    it('should reject non-positive prices', () => {
+      expect(() => roundPrice(0, 2)).toThrow();
+    });
+  });
+
+  // Test usdToCoinSize
+  describe('usdToCoinSize', () => {
+    it('should convert USD at the price and round to size decimals', () => {
+      expect(usdToCoinSize(100, 3.3, 1)).toBe(30.3);
+      expect(usdToCoinSize(100, 3.3, 0, 'down')).toBe(30);
+    });
+  });
+
+  // Test calculateSlippage
+  describe('calculateSlippage', () => {
+    it('should be positive when a fill is worse than the reference', () => {
+      expect(calculateSlippage('BUY', 100, 100.5)).toBeCloseTo(0.005);
+      expect(calculateSlippage('SELL', 100, 99.5)).toBeCloseTo(0.005);
+    });
+
+    it('should be negative when a fill is better than the reference', () => {
+      expect(calculateSlippage('BUY', 100, 99.8)).toBeCloseTo(-0.002);
+      expect(calculateSlippage('SELL', 100, 100.2)).toBeCloseTo(-0.002);
+    });
+
+    it('should reject a missing reference price', () => {
+      expect(() => calculateSlippage('BUY', 0, 100)).toThrow();
+    });
+  });
+
+  // Test calculateMarginAdjustment
+  describe('calculateMarginAdjustment', () => {
+    it('should leave leverage inside the band alone', () => {
+      expect(calculateMarginAdjustment(300, 100, 3, 2, 4)).toBe(0);
+      expect(calculateMarginAdjustment(400, 100, 3, 2, 4)).toBe(0);
+    });
+
+    it('should add margin back to target when leverage is too high', () => {
+      expect(calculateMarginAdjustment(500, 100, 3, 2, 4)).toBeCloseTo(66.67, 2);
+    });
+
+    it('should remove margin back to target when leverage is too low', () => {
+      expect(calculateMarginAdjustment(150, 100, 3, 2, 4)).toBe(-50);
+    });
+
+    it('should ignore positions without notional', () => {
+      expect(calculateMarginAdjustment(0, 100, 3, 2, 4)).toBe(0);
+    });
+  });
+
+  // Test toFundingRate
+  describe('toFundingRate', () => {
+    it('should quote an hourly rate over longer periods', () => {
+      const rate = toFundingRate(0.0000125);
+      expect(rate.hourly).toBe(0.0000125);
+      expect(rate.eightHour).toBeCloseTo(0.0001);
+      expect(rate.daily).toBeCloseTo(0.0003);
+      expect(rate.annualized).toBeCloseTo(0.1095);
+    });
+  });
+
+  // Test calculateBookDepth
+  describe('calculateBookDepth', () => {
+    const book = {
+      coin: 'PENDLE',
+      time: 0,
+      bids: [{ price: 3.99, sizeCoin: 100 }, { price: 3.9, sizeCoin: 500 }],
+      asks: [{ price: 4.01, sizeCoin: 50 }, { price: 4.05, sizeCoin: 80 }],
+    };
+
+    it('should sum the bids down to the limit for a sell', () => {
+      expect(calculateBookDepth(book, 'SELL', 3.95)).toBe(100);
+      expect(calculateBookDepth(book, 'SELL', 3.9)).toBe(600);
+    });
+
+    it('should sum the asks up to the limit for a buy', () => {
+      expect(calculateBookDepth(book, 'BUY', 4.05)).toBe(130);
+      expect(calculateBookDepth(book, 'BUY', 4)).toBe(0);
+    });
+  });
+
+  // Test estimateFill
+  describe('estimateFill', () => {
+    const book = {
+      coin: 'PENDLE',
+      time: 0,
+      bids: [{ price: 3.99, sizeCoin: 100 }, { price: 3.9, sizeCoin: 500 }],
+      asks: [{ price: 4.01, sizeCoin: 50 }, { price: 4.05, sizeCoin: 80 }],
+    };
+
+    it('should average the levels an order walks through', () => {
+      const estimate = estimateFill(book, 'SELL', 200);
+      expect(estimate.midPrice).toBe(4);
+      expect(estimate.fillableSizeCoin).toBe(200);
+      expect(estimate.avgFillPrice).toBeCloseTo(3.945);
+      expect(estimate.worstPrice).toBe(3.9);
+      expect(estimate.impact).toBeCloseTo(0.01375);
+    });
+
+    it('should report how much of a large order the book can absorb', () => {
+      const estimate = estimateFill(book, 'BUY', 200);
+      expect(estimate.fillableSizeCoin).toBe(130);
+      expect(estimate.worstPrice).toBe(4.05);
+    });
+
+    it('should throw without a two-sided book', () => {
+      expect(() => estimateFill({ ...book, asks: [] }, 'SELL', 10)).toThrow();
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  actionHash,
+  constructPhantomAgent,
+  floatToIntForHashing,
+  floatToUsdInt,
+  floatToWire,
+  orderWiresToOrderAction,
+  signL1Action,
+  toCloid
+} from '../../src/utils/hyperliquidSigning';
+
+// Vectors from the official Hyperliquid Python SDK signing tests
+const TEST_KEY = '0x0123456789012345678901234567890123456789012345678901234567890123';
+
+describe('Hyperliquid Signing', () => {
+  // Test floatToWire
+  describe('floatToWire', () => {
+    it('should strip trailing zeros', () => {
+      expect(floatToWire(1670.1)).toBe('1670.1');
+      expect(floatToWire(0.0147)).toBe('0.0147');
+      expect(floatToWire(100)).toBe('100');
+      expect(floatToWire(0)).toBe('0');
+    });
+
+    it('should reject values that need more than 8 decimals', () => {
+      expect(() => floatToWire(0.123456789)).toThrow();
+    });
+  });
+
+  describe('floatToIntForHashing', () => {
+    it('should scale by 1e8', () => {
+      expect(floatToIntForHashing(1000)).toBe(100000000000);
+      expect(floatToIntForHashing(0.5)).toBe(50000000);
+    });
+  });
+
+  describe('floatToUsdInt', () => {
+    it('should scale by 1e6 and keep the sign', () => {
+      expect(floatToUsdInt(12.5)).toBe(12500000);
+      expect(floatToUsdInt(-0.000001)).toBe(-1);
+    });
+
+    it('should refuse amounts below a micro-dollar', () => {
+      expect(() => floatToUsdInt(0.0000001)).toThrow();
+    });
+  });
+
+  // Test actionHash / constructPhantomAgent
+  describe('actionHash', () => {
+    it('should match the production phantom agent for an order', () => {
+      const action = orderWiresToOrderAction([{
+        a: 4,
+        b: true,
+        p: floatToWire(1670.1),
+        s: floatToWire(0.0147),
+        r: false,
+        t: { limit: { tif: 'Ioc' } }
+      }]);
+
+      const agent = constructPhantomAgent(actionHash(action, null, 1677777606040), true);
+
+      expect(agent.source).toBe('a');
+      expect(agent.connectionId).toBe(
+        '0x0fcbeda5ae3c4950a548021552a4fea2226858c4453571bf3f24ba017eac2908'
+      );
+    });
+
+    it('should change with the vault address and nonce', () => {
+      const action = { type: 'dummy', num: 1 };
+      const vault = '0x1719884eb866cb12b2287399b15f7db5e7d775ea';
+
+      expect(actionHash(action, vault, 0)).not.toBe(actionHash(action, null, 0));
+      expect(actionHash(action, null, 1)).not.toBe(actionHash(action, null, 0));
+    });
+
+    it('should leave out undefined fields such as a missing cloid', () => {
+      const wire = { a: 1, b: false, p: '1', s: '1', r: true, t: { limit: { tif: 'Gtc' as const } } };
+      expect(actionHash(orderWiresToOrderAction([{ ...wire, c: undefined }]), null, 0))
+        .toBe(actionHash(orderWiresToOrderAction([wire]), null, 0));
+    });
+  });
+
+  // Test toCloid
+  describe('toCloid', () => {
+    it('should derive the same 16 byte cloid from the same key', () => {
+      const cloid = toCloid('1700000000000:PENDLE:increase:0');
+      expect(cloid).toMatch(/^0x[0-9a-f]{32}$/);
+      expect(toCloid('1700000000000:PENDLE:increase:0')).toBe(cloid);
+      expect(toCloid('1700000000000:PENDLE:increase:1')).not.toBe(cloid);
+    });
+  });
+
+  // Test signL1Action
+  describe('signL1Action', () => {
+    const action = { type: 'dummy', num: floatToIntForHashing(1000) };
+
+    it('should match the SDK mainnet signature', async () => {
+      const signature = await signL1Action(TEST_KEY, action, null, 0, true);
+      expect(signature).toEqual({
+        r: '0x053749d5b30552aeb2fca34b530185976545bb22d0b3ce6f62e31be961a59298',
+        s: '0x755c40ba9bf05223521753995abb2f73ab3229be8ec921f350cb447e384d8ed8',
+        v: 27
+      });
+    });
+
+    it('should match the SDK testnet signature', async () => {
+      const signature = await signL1Action(TEST_KEY, action, null, 0, false);
+      expect(signature).toEqual({
+        r: '0x542af61ef1f429707e3c76c5293c80d01f74ef853e34b76efffcb57e574f9510',
+        s: '0x17b8b32f086e8cdede991f1e2c529f5dd5297cbe8128500e00cbaf766204a613',
+        v: 28
+      });
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { computePoolAddress, sortTokens } from '../../src/utils/poolAddress';
+
+// Arbitrum One token addresses
+const WETH = '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1';
+const USDC = '0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+const USDC_E = '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8';
+const ARB = '0x912CE59144191C1204E64559FE8253a0e49E6548';
+
+describe('Pool Address Utilities', () => {
+  // Test sortTokens
+  describe('sortTokens', () => {
+    it('should order tokens by address', () => {
+      expect(sortTokens(WETH, USDC)).toEqual([WETH, USDC]);
+      expect(sortTokens(USDC, WETH)).toEqual([WETH, USDC]);
+    });
+
+    it('should reject identical tokens', () => {
+      expect(() => sortTokens(WETH, WETH.toLowerCase() as `0x${string}`)).toThrow();
+    });
+  });
+
+  // Test computePoolAddress against deployed Arbitrum pools
+  describe('computePoolAddress', () => {
+    it('should derive the WETH/USDC 0.05% pool', () => {
+      expect(computePoolAddress(WETH, USDC, 500)).toBe('0xC6962004f452bE9203591991D15f6b388e09E8D0');
+    });
+
+    it('should derive the WETH/USDC.e 0.05% pool', () => {
+      expect(computePoolAddress(WETH, USDC_E, 500)).toBe('0xC31E54c7a869B9FcBEcc14363CF510d1c41fa443');
+    });
+
+    it('should derive the WETH/ARB 0.05% pool', () => {
+      expect(computePoolAddress(WETH, ARB, 500)).toBe('0xC6F780497A95e246EB9449f5e4770916DCd6396A');
+    });
+
+    it('should not depend on token order', () => {
+      expect(computePoolAddress(USDC, WETH, 500)).toBe(computePoolAddress(WETH, USDC, 500));
+    });
+
+    it('should give a different pool for a different fee tier', () => {
+      expect(computePoolAddress(WETH, USDC, 3000)).not.toBe(computePoolAddress(WETH, USDC, 500));
+    });
+  });
+});
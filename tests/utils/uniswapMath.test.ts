@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Q96,
+  MIN_TICK,
+  MAX_TICK,
+  MIN_SQRT_RATIO,
+  MAX_SQRT_RATIO,
+  getSqrtRatioAtTick,
+  getAmount0ForLiquidity,
+  getAmount1ForLiquidity,
+  getAmountsForLiquidity,
+  getFeeGrowthInside,
+  getUncollectedFees,
+  getArithmeticMeanTick,
+  tickToPrice,
+  Q128
+} from '../../src/utils/uniswapMath';
+
+describe('Uniswap V3 Math', () => {
+  // Test getSqrtRatioAtTick
+  describe('getSqrtRatioAtTick', () => {
+    it('should match the TickMath bounds', () => {
+      expect(getSqrtRatioAtTick(MIN_TICK)).toBe(MIN_SQRT_RATIO);
+      expect(getSqrtRatioAtTick(MAX_TICK)).toBe(MAX_SQRT_RATIO);
+    });
+
+    it('should return 2^96 at tick 0', () => {
+      expect(getSqrtRatioAtTick(0)).toBe(Q96);
+    });
+
+    it('should match known on-chain values', () => {
+      expect(getSqrtRatioAtTick(1)).toBe(79232123823359799118286999568n);
+      expect(getSqrtRatioAtTick(-1)).toBe(79224201403219477170569942574n);
+    });
+
+    it('should reject ticks out of bounds', () => {
+      expect(() => getSqrtRatioAtTick(MAX_TICK + 1)).toThrow();
+      expect(() => getSqrtRatioAtTick(MIN_TICK - 1)).toThrow();
+    });
+  });
+
+  // Test single-token amount helpers
+  describe('getAmount0ForLiquidity / getAmount1ForLiquidity', () => {
+    it('should be symmetric in the order of sqrt prices', () => {
+      const a = getSqrtRatioAtTick(-600);
+      const b = getSqrtRatioAtTick(600);
+      expect(getAmount0ForLiquidity(a, b, 10n ** 18n)).toBe(getAmount0ForLiquidity(b, a, 10n ** 18n));
+      expect(getAmount1ForLiquidity(a, b, 10n ** 18n)).toBe(getAmount1ForLiquidity(b, a, 10n ** 18n));
+    });
+  });
+
+  // Test getAmountsForLiquidity
+  describe('getAmountsForLiquidity', () => {
+    const liquidity = 10n ** 18n;
+    const tickLower = -600;
+    const tickUpper = 600;
+
+    it('should hold only token0 when price is below the range', () => {
+      const { amount0, amount1 } = getAmountsForLiquidity(
+        getSqrtRatioAtTick(-1200), tickLower, tickUpper, liquidity
+      );
+      expect(amount0).toBeGreaterThan(0n);
+      expect(amount1).toBe(0n);
+    });
+
+    it('should hold only token1 when price is above the range', () => {
+      const { amount0, amount1 } = getAmountsForLiquidity(
+        getSqrtRatioAtTick(1200), tickLower, tickUpper, liquidity
+      );
+      expect(amount0).toBe(0n);
+      expect(amount1).toBeGreaterThan(0n);
+    });
+
+    it('should treat price at the upper tick as fully token1', () => {
+      const { amount0 } = getAmountsForLiquidity(
+        getSqrtRatioAtTick(tickUpper), tickLower, tickUpper, liquidity
+      );
+      expect(amount0).toBe(0n);
+    });
+
+    it('should split evenly for a symmetric range at tick 0', () => {
+      const { amount0, amount1 } = getAmountsForLiquidity(Q96, tickLower, tickUpper, liquidity);
+      expect(amount0).toBeGreaterThan(0n);
+      expect(amount1).toBeGreaterThan(0n);
+      // At price 1.0 both sides should be within rounding of each other
+      const diff = amount0 > amount1 ? amount0 - amount1 : amount1 - amount0;
+      expect(Number(diff) / Number(amount0)).toBeLessThan(0.001);
+    });
+
+    it('should match the float approximation for an in-range position', () => {
+      const sqrtPriceX96 = getSqrtRatioAtTick(100);
+      const { amount0, amount1 } = getAmountsForLiquidity(sqrtPriceX96, tickLower, tickUpper, liquidity);
+      const sqrtP = Math.sqrt(1.0001 ** 100);
+      const sqrtA = Math.sqrt(1.0001 ** tickLower);
+      const sqrtB = Math.sqrt(1.0001 ** tickUpper);
+      expect(Number(amount0) / 1e18).toBeCloseTo(1 / sqrtP - 1 / sqrtB, 9);
+      expect(Number(amount1) / 1e18).toBeCloseTo(sqrtP - sqrtA, 9);
+    });
+  });
+
+  // Test fee accounting
+  describe('getFeeGrowthInside', () => {
+    it('should subtract growth outside both ticks when in range', () => {
+      expect(getFeeGrowthInside(0, -60, 60, 1000n, 100n, 200n)).toBe(700n);
+    });
+
+    it('should attribute all growth between ticks when price is below the range', () => {
+      // below = global - outsideLower, above = outsideUpper
+      expect(getFeeGrowthInside(-120, -60, 60, 1000n, 300n, 200n)).toBe(100n);
+    });
+
+    it('should wrap around like uint256 arithmetic', () => {
+      const result = getFeeGrowthInside(0, -60, 60, 10n, 20n, 0n);
+      expect(result).toBe(2n ** 256n - 10n);
+    });
+  });
+
+  describe('getUncollectedFees', () => {
+    it('should add accrued fees to tokensOwed', () => {
+      const liquidity = 5n * 10n ** 18n;
+      const growthDelta = Q128 / 1000n; // 0.001 per unit of liquidity
+      const fees = getUncollectedFees(liquidity, 10n + growthDelta, 10n, 7n);
+      expect(fees).toBe(7n + (liquidity * growthDelta) / Q128);
+    });
+
+    it('should handle fee growth that wrapped past uint256', () => {
+      const last = 2n ** 256n - Q128;
+      const fees = getUncollectedFees(1n, Q128, last, 0n);
+      expect(fees).toBe(2n);
+    });
+
+    it('should return tokensOwed when nothing accrued', () => {
+      expect(getUncollectedFees(10n ** 18n, 42n, 42n, 99n)).toBe(99n);
+    });
+  });
+
+  // Test oracle helpers
+  describe('getArithmeticMeanTick', () => {
+    it('should divide the cumulative delta by the window', () => {
+      expect(getArithmeticMeanTick(1000n, 1000n + 600n * 1800n, 1800)).toBe(600);
+    });
+
+    it('should round negative ticks towards negative infinity', () => {
+      expect(getArithmeticMeanTick(0n, -1801n, 1800)).toBe(-2);
+      expect(getArithmeticMeanTick(0n, -3600n, 1800)).toBe(-2);
+    });
+
+    it('should reject an empty window', () => {
+      expect(() => getArithmeticMeanTick(0n, 10n, 0)).toThrow();
+    });
+  });
+
+  describe('tickToPrice', () => {
+    it('should return 1 at tick 0 for equal decimals', () => {
+      expect(tickToPrice(0, 18, 18)).toBe(1);
+    });
+
+    it('should adjust for token decimals', () => {
+      // 18-decimal token0 priced in a 6-decimal token1
+      const tick = Math.round(Math.log(4 * 1e-12) / Math.log(1.0001));
+      expect(tickToPrice(tick, 18, 6)).toBeCloseTo(4, 2);
+    });
+  });
+});